@@ -0,0 +1,113 @@
+// FILE: scripts/arena.ts
+
+/**
+ * Play a match between two AI configurations from the command line:
+ *
+ *   npm run arena -- hard medium --games 40
+ *   npm run arena -- medium:mcts medium:minimax --games 20 --seed 7 --size 5
+ *   npm run arena -- medium medium --first-weights weights.json
+ *   npm run arena -- "exec:./my-bot" hard --movetime 500 --first-options Level=3
+ *
+ * Each configuration is a difficulty with an optional engine after a colon,
+ * or `exec:` and a command that starts an engine speaking the protocol in
+ * `src/lib/engineProtocol.ts`. External engines search with `--movetime`
+ * (ms, default 1000) and `--depth`; `--first-options` and `--second-options`
+ * set their options as `Name=value,Name=value`. Weight files hold an
+ * `EvaluationWeights` object as JSON.
+ */
+
+import { readFileSync } from 'fs';
+import { runArena, runArenaAsync, ArenaEngine, ArenaPlayer, ArenaOptions, ArenaReport } from '../src/lib/arena';
+import { AIDifficulty, AIEngine, BoardSize } from '../src/lib/types';
+import { spawnEngine, EngineProcess } from './engineProcess';
+
+const DIFFICULTIES: AIDifficulty[] = ['beginner', 'easy', 'medium', 'hard'];
+const ENGINES: AIEngine[] = ['minimax', 'mcts'];
+
+function usage(message: string): never {
+  console.error(message);
+  console.error('Usage: npm run arena -- <difficulty[:engine]|exec:COMMAND> <difficulty[:engine]|exec:COMMAND> [--games N] [--seed N] [--size 5|7|9] [--opening N] [--max-plies N] [--first-weights FILE] [--second-weights FILE] [--movetime MS] [--depth N] [--first-options LIST] [--second-options LIST]');
+  process.exit(1);
+}
+
+function parseEngine(spec: string, weightsFile: string | undefined): ArenaEngine {
+  const [difficulty, engine = 'minimax'] = spec.split(':');
+  if (!DIFFICULTIES.includes(difficulty as AIDifficulty)) usage(`Unknown difficulty: ${difficulty}`);
+  if (!ENGINES.includes(engine as AIEngine)) usage(`Unknown engine: ${engine}`);
+  return {
+    name: weightsFile ? `${spec} (${weightsFile})` : spec,
+    difficulty: difficulty as AIDifficulty,
+    engine: engine as AIEngine,
+    weights: weightsFile ? JSON.parse(readFileSync(weightsFile, 'utf8')) : undefined
+  };
+}
+
+const specs: string[] = [];
+const flags: Record<string, string> = {};
+const args = process.argv.slice(2);
+for (let i = 0; i < args.length; i++) {
+  if (args[i].startsWith('--')) {
+    if (i + 1 >= args.length) usage(`Missing value for ${args[i]}`);
+    flags[args[i].slice(2)] = args[++i];
+  } else {
+    specs.push(args[i]);
+  }
+}
+if (specs.length !== 2) usage('Expected two configurations');
+
+const processes: EngineProcess[] = [];
+
+async function parsePlayer(spec: string, weightsFile: string | undefined, optionList: string | undefined): Promise<ArenaPlayer> {
+  if (!spec.startsWith('exec:')) return parseEngine(spec, weightsFile);
+
+  const options: Record<string, string> = {};
+  for (const pair of (optionList ?? '').split(',').filter(Boolean)) {
+    const [name, value] = pair.split('=');
+    if (value === undefined) usage(`Expected Name=value in engine options: ${pair}`);
+    options[name.trim()] = value.trim();
+  }
+  const engine = await spawnEngine(spec.slice('exec:'.length), {
+    movetime: Number(flags.movetime ?? 1000),
+    depth: flags.depth !== undefined ? Number(flags.depth) : undefined
+  }, options);
+  processes.push(engine);
+  return { ...engine.bot, name: `${engine.identity.name} (${spec.slice('exec:'.length)})` };
+}
+
+const first = await parsePlayer(specs[0], flags['first-weights'], flags['first-options']);
+const second = await parsePlayer(specs[1], flags['second-weights'], flags['second-options']);
+const games = Number(flags.games ?? 20);
+
+console.log(`${first.name} vs ${second.name}, ${games} games`);
+const options: ArenaOptions = {
+  games,
+  seed: flags.seed !== undefined ? Number(flags.seed) : undefined,
+  boardSize: flags.size !== undefined ? Number(flags.size) as BoardSize : undefined,
+  openingPlies: flags.opening !== undefined ? Number(flags.opening) : undefined,
+  maxPlies: flags['max-plies'] !== undefined ? Number(flags['max-plies']) : undefined,
+  onGame: (game, index) => {
+    const result = game.winner === null ? '1/2-1/2' : game.winner === 'Light' ? '1-0' : '0-1';
+    console.log(`${index + 1}. ${game.light} - ${game.dark}: ${result} in ${game.plies} plies`);
+  }
+};
+let report: ArenaReport;
+try {
+  report = processes.length > 0
+    ? await runArenaAsync(first, second, options)
+    : runArena(first as ArenaEngine, second as ArenaEngine, options);
+} catch (error) {
+  console.error((error as Error).message);
+  processes.forEach(engine => engine.close());
+  process.exit(1);
+}
+processes.forEach(engine => engine.close());
+
+function formatElo(elo: number): string {
+  if (!Number.isFinite(elo)) return elo > 0 ? '+∞' : '-∞';
+  return elo >= 0 ? `+${elo.toFixed(0)}` : elo.toFixed(0);
+}
+
+const margin = Number.isFinite(report.eloMargin) ? report.eloMargin.toFixed(0) : '∞';
+console.log(`+${report.wins} =${report.draws} -${report.losses}`);
+console.log(`Elo difference: ${formatElo(report.elo)} ±${margin} (95%)`);
+console.log(`Average length: ${report.averagePlies.toFixed(1)} plies`);
@@ -0,0 +1,25 @@
+// FILE: scripts/engine.ts
+
+/**
+ * The built-in AI as a protocol engine on stdin and stdout, for any program
+ * that speaks the protocol in `src/lib/engineProtocol.ts`:
+ *
+ *   npm run --silent engine
+ *   npm run arena -- "exec:npx vite-node scripts/engine.ts" medium --movetime 500
+ *
+ * Its options are `Difficulty` (the budget when `go` sets none, and the
+ * weights) and `Engine` (minimax or mcts).
+ */
+
+import { createInterface } from 'readline';
+import { EngineSession } from '../src/lib/engineProtocol';
+
+const session = new EngineSession({
+  write: line => process.stdout.write(`${line}\n`),
+  pause: () => new Promise(resolve => setImmediate(resolve)),
+  quit: () => process.exit(0)
+});
+
+createInterface({ input: process.stdin })
+  .on('line', line => session.receive(line))
+  .on('close', () => process.exit(0));
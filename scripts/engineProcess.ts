@@ -0,0 +1,64 @@
+// FILE: scripts/engineProcess.ts
+
+/**
+ * Runs an external engine executable and drives it through `EngineClient`,
+ * for the arena and any other Node tooling (a dev-server middleware, say)
+ * that wants to play against a bot.
+ */
+
+import { spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { EngineClient, EngineBudget, EngineIdentity } from '../src/lib/engineClient';
+import { ArenaBot } from '../src/lib/arena';
+
+export interface EngineProcess {
+  client: EngineClient;
+  identity: EngineIdentity;
+  bot: ArenaBot; // Plays through the client with the budget given at spawn
+  close: () => void;
+}
+
+/**
+ * Start `command` in a shell, complete the handshake and set `options`.
+ * Every later request fails if the process exits.
+ */
+export async function spawnEngine(
+  command: string,
+  budget: EngineBudget,
+  options: Record<string, string> = {}
+): Promise<EngineProcess> {
+  const child = spawn(command, { shell: true, stdio: ['pipe', 'pipe', 'inherit'] });
+  const client = new EngineClient(line => child.stdin.write(`${line}\n`));
+  createInterface({ input: child.stdout }).on('line', line => client.receive(line));
+
+  let closing = false;
+  const exited = new Promise<never>((_, reject) => {
+    child.on('error', reject);
+    child.on('exit', code => {
+      if (!closing) reject(new Error(`Engine "${command}" exited with code ${code}`));
+    });
+  });
+  // Only requests racing against the exit should see it
+  exited.catch(() => undefined);
+
+  const identity = await Promise.race([client.start(), exited]);
+  for (const [name, value] of Object.entries(options)) {
+    client.setOption(name, value);
+  }
+  await Promise.race([client.isReady(), exited]);
+
+  return {
+    client,
+    identity,
+    bot: {
+      name: identity.name,
+      newGame: () => client.newGame(),
+      play: async state => (await Promise.race([client.go(state, budget), exited])).actions
+    },
+    close: () => {
+      closing = true;
+      client.quit();
+      child.stdin.end();
+    }
+  };
+}
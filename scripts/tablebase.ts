@@ -0,0 +1,79 @@
+// FILE: scripts/tablebase.ts
+
+/**
+ * Generate endgame tablebases and write them where the app bundles them:
+ *
+ *   npm run tablebase -- --size 5 --light 3 --dark 2 --threshold 1
+ *   npm run tablebase -- --size 5 --light 2 --dark 2 --threshold 0 --blockade off
+ *
+ * Every table from one stone above the threshold up to the given material
+ * is generated, smallest first. `--threshold` overrides the board's win
+ * threshold; the AI only uses tables whose rules match the game's. The
+ * standard rules' endgames are all larger than `MAX_POSITIONS`, so no table
+ * for them can be generated.
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { generateTablebases, encodeTablebase, tablebaseSize } from '../src/lib/tablebase';
+import { RULE_SETS } from '../src/lib/rules';
+import { BoardSize } from '../src/lib/types';
+
+const OUT_DIR = 'src/tablebases';
+
+// Every table being solved is held in memory with each position's turns, so
+// larger runs do not fit
+const MAX_POSITIONS = 2_000_000;
+
+function usage(message: string): never {
+  console.error(message);
+  console.error('Usage: npm run tablebase -- --size 5|7|9 --light N --dark N [--threshold N] [--blockade on|off] [--out DIR]');
+  process.exit(1);
+}
+
+const flags: Record<string, string> = {};
+const args = process.argv.slice(2);
+for (let i = 0; i < args.length; i += 2) {
+  if (!args[i].startsWith('--') || i + 1 >= args.length) usage(`Unexpected argument: ${args[i]}`);
+  flags[args[i].slice(2)] = args[i + 1];
+}
+
+const size = Number(flags.size ?? 5) as BoardSize;
+if (!(size in RULE_SETS)) usage(`Unknown board size: ${flags.size}`);
+if (flags.light === undefined || flags.dark === undefined) usage('Both --light and --dark are required');
+const rules = { ...RULE_SETS[size], winThreshold: Number(flags.threshold ?? RULE_SETS[size].winThreshold) };
+const blockadeOneRemoval = (flags.blockade ?? 'on') !== 'off';
+const light = Number(flags.light);
+const dark = Number(flags.dark);
+const out = flags.out ?? OUT_DIR;
+
+let total = 0;
+for (let l = rules.winThreshold + 1; l <= light; l++) {
+  for (let d = rules.winThreshold + 1; d <= dark; d++) {
+    total += tablebaseSize(size, l, d);
+  }
+}
+if (total === 0) usage(`Both sides need more than ${rules.winThreshold} stones`);
+if (total > MAX_POSITIONS) {
+  usage(`${total.toLocaleString()} positions is too many to solve in memory, the limit is ${MAX_POSITIONS.toLocaleString()}`);
+}
+console.log(`${size}x${size}, out at ${rules.winThreshold} stones, ${total.toLocaleString()} positions in all`);
+
+mkdirSync(out, { recursive: true });
+let start = Date.now();
+generateTablebases({ rules, blockadeOneRemoval }, light, dark, table => {
+  const name = `${size}x${size}-${rules.winThreshold}${blockadeOneRemoval ? 'b' : ''}-${table.light}v${table.dark}.json`;
+  writeFileSync(join(out, name), JSON.stringify(encodeTablebase(table)) + '\n');
+
+  let wins = 0;
+  let losses = 0;
+  let longest = 0;
+  for (const value of table.values) {
+    if (value > 0) wins++;
+    if (value < 0) losses++;
+    longest = Math.max(longest, Math.abs(value));
+  }
+  const draws = table.values.length - wins - losses;
+  console.log(`${name}: ${wins} won, ${losses} lost, ${draws} drawn, longest ${longest} turns (${((Date.now() - start) / 1000).toFixed(1)} s)`);
+  start = Date.now();
+});
@@ -0,0 +1,79 @@
+// FILE: scripts/tune.ts
+
+/**
+ * Fit a difficulty's evaluation weights to self-play games, write them to
+ * the weights file the AI loads at startup and play the new weights against
+ * the old ones:
+ *
+ *   npm run tune -- --difficulty medium --games 200 --match-games 40
+ *
+ * Self-play uses a faster difficulty (`--self-play`, easy by default) whose
+ * random moves also make for more varied positions.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { generateTrainingSet, tuneWeights } from '../src/lib/tuning';
+import { runArena } from '../src/lib/arena';
+import { difficultyWeights } from '../src/lib/ai';
+import { AIDifficulty } from '../src/lib/types';
+
+const DIFFICULTIES: AIDifficulty[] = ['beginner', 'easy', 'medium', 'hard'];
+const WEIGHTS_FILE = 'src/lib/weights.json';
+
+function usage(message: string): never {
+  console.error(message);
+  console.error('Usage: npm run tune -- [--difficulty D] [--self-play D] [--games N] [--match-games N] [--seed N] [--out FILE]');
+  process.exit(1);
+}
+
+const flags: Record<string, string> = {};
+const args = process.argv.slice(2);
+for (let i = 0; i < args.length; i += 2) {
+  if (!args[i].startsWith('--') || i + 1 >= args.length) usage(`Unexpected argument: ${args[i]}`);
+  flags[args[i].slice(2)] = args[i + 1];
+}
+
+const difficulty = (flags.difficulty ?? 'medium') as AIDifficulty;
+const selfPlay = (flags['self-play'] ?? 'easy') as AIDifficulty;
+if (!DIFFICULTIES.includes(difficulty)) usage(`Unknown difficulty: ${difficulty}`);
+if (!DIFFICULTIES.includes(selfPlay)) usage(`Unknown difficulty: ${selfPlay}`);
+const games = Number(flags.games ?? 100);
+const matchGames = Number(flags['match-games'] ?? 20);
+const seed = Number(flags.seed ?? 1);
+const out = flags.out ?? WEIGHTS_FILE;
+
+const old = difficultyWeights(difficulty);
+
+console.log(`Playing ${games} ${selfPlay} self-play games...`);
+const positions = generateTrainingSet({ games, difficulty: selfPlay, seed });
+console.log(`Fitting ${difficulty} weights to ${positions.length} positions...`);
+const tuned = tuneWeights(positions, old);
+
+console.log(`Logistic scale ${tuned.scale.toFixed(1)}, error ${tuned.initialError.toFixed(5)} -> ${tuned.finalError.toFixed(5)} after ${tuned.passes} passes`);
+console.log('Weight          old      new');
+for (const term of Object.keys(old) as (keyof typeof old)[]) {
+  console.log(`${term.padEnd(14)} ${old[term].toFixed(2).padStart(6)} ${tuned.weights[term].toFixed(2).padStart(8)}`);
+}
+
+const rounded = Object.fromEntries(
+  Object.entries(tuned.weights).map(([term, value]) => [term, Math.round(value * 100) / 100])
+);
+const file = (() => {
+  try {
+    return JSON.parse(readFileSync(out, 'utf8'));
+  } catch {
+    return {};
+  }
+})();
+writeFileSync(out, JSON.stringify({ ...file, [difficulty]: rounded }, null, 2) + '\n');
+console.log(`Wrote ${out}`);
+
+console.log(`Playing ${matchGames} games, new weights against old at ${difficulty}...`);
+const report = runArena(
+  { name: 'new', difficulty, weights: tuned.weights },
+  { name: 'old', difficulty, weights: old },
+  { games: matchGames, seed }
+);
+const elo = Number.isFinite(report.elo) ? report.elo.toFixed(0) : report.elo > 0 ? '+∞' : '-∞';
+const margin = Number.isFinite(report.eloMargin) ? report.eloMargin.toFixed(0) : '∞';
+console.log(`New vs old: +${report.wins} =${report.draws} -${report.losses}, Elo ${elo} ±${margin} (95%), ${report.averagePlies.toFixed(1)} plies per game`);
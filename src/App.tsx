@@ -6,6 +6,8 @@ import { AboutModal } from './components/AboutModal';
 import { SettingsModal } from './components/SettingsModal';
 import { ProfileModal } from './components/ProfileModal';
 import { LeaderboardModal } from './components/LeaderboardModal';
+import { GameReviewModal } from './components/GameReviewModal';
+import { CoachWarningDialog } from './components/CoachWarningDialog';
 import { LoginPrompt } from './components/LoginPrompt';
 import { Toast } from './components/Toast';
 import { Button } from './components/ui/button';
@@ -164,6 +166,8 @@ function App() {
         open={showLeaderboard}
         onOpenChange={setShowLeaderboard}
       />
+      <GameReviewModal />
+      <CoachWarningDialog />
       
       {/* Toast Notifications */}
       <Toast />
@@ -1,10 +1,15 @@
 // FILE: src/components/Board.tsx
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Cell } from './Cell';
 import { HintOverlay } from './HintOverlay';
+import { PositionEditor } from './PositionEditor';
+import { ReviewNavigator } from './ReviewNavigator';
+import { EvalBar } from './EvalBar';
 import { useGameStore } from '../state/gameStore';
 import { movesFor, placementsFor } from '../lib/rules';
+import { detectThreats } from '../lib/threats';
+import { isAITurn } from '../lib/ai';
 import { Cell as CellType } from '../lib/types';
 
 export function Board() {
@@ -17,14 +22,39 @@ export function Board() {
     hoveredMove,
     previewCaptures,
     setHoveredMove,
-    settings
+    settings,
+    editorState,
+    editCell,
+    gameReview
   } = useGameStore();
   
+  // The editor draws its draft instead of the game and takes every click
+  const isEditing = editorState !== null;
+  // A position picked from the review chart is only looked at
+  const reviewPosition = gameReview?.position ?? null;
+  const isViewing = isEditing || reviewPosition !== null;
+  const displayState = editorState ?? reviewPosition ?? gameState;
+  
+  const threats = useMemo(
+    () => settings.threatOverlayEnabled && !isEditing ? detectThreats(displayState) : null,
+    [settings.threatOverlayEnabled, isEditing, displayState]
+  );
+  // Threats are read for the human on move, or whoever moves next when the AI is thinking
+  const threatened = isAITurn(displayState, settings.players)
+    ? (displayState.current === 'Light' ? 'Dark' : 'Light')
+    : displayState.current;
+  
   const handleCellClick = (cell: CellType) => {
+    if (isEditing) {
+      editCell(cell);
+      return;
+    }
+    if (isViewing) return;
     selectCell(cell);
   };
   
   const handleCellHover = (cell: CellType | null) => {
+    if (isViewing) return;
     setHoveredMove(cell);
   };
   
@@ -33,7 +63,20 @@ export function Board() {
     return previewCaptures.some(capture => capture.r === cell.r && capture.c === cell.c);
   };
   
+  const isEndangered = (cell: CellType): boolean => {
+    if (!threats || displayState.board[cell.r][cell.c] !== threatened) return false;
+    return threats.endangered[threatened].some(target => target.r === cell.r && target.c === cell.c);
+  };
+  
+  const isAttackable = (cell: CellType): boolean => {
+    const opponent = threatened === 'Light' ? 'Dark' : 'Light';
+    if (!threats || displayState.board[cell.r][cell.c] !== opponent) return false;
+    return threats.endangered[opponent].some(target => target.r === cell.r && target.c === cell.c);
+  };
+  
   const getValidMoves = (): CellType[] => {
+    if (isViewing) return [];
+    
     if (gameState.phase === 'placement') {
       return placementsFor(gameState, gameState.current);
     }
@@ -65,45 +108,56 @@ export function Board() {
   };
   
   const isRemovableInBlockade = (cell: CellType): boolean => {
-    if (!blockadeRemovalMode) return false;
+    if (isViewing || !blockadeRemovalMode) return false;
     return gameState.board[cell.r][cell.c] === gameState.current;
   };
   
   const isMovablePiece = (cell: CellType): boolean => {
-    if (gameState.phase !== 'movement') return false;
+    if (isViewing || gameState.phase !== 'movement') return false;
     if (gameState.board[cell.r][cell.c] !== gameState.current) return false;
     return movesFor(gameState, cell).length > 0;
   };
   
   return (
-    <div 
-      className="seejeh-board"
-      role="grid"
-      aria-label="Seejeh game board"
-    >
-      {gameState.board.map((row, r) =>
-        row.map((player, c) => {
-          const cell = { r, c };
-          return (
-            <div key={`${r}-${c}`} className="relative">
-              <Cell
-                cell={cell}
-                player={player}
-                isSelected={isSelected(cell)}
-                isValidMove={isRemovableInBlockade(cell)}
-                isValidPlacement={isValidPlacement(cell)}
-                isValidPieceMove={isValidPieceMove(cell)}
-                isMovablePiece={isMovablePiece(cell)}
-                isWouldBeCaptured={isWouldBeCaptured(cell)}
-                onClick={handleCellClick}
-                onHover={handleCellHover}
-                className={isRemovableInBlockade(cell) ? 'removable' : ''}
-              />
-              {showHints && <HintOverlay cell={cell} />}
-            </div>
-          );
-        })
-      )}
+    <div className="space-y-4">
+      {isEditing && <PositionEditor />}
+      {!isEditing && <ReviewNavigator />}
+      <div className="flex gap-3">
+        {settings.evalBarEnabled && !isEditing && <EvalBar state={displayState} />}
+        <div 
+          className="seejeh-board flex-1"
+          style={{ gridTemplateColumns: `repeat(${displayState.rules.size}, 1fr)` }}
+          role="grid"
+          aria-label="Seejeh game board"
+        >
+          {displayState.board.map((row, r) =>
+            row.map((player, c) => {
+              const cell = { r, c };
+              return (
+                <div key={`${r}-${c}`} className="relative">
+                  <Cell
+                    cell={cell}
+                    boardSize={displayState.rules.size}
+                    player={player}
+                    isSelected={!isViewing && isSelected(cell)}
+                    isValidMove={isRemovableInBlockade(cell)}
+                    isValidPlacement={isValidPlacement(cell)}
+                    isValidPieceMove={isValidPieceMove(cell)}
+                    isMovablePiece={isMovablePiece(cell)}
+                    isWouldBeCaptured={!isViewing && isWouldBeCaptured(cell)}
+                    isEndangered={isEndangered(cell)}
+                    isAttackable={isAttackable(cell)}
+                    onClick={handleCellClick}
+                    onHover={handleCellHover}
+                    className={isRemovableInBlockade(cell) ? 'removable' : ''}
+                  />
+                  {showHints && !isViewing && <HintOverlay cell={cell} />}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -7,6 +7,7 @@ import { cn } from '../lib/utils';
 
 interface CellProps {
   cell: CellType;
+  boardSize: number;
   player: Player | null;
   isSelected: boolean;
   isValidMove: boolean;
@@ -14,6 +15,8 @@ interface CellProps {
   isValidPieceMove?: boolean;
   isMovablePiece?: boolean;
   isWouldBeCaptured?: boolean;
+  isEndangered?: boolean; // The opponent can capture this stone next move
+  isAttackable?: boolean; // An enemy stone the player on move can capture
   onClick: (cell: CellType) => void;
   onHover?: (cell: CellType | null) => void;
   className?: string;
@@ -21,6 +24,7 @@ interface CellProps {
 
 export function Cell({
   cell,
+  boardSize,
   player,
   isSelected,
   isValidMove,
@@ -28,11 +32,13 @@ export function Cell({
   isValidPieceMove = false,
   isMovablePiece = false,
   isWouldBeCaptured = false,
+  isEndangered = false,
+  isAttackable = false,
   onClick,
   onHover,
   className
 }: CellProps) {
-  const isCenterCell = isCenter(cell);
+  const isCenterCell = isCenter(cell, boardSize);
   
   const handleClick = () => onClick(cell);
   
@@ -73,7 +79,7 @@ export function Cell({
       onKeyDown={handleKeyDown}
       tabIndex={0}
       role="button"
-      aria-label={`Cell ${cell.r + 1}, ${cell.c + 1}${isCenterCell ? ' (center, safe)' : ''}${player ? ` - ${player} stone` : ' - empty'}${isMovablePiece ? ' - can be moved' : ''}${isValidPlacement ? ' - can place stone' : ''}${isValidPieceMove ? ' - can move here' : ''}${isValidMove ? ' - valid action' : ''}${isWouldBeCaptured ? ' - would be captured' : ''}`}
+      aria-label={`Cell ${cell.r + 1}, ${cell.c + 1}${isCenterCell ? ' (center, safe)' : ''}${player ? ` - ${player} stone` : ' - empty'}${isMovablePiece ? ' - can be moved' : ''}${isValidPlacement ? ' - can place stone' : ''}${isValidPieceMove ? ' - can move here' : ''}${isValidMove ? ' - valid action' : ''}${isWouldBeCaptured ? ' - would be captured' : ''}${isEndangered ? ' - in danger' : ''}${isAttackable ? ' - can be captured' : ''}`}
     >
       {player && (
         <div
@@ -82,7 +88,9 @@ export function Cell({
             player.toLowerCase(),
             isSelected && 'selected',
             isMovablePiece && !isSelected && 'movable',
-            isWouldBeCaptured && 'capture-preview'
+            isWouldBeCaptured && 'capture-preview',
+            isEndangered && 'threat-endangered',
+            isAttackable && 'threat-attackable'
           )}
           aria-hidden="true"
         >
@@ -0,0 +1,60 @@
+// FILE: src/components/ChessClock.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent } from './ui/card';
+import { useGameStore } from '../state/gameStore';
+import { useTranslation } from '../hooks/useTranslation';
+import { timeLeft, formatClockTime } from '../lib/clock';
+import { Player } from '../lib/types';
+import { Timer, Pause } from '@phosphor-icons/react';
+
+export function ChessClock() {
+  const { gameState } = useGameStore();
+  const { t } = useTranslation();
+  const [now, setNow] = useState(() => Date.now());
+
+  const clock = gameState.clock;
+  const running = clock?.runningSince !== null && clock?.runningSince !== undefined;
+
+  // Redraw while the clock runs; the store owns the actual timing
+  useEffect(() => {
+    setNow(Date.now());
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, [running, gameState]);
+
+  if (!clock) return null;
+
+  return (
+    <Card>
+      <CardContent className="pt-4">
+        <div className="grid grid-cols-2 gap-2" dir="ltr">
+          {(['Light', 'Dark'] as Player[]).map(player => {
+            const remaining = timeLeft(clock, player, gameState.current, now);
+            const active = gameState.current === player && gameState.winner === undefined;
+            return (
+              <div
+                key={player}
+                className={`rounded-md border px-3 py-2 text-center transition-colors ${
+                  active ? 'border-primary bg-primary/10' : 'border-border'
+                } ${remaining < 10_000 ? 'text-destructive' : ''}`}
+              >
+                <div className="text-xs text-muted-foreground flex items-center justify-center gap-1">
+                  {active && !running ? <Pause size={12} /> : <Timer size={12} />}
+                  {t(`player.${player}`)}
+                </div>
+                <div className={`font-mono text-2xl tabular-nums ${active ? 'font-bold' : ''}`}>
+                  {formatClockTime(remaining)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        {!running && gameState.winner === undefined && (
+          <div className="text-xs text-muted-foreground text-center mt-2">{t('clock.paused')}</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
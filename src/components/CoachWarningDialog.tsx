@@ -0,0 +1,80 @@
+// FILE: src/components/CoachWarningDialog.tsx
+
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { useGameStore } from '../state/gameStore';
+import { useTranslation } from '../hooks/useTranslation';
+import { formatCell, formatMoveList } from '../lib/notation';
+import { GameAction } from '../lib/types';
+import { GraduationCap, Warning } from '@phosphor-icons/react';
+
+/**
+ * Coach mode's warning before a move that hangs stones or passes up a
+ * capture; the player plays it anyway or picks another move
+ */
+export function CoachWarningDialog() {
+  const { coachWarning, gameState, confirmCoachMove, dismissCoachWarning } = useGameStore();
+  const { t } = useTranslation();
+
+  if (!coachWarning) return null;
+
+  const { from, to, hung, missed } = coachWarning;
+  const missedMove = missed
+    ? formatMoveList(gameState, [
+        { type: 'move', from: missed.from, to: missed.path[0] },
+        ...missed.path.slice(1).map((step): GameAction => ({ type: 'chainStep', to: step }))
+      ])[0]
+    : null;
+
+  return (
+    <Dialog open onOpenChange={open => !open && dismissCoachWarning()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GraduationCap size={20} />
+            {t('coach.title')}
+          </DialogTitle>
+          <DialogDescription>
+            {t('coach.description', { move: `${formatCell(from)}-${formatCell(to)}` })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-2 text-sm">
+          {hung.length > 0 && (
+            <li className="flex gap-2">
+              <Warning size={16} className="text-destructive shrink-0 mt-0.5" />
+              <span>
+                {t('coach.hung', { count: hung.length.toString(), cells: hung.map(formatCell).join(', ') })}
+              </span>
+            </li>
+          )}
+          {missed && missedMove && (
+            <li className="flex gap-2">
+              <Warning size={16} className="text-accent shrink-0 mt-0.5" />
+              <span>
+                {t('coach.missed', { count: missed.captured.length.toString(), move: missedMove })}
+              </span>
+            </li>
+          )}
+        </ul>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={confirmCoachMove}>
+            {t('coach.confirm')}
+          </Button>
+          <Button onClick={dismissCoachWarning}>
+            {t('coach.reconsider')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
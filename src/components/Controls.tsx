@@ -1,16 +1,22 @@
 // FILE: src/components/Controls.tsx
 
-import React from 'react';
+import React, { useRef } from 'react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
 import { HintsPanel } from './HintsPanel';
 import { MoveAnalysisPanel } from './MoveAnalysisPanel';
+import { MoveList } from './MoveList';
+import { ChessClock } from './ChessClock';
+import { SpectatorControls } from './SpectatorControls';
 import { useGameStore } from '../state/gameStore';
 import { countStones, hasAnyLegalMove } from '../lib/rules';
 import { useTranslation } from '../hooks/useTranslation';
-import { isAITurn } from '../lib/ai';
-import { Gear, ArrowClockwise, Robot, ArrowRight, Flag, Handshake } from '@phosphor-icons/react';
+import { isAITurn, isSpectating, playerDifficulty } from '../lib/ai';
+import { Player } from '../lib/types';
+import { GAME_RECORD_EXTENSION } from '../lib/gameRecord';
+import { Gear, ArrowClockwise, Robot, ArrowRight, Flag, Handshake, ArrowUUpLeft, ArrowUUpRight, DownloadSimple, UploadSimple, PencilSimple, ChartLineUp } from '@phosphor-icons/react';
 
 export function Controls() {
   const {
@@ -22,16 +28,33 @@ export function Controls() {
     setShowSettings,
     blockadeRemovalMode,
     aiThinking,
+    aiProgress,
     offerStalemate,
     rejectStalemate,
-    resignGame
+    resignGame,
+    canUndo,
+    undo,
+    redo,
+    redoStack,
+    undosUsed,
+    exportGame,
+    importGame,
+    editorState,
+    openEditor,
+    reviewGame
   } = useGameStore();
   
   const { t } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
   
   const lightCount = countStones(gameState, 'Light');
   const darkCount = countStones(gameState, 'Dark');
   const isCurrentAI = isAITurn(gameState, settings.players);
+  const spectating = isSpectating(settings.players);
+  // The AI is always thinking while spectating, so only lock the controls for a human's opponent
+  const locked = aiThinking && !spectating;
+  const aiPlayers = (['Light', 'Dark'] as Player[]).filter(player => settings.players[player].type === 'ai');
+  const mode = spectating ? 'ai-vs-ai' : aiPlayers.length > 0 ? 'human-vs-ai' : 'human-vs-human';
   const hasMovesAvailable = hasAnyLegalMove(gameState, gameState.current);
   
   const getPhaseInstructions = () => {
@@ -59,6 +82,28 @@ export function Controls() {
     }
   };
   
+  const handleExport = () => {
+    const record = exportGame();
+    if (!record) return;
+    
+    const blob = new Blob([record], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `seejeh-${new Date().toISOString().slice(0, 10)}${GAME_RECORD_EXTENSION}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+  
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so choosing the same file again still fires a change
+    event.target.value = '';
+    if (!file) return;
+    
+    importGame(await file.text());
+  };
+  
   const getCurrentPlayerDisplay = () => {
     const playerName = t(`player.${gameState.current}`);
     if (isCurrentAI) {
@@ -75,15 +120,18 @@ export function Controls() {
   
   return (
     <div className="space-y-4">
-      {/* AI Opponent Info */}
+      {/* Game Mode Info */}
       <Card className="border-primary/20">
         <CardContent className="pt-4">
           <div className="flex items-center gap-2 text-sm">
             <Robot size={16} className="text-primary" />
-            <span className="font-medium">{t('mode.human-vs-ai')}</span>
-            <Badge variant="outline">
-              {t(`aiDifficulty.${settings.aiDifficulty}`)}
-            </Badge>
+            <span className="font-medium">{t(`mode.${mode}`)}</span>
+            {aiPlayers.map(player => (
+              <Badge key={player} variant="outline">
+                {spectating && `${t(`player.${player}`)}: `}
+                {t(`aiDifficulty.${playerDifficulty(settings, player)}`)}
+              </Badge>
+            ))}
           </div>
         </CardContent>
       </Card>
@@ -141,6 +189,10 @@ export function Controls() {
             </span>
           </div>
           
+          {aiThinking && aiProgress && (
+            <Progress value={(aiProgress.searched / aiProgress.total) * 100} className="h-1" />
+          )}
+          
           {gameState.phase === 'placement' && (
             <div className="text-sm">
               {t('stonesToPlace')}: {gameState.stonesToPlace[gameState.current]}
@@ -149,31 +201,110 @@ export function Controls() {
         </CardContent>
       </Card>
       
+      <ChessClock />
+      
+      <SpectatorControls />
+      
       {/* Actions */}
       <Card>
         <CardContent className="pt-6 space-y-3">
           <div className="flex gap-2">
             <Button
-              onClick={newGame}
+              onClick={() => newGame()}
               variant="outline"
               size="sm"
               className="flex-1"
-              disabled={aiThinking}
+              disabled={locked}
             >
               <ArrowClockwise size={16} className="mr-2" />
               {t('newGame')}
             </Button>
             
+            <Button
+              onClick={openEditor}
+              variant="outline"
+              size="sm"
+              title={t('editor.edit')}
+              aria-label={t('editor.edit')}
+              disabled={aiThinking || editorState !== null}
+            >
+              <PencilSimple size={16} />
+            </Button>
+            
             <Button
               onClick={() => setShowSettings(true)}
               variant="outline"
               size="sm"
-              disabled={aiThinking}
+              disabled={locked}
             >
               <Gear size={16} />
             </Button>
           </div>
           
+          <div className="flex gap-2">
+            <Button
+              onClick={handleExport}
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              title={t('record.exportTitle')}
+              disabled={locked}
+            >
+              <DownloadSimple size={16} className="mr-2" />
+              {t('record.export')}
+            </Button>
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              title={t('record.importTitle')}
+              disabled={locked}
+            >
+              <UploadSimple size={16} className="mr-2" />
+              {t('record.import')}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={`${GAME_RECORD_EXTENSION},.txt`}
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+          
+          {settings.undoPolicy !== 'disabled' && !spectating && (
+            <div className="space-y-1">
+              <div className="flex gap-2">
+                <Button
+                  onClick={undo}
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  disabled={!canUndo()}
+                >
+                  <ArrowUUpLeft size={16} className="mr-2" />
+                  {t('undo.undo')}
+                </Button>
+                <Button
+                  onClick={redo}
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  disabled={aiThinking || redoStack.length === 0}
+                >
+                  <ArrowUUpRight size={16} className="mr-2" />
+                  {t('undo.redo')}
+                </Button>
+              </div>
+              {settings.undoPolicy === 'limited' && (
+                <div className="text-xs text-muted-foreground text-center">
+                  {t('undo.remaining', { count: Math.max(0, settings.undoLimit - undosUsed).toString() })}
+                </div>
+              )}
+            </div>
+          )}
+          
           {gameState.phase === 'chain' && !isCurrentAI && (
             <Button
               onClick={endChainCapture}
@@ -226,13 +357,18 @@ export function Controls() {
                         player: t(`player.${gameState.winReason.resignedPlayer}`)
                       })
                     )}
+                    {gameState.winReason.type === 'timeout' && (
+                      t('winReason.timeout', {
+                        player: t(`player.${gameState.winReason.timedOutPlayer}`)
+                      })
+                    )}
                     {gameState.winReason.type === 'stalemate' && (
                       t(`winReason.stalemate.${gameState.winReason.drawType}`)
                     )}
                   </div>
                   {gameState.winReason.type === 'stoneCount' && (
                     <div className="text-xs text-muted-foreground">
-                      {t('winReason.threshold', { threshold: '7' })}
+                      {t('winReason.threshold', { threshold: gameState.winReason.threshold.toString() })}
                     </div>
                   )}
                 </div>
@@ -241,6 +377,16 @@ export function Controls() {
               <div className="text-sm text-muted-foreground">
                 {t('gameOver')}
               </div>
+              
+              <Button
+                onClick={() => reviewGame()}
+                variant="outline"
+                size="sm"
+                className="w-full mt-3"
+              >
+                <ChartLineUp size={16} className="mr-2" />
+                {t('review.reviewGame')}
+              </Button>
             </div>
           )}
           
@@ -312,6 +458,9 @@ export function Controls() {
         </CardContent>
       </Card>
       
+      {/* Move List */}
+      <MoveList />
+      
       {/* Hints Panel */}
       <HintsPanel />
       
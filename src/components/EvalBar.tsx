@@ -0,0 +1,45 @@
+// FILE: src/components/EvalBar.tsx
+
+import React, { useMemo } from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+import { positionWinChance } from '../lib/review';
+import { GameState } from '../lib/types';
+
+interface EvalBarProps {
+  state: GameState;
+}
+
+/**
+ * A vertical bar split between the players by Light's winning chance,
+ * Light filling from the bottom
+ */
+export function EvalBar({ state }: EvalBarProps) {
+  const { t } = useTranslation();
+  const chance = useMemo(() => positionWinChance(state), [state]);
+  const rounded = Math.round(chance);
+
+  return (
+    <div
+      className="relative w-4 rounded-md overflow-hidden border border-border bg-gray-800 shrink-0"
+      role="meter"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={rounded}
+      aria-label={t('review.evalBar', { chance: rounded.toString() })}
+      title={t('review.evalBar', { chance: rounded.toString() })}
+    >
+      <div
+        className="absolute bottom-0 left-0 right-0 bg-gray-100 transition-all duration-500"
+        style={{ height: `${chance}%` }}
+      />
+      <div className="absolute left-0 right-0 top-1/2 border-t border-primary/60" />
+      <span
+        className={`absolute left-0 right-0 text-center text-[9px] font-bold ${
+          chance >= 50 ? 'bottom-1 text-gray-800' : 'top-1 text-gray-100'
+        }`}
+      >
+        {chance >= 50 ? rounded : 100 - rounded}
+      </span>
+    </div>
+  );
+}
@@ -3,7 +3,9 @@
 import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
+import { Button } from './ui/button';
 import { useAuthStore } from '../state/authStore';
+import { useGameStore } from '../state/gameStore';
 import { useTranslation } from '../hooks/useTranslation';
 import { GameResult } from '../lib/types';
 import { 
@@ -13,11 +15,15 @@ import {
   Circle,
   X,
   Target,
-  Calendar
+  Calendar,
+  ArrowUUpLeft,
+  ChartLineUp,
+  GraduationCap
 } from '@phosphor-icons/react';
 
 export function GameHistory() {
   const { stats } = useAuthStore();
+  const { reviewGame } = useGameStore();
   const { t } = useTranslation();
 
   if (!stats || stats.recentGames.length === 0) {
@@ -123,6 +129,20 @@ export function GameHistory() {
                       />
                       {t(`colors.${game.playerColor.toLowerCase()}`)}
                     </Badge>
+                    
+                    {game.usedUndo && (
+                      <Badge variant="outline" className="text-muted-foreground">
+                        <ArrowUUpLeft size={12} className="mr-1" />
+                        {t('undo.used')}
+                      </Badge>
+                    )}
+                    
+                    {game.coached && (
+                      <Badge variant="outline" className="text-muted-foreground">
+                        <GraduationCap size={12} className="mr-1" />
+                        {t('coach.used')}
+                      </Badge>
+                    )}
                   </div>
                   
                   <div className="text-sm text-muted-foreground mt-1">
@@ -145,6 +165,17 @@ export function GameHistory() {
                 <div className="text-xs">
                   {game.finalScore.light}-{game.finalScore.dark}
                 </div>
+                
+                {game.record && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => reviewGame(game.record)}
+                    title={t('review.reviewGame')}
+                  >
+                    <ChartLineUp size={16} />
+                  </Button>
+                )}
               </div>
             </div>
           ))}
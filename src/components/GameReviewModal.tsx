@@ -0,0 +1,157 @@
+// FILE: src/components/GameReviewModal.tsx
+
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from './ui/dialog';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartConfig } from './ui/chart';
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { useGameStore } from '../state/gameStore';
+import { useTranslation } from '../hooks/useTranslation';
+import { MoveClassification, MOVE_CLASSIFICATIONS } from '../lib/review';
+import { Player } from '../lib/types';
+import { ChartLineUp } from '@phosphor-icons/react';
+
+const CLASSIFICATION_COLORS: Record<MoveClassification, string> = {
+  best: 'bg-green-100 text-green-800 border-green-200',
+  good: 'bg-blue-100 text-blue-800 border-blue-200',
+  inaccuracy: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  mistake: 'bg-orange-100 text-orange-800 border-orange-200',
+  blunder: 'bg-red-100 text-red-800 border-red-200'
+};
+
+export function GameReviewModal() {
+  const { gameReview, closeReview, showReviewPosition } = useGameStore();
+  const { t } = useTranslation();
+
+  const review = gameReview?.review ?? null;
+
+  // One point per position: the start, then after each move
+  const chartData = review ? [
+    { index: 0, label: t('review.start'), chance: Math.round(review.initialWinChance) },
+    ...review.moves.map((move, index) => ({
+      index: index + 1,
+      label: `${index + 1}. ${move.notation}`,
+      chance: Math.round(move.winChance)
+    }))
+  ] : [];
+  const chartConfig: ChartConfig = {
+    chance: { label: t('review.chart'), color: 'var(--primary)' }
+  };
+
+  return (
+    // Hidden, not closed, while a position from the review is on the board
+    <Dialog open={gameReview !== null && gameReview.selected === null} onOpenChange={open => !open && closeReview()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ChartLineUp size={20} />
+            {t('review.title')}
+          </DialogTitle>
+          <DialogDescription>{t('review.description')}</DialogDescription>
+        </DialogHeader>
+
+        {gameReview && !review && (
+          <div className="space-y-2 py-4">
+            <div className="text-sm text-muted-foreground">{t('review.analyzing')}</div>
+            <Progress value={gameReview.progress * 100} className="h-2" />
+          </div>
+        )}
+
+        {review && (
+          <div className="space-y-4">
+            {/* Accuracy and move counts per player */}
+            <div className="grid grid-cols-2 gap-3">
+              {(['Light', 'Dark'] as Player[]).map(player => (
+                <div key={player} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{t(`player.${player}`)}</span>
+                    <span className="text-lg font-bold">
+                      {review.accuracy[player] === null ? '–' : `${review.accuracy[player]!.toFixed(1)}%`}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">{t('review.accuracy')}</div>
+                  <div className="space-y-1">
+                    {MOVE_CLASSIFICATIONS.map(label => (
+                      <div key={label} className="flex items-center justify-between text-sm">
+                        <span>{t(`review.${label}`)}</span>
+                        <span className="font-mono">{review.counts[player][label]}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Light's winning chance over the game; a click shows that position */}
+            <div className="space-y-1">
+              <div className="text-sm font-medium">{t('review.chart')}</div>
+              <div className="text-xs text-muted-foreground">{t('review.chartDescription')}</div>
+              <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full" dir="ltr">
+                <AreaChart
+                  data={chartData}
+                  margin={{ top: 8, right: 8, bottom: 0, left: 0 }}
+                  onClick={event => {
+                    if (event?.activeTooltipIndex !== undefined) {
+                      showReviewPosition(event.activeTooltipIndex);
+                    }
+                  }}
+                  className="cursor-pointer"
+                >
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="index" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis domain={[0, 100]} ticks={[0, 50, 100]} width={28} tickLine={false} axisLine={false} />
+                  <ReferenceLine y={50} strokeDasharray="3 3" />
+                  <ChartTooltip
+                    content={<ChartTooltipContent labelFormatter={(_, payload) => payload[0]?.payload.label} />}
+                  />
+                  <Area
+                    dataKey="chance"
+                    type="monotone"
+                    stroke="var(--color-chance)"
+                    fill="var(--color-chance)"
+                    fillOpacity={0.2}
+                    activeDot={{ r: 5 }}
+                  />
+                </AreaChart>
+              </ChartContainer>
+            </div>
+
+            {/* Every turn with its label and the engine's choice */}
+            <div className="border rounded-lg divide-y">
+              {review.moves.length === 0 && (
+                <div className="p-3 text-sm text-muted-foreground text-center">{t('review.noMoves')}</div>
+              )}
+              {review.moves.map((move, index) => (
+                <button
+                  key={index}
+                  type="button"
+                  onClick={() => showReviewPosition(index + 1)}
+                  className="w-full flex items-center gap-3 px-3 py-2 text-sm text-start hover:bg-muted/50 transition-colors"
+                >
+                  <span className="w-8 text-muted-foreground text-right">{index + 1}.</span>
+                  <span className="w-6 text-xs text-muted-foreground">{move.player === 'Light' ? '○' : '●'}</span>
+                  <span className="font-mono flex-1" dir="ltr">{move.notation}</span>
+                  {move.classification !== 'best' && move.best && (
+                    <span className="text-xs text-muted-foreground" dir="ltr">
+                      {t('review.bestWas', { move: move.best })}
+                    </span>
+                  )}
+                  <Badge variant="outline" className={CLASSIFICATION_COLORS[move.classification]}>
+                    {t(`review.${move.classification}`)}
+                  </Badge>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,11 +10,40 @@ interface HintOverlayProps {
 }
 
 export const HintOverlay: React.FC<HintOverlayProps> = ({ cell }) => {
-  const { currentHint, topMoves, showHints, hoveredHintIndex } = useGameStore();
+  const { currentHint, topMoves, showHints, hoveredHintIndex, hintPreview, gameState } = useGameStore();
   const { t } = useTranslation();
 
   if (!showHints || !topMoves.length) return null;
 
+  // A step of a hint's line is hovered: show how the line leaves the board
+  if (hintPreview) {
+    const current = gameState.board[cell.r]?.[cell.c] ?? null;
+    const previewed = hintPreview.position.board[cell.r]?.[cell.c] ?? null;
+    const isStep = hintPreview.before.board[cell.r]?.[cell.c] !== previewed;
+    if (current === previewed && !isStep) return null;
+
+    return (
+      <div className={`
+        absolute inset-0 pointer-events-none rounded-sm flex items-center justify-center z-10
+        ${isStep ? 'ring-2 ring-blue-400' : ''}
+      `}>
+        {previewed !== null && previewed !== current && (
+          // A stone the line brings here
+          <div className={`
+            w-3/4 h-3/4 rounded-full border-2 opacity-70
+            ${previewed === 'Light' ? 'bg-gray-100 border-gray-400' : 'bg-gray-800 border-gray-900'}
+          `} />
+        )}
+        {previewed === null && current !== null && (
+          // A stone the line moves or captures away
+          <div className="absolute inset-0 rounded-sm bg-black/30 flex items-center justify-center">
+            <span className="text-white font-bold drop-shadow">✕</span>
+          </div>
+        )}
+      </div>
+    );
+  }
+
   // Check if this cell is part of any hint
   const getHintForCell = () => {
     // If hovering over a specific hint, only show that one
@@ -22,7 +51,8 @@ export const HintOverlay: React.FC<HintOverlayProps> = ({ cell }) => {
       const move = topMoves[hoveredHintIndex];
       if (!move) return null;
       
-      if (move.move.type === 'placement') {
+      // A placement or the end of a chain marks its first cell
+      if (move.move.type !== 'movement') {
         const targetCell = move.move.cells[0];
         if (targetCell && targetCell.r === cell.r && targetCell.c === cell.c) {
           return { rank: hoveredHintIndex + 1, move, isSource: false, isTarget: true };
@@ -42,7 +72,7 @@ export const HintOverlay: React.FC<HintOverlayProps> = ({ cell }) => {
     const bestMove = topMoves[0];
     if (!bestMove) return null;
     
-    if (bestMove.move.type === 'placement') {
+    if (bestMove.move.type !== 'movement') {
       const targetCell = bestMove.move.cells[0];
       if (targetCell && targetCell.r === cell.r && targetCell.c === cell.c) {
         return { rank: 1, move: bestMove, isSource: false, isTarget: true };
@@ -6,7 +6,8 @@ import { Button } from './ui/button';
 import { Lightbulb, X, Eye, EyeSlash } from '@phosphor-icons/react';
 import { useGameStore } from '../state/gameStore';
 import { useTranslation } from '../hooks/useTranslation';
-import { isAITurn } from '../lib/ai';
+import { isAITurn, aiMoveToAction, ScoredMove, MAX_HINT_LINES } from '../lib/ai';
+import { formatAction } from '../lib/notation';
 
 export const HintsPanel: React.FC = () => {
   const { 
@@ -16,11 +17,15 @@ export const HintsPanel: React.FC = () => {
     gameState, 
     settings,
     aiThinking,
+    hintsLoading,
     hoveredHintIndex,
+    hintPreview,
     toggleHints,
     getHint,
     clearHints,
-    setHoveredHintIndex
+    setHoveredHintIndex,
+    setHintPreview,
+    setHintLines
   } = useGameStore();
   
   const { t } = useTranslation();
@@ -28,19 +33,13 @@ export const HintsPanel: React.FC = () => {
   // Don't show hints during AI turn or when game is over
   const canShowHints = !aiThinking && !isAITurn(gameState, settings.players) && !gameState.winner;
 
-  const formatMoveDescription = (move: any, rank: number) => {
+  const formatMoveDescription = (move: ScoredMove, rank: number) => {
     const quality = rank === 1 ? t('hints.moveQuality.excellent') : 
                    rank === 2 ? t('hints.moveQuality.good') : 
                    t('hints.moveQuality.okay');
     
-    if (move.move.type === 'placement') {
-      const cell = move.move.cells[0];
-      return `${quality}: ${move.description} (${String.fromCharCode(65 + cell.c)}${cell.r + 1})`;
-    } else {
-      const from = move.move.from;
-      const to = move.move.to;
-      return `${quality}: ${move.description} (${String.fromCharCode(65 + from.c)}${from.r + 1} → ${String.fromCharCode(65 + to.c)}${to.r + 1})`;
-    }
+    const notation = formatAction(gameState, aiMoveToAction(gameState, move.move));
+    return `${quality}: ${move.description} (${notation})`;
   };
 
   if (!hintsEnabled) {
@@ -90,13 +89,13 @@ export const HintsPanel: React.FC = () => {
         <div className="flex gap-2">
           <Button
             onClick={getHint}
-            disabled={!canShowHints}
+            disabled={!canShowHints || hintsLoading}
             variant="default"
             size="sm"
             className="flex-1"
           >
-            <Lightbulb size={14} className="mr-2" />
-            {t('hints.getHint')}
+            <Lightbulb size={14} className={`mr-2 ${hintsLoading ? 'animate-pulse' : ''}`} />
+            {hintsLoading ? t('hints.thinking') : t('hints.getHint')}
           </Button>
           
           {showHints && (
@@ -110,6 +109,23 @@ export const HintsPanel: React.FC = () => {
           )}
         </div>
 
+        {/* Number of candidate moves to search lines for */}
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground flex-1">{t('hints.lines')}</span>
+          {Array.from({ length: MAX_HINT_LINES }, (_, index) => index + 1).map(count => (
+            <Button
+              key={count}
+              onClick={() => setHintLines(count)}
+              variant={settings.hintLines === count ? 'default' : 'outline'}
+              size="sm"
+              className="h-6 w-6 p-0 text-xs"
+              disabled={hintsLoading}
+            >
+              {count}
+            </Button>
+          ))}
+        </div>
+
         {/* Hints display */}
         {showHints && topMoves.length > 0 && (
           <div className="space-y-2">
@@ -122,7 +138,7 @@ export const HintsPanel: React.FC = () => {
               </p>
             </div>
             <div className="space-y-1">
-              {topMoves.slice(0, 3).map((move, index) => (
+              {topMoves.map((move, index) => (
                 <div
                   key={index}
                   className={`
@@ -147,12 +163,32 @@ export const HintsPanel: React.FC = () => {
                     <span className="flex-1">
                       {formatMoveDescription(move, index + 1)}
                     </span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {t('hints.depth', { depth: move.depth.toString() })}
+                    </span>
                   </div>
+                  {/* The expected line; hovering a step shows the position it leads to */}
+                  {move.pv.length > 0 && (
+                    <div className="mt-1 ps-6 flex flex-wrap gap-x-1 font-mono" dir="ltr">
+                      {move.pv.map((token, step) => (
+                        <span
+                          key={step}
+                          className={`px-0.5 rounded ${
+                            hintPreview?.line === index && hintPreview.step === step ? 'bg-blue-200' : 'hover:bg-white/70'
+                          }`}
+                          onMouseEnter={() => setHintPreview(index, step)}
+                          onMouseLeave={() => setHintPreview(null)}
+                        >
+                          {token}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
             <p className="text-xs text-muted-foreground mt-2 italic">
-              {t('hints.hoverPreview') || 'Hover over moves above to preview them on the board'}
+              {t('hints.hoverPreview') || 'Hover over a move or a step of its line to preview it on the board'}
             </p>
           </div>
         )}
@@ -7,6 +7,7 @@ import { Button } from './ui/button';
 import { useGameStore } from '../state/gameStore';
 import { useTranslation } from '../hooks/useTranslation';
 import { analyzeAIMove, explainMove, getLastAIMoveAnalysis } from '../lib/ai';
+import { probeTablebase } from '../lib/tablebase';
 import { Brain, TrendUp, Shield, Target, ArrowRight, Eye, EyeSlash } from '@phosphor-icons/react';
 import { MoveAnalysis, MoveExplanation } from '../lib/types';
 
@@ -16,7 +17,8 @@ export function MoveAnalysisPanel() {
     settings,
     showMoveAnalysis,
     setShowMoveAnalysis,
-    lastAIAnalysis 
+    lastAIAnalysis,
+    lastSearch
   } = useGameStore();
   
   const { t } = useTranslation();
@@ -72,6 +74,7 @@ export function MoveAnalysisPanel() {
   }
   
   const explanation = explainMove(lastAIAnalysis);
+  const tablebase = probeTablebase(gameState);
   
   return (
     <Card>
@@ -82,6 +85,9 @@ export function MoveAnalysisPanel() {
             {t('analysis.title')}
           </CardTitle>
           <div className="flex items-center gap-2">
+            <Badge variant="outline" className="text-xs font-mono" dir="ltr">
+              {lastAIAnalysis.notation}
+            </Badge>
             <ConfidenceBadge confidence={lastAIAnalysis.confidence} />
             <Button
               variant="ghost"
@@ -114,6 +120,42 @@ export function MoveAnalysisPanel() {
           </p>
         </div>
         
+        {/* Engine Search */}
+        {lastSearch && lastSearch.depth > 0 && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-medium">{t('analysis.search')}</h4>
+              <span className="text-xs text-muted-foreground">
+                {t('analysis.searchStats', {
+                  depth: lastSearch.depth.toString(),
+                  nodes: lastSearch.nodes.toLocaleString()
+                })}
+              </span>
+            </div>
+            {lastSearch.pv.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {t('analysis.expectedLine')}:{' '}
+                <span className="font-mono text-foreground" dir="ltr">{lastSearch.pv.join(' ')}</span>
+              </p>
+            )}
+          </div>
+        )}
+        
+        {/* Endgame Tablebase */}
+        {tablebase && (
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">{t('analysis.tablebase')}</h4>
+            <span className="text-xs text-muted-foreground">
+              {tablebase.result === 'draw'
+                ? t('analysis.tablebaseDraw')
+                : t(tablebase.result === 'win' ? 'analysis.tablebaseWin' : 'analysis.tablebaseLoss', {
+                    player: t(`player.${gameState.current}`),
+                    moves: tablebase.moves.toString()
+                  })}
+            </span>
+          </div>
+        )}
+        
         {/* Tactical Factors */}
         <div>
           <h4 className="text-sm font-medium mb-2">{t('analysis.factors')}</h4>
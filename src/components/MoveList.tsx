@@ -0,0 +1,47 @@
+// FILE: src/components/MoveList.tsx
+
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { useGameStore } from '../state/gameStore';
+import { useTranslation } from '../hooks/useTranslation';
+import { formatMoveList } from '../lib/notation';
+import { startingPosition } from '../lib/position';
+import { ListNumbers } from '@phosphor-icons/react';
+
+export function MoveList() {
+  const { gameState } = useGameStore();
+  const { t } = useTranslation();
+
+  const moves = useMemo(() => {
+    try {
+      return formatMoveList(startingPosition(gameState), gameState.actionHistory);
+    } catch {
+      // Saves from before action tracking cannot be replayed
+      return [];
+    }
+  }, [gameState]);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <ListNumbers size={16} />
+          {t('moveList.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {moves.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('moveList.empty')}</p>
+        ) : (
+          <ol className="max-h-40 overflow-y-auto flex flex-wrap gap-x-3 gap-y-1 font-mono text-xs" dir="ltr">
+            {moves.map((move, index) => (
+              <li key={index} className={index === moves.length - 1 ? 'font-bold text-primary' : ''}>
+                <span className="text-muted-foreground">{index + 1}.</span> {move}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
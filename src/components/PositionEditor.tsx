@@ -0,0 +1,137 @@
+// FILE: src/components/PositionEditor.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { useGameStore } from '../state/gameStore';
+import { useTranslation } from '../hooks/useTranslation';
+import { formatPosition, validatePosition } from '../lib/position';
+import { PencilSimple, Robot, Users, X, Eraser, CheckCircle, WarningCircle } from '@phosphor-icons/react';
+
+export function PositionEditor() {
+  const {
+    editorState,
+    closeEditor,
+    updateEditor,
+    clearEditor,
+    loadPosition,
+    playFromEditor
+  } = useGameStore();
+
+  const { t } = useTranslation();
+  const position = editorState ? formatPosition(editorState) : '';
+  const [positionText, setPositionText] = useState(position);
+
+  // Follow edits made on the board
+  useEffect(() => {
+    setPositionText(position);
+  }, [position]);
+
+  if (!editorState) return null;
+
+  let validationError: string | null = null;
+  try {
+    validatePosition(editorState);
+  } catch (error) {
+    validationError = (error as Error).message;
+  }
+
+  return (
+    <Card className="border-primary/40">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm flex items-center gap-2">
+            <PencilSimple size={16} />
+            {t('editor.title')}
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={closeEditor} aria-label={t('editor.cancel')}>
+            <X size={16} />
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">{t('editor.instructions')}</p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-2 text-sm">
+          <div className="flex items-center gap-1">
+            <span className="text-muted-foreground">{t('editor.sideToMove')}:</span>
+            {(['Light', 'Dark'] as const).map(player => (
+              <Button
+                key={player}
+                variant={editorState.current === player ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => updateEditor({ current: player })}
+              >
+                {t(`player.${player}`)}
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="text-muted-foreground">{t('editor.phase')}:</span>
+            {(['placement', 'movement'] as const).map(phase => (
+              <Button
+                key={phase}
+                variant={editorState.phase === phase || (phase === 'movement' && editorState.phase === 'chain') ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => updateEditor({ phase })}
+              >
+                {t(`phase.${phase}`)}
+              </Button>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={clearEditor}>
+            <Eraser size={16} className="mr-2" />
+            {t('editor.clear')}
+          </Button>
+        </div>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            loadPosition(positionText);
+          }}
+        >
+          <Input
+            value={positionText}
+            onChange={(event) => setPositionText(event.target.value)}
+            className="font-mono text-xs"
+            dir="ltr"
+            aria-label={t('editor.position')}
+            spellCheck={false}
+          />
+          <Button type="submit" variant="outline" size="sm" disabled={positionText === position}>
+            {t('editor.load')}
+          </Button>
+        </form>
+
+        <div className={`flex items-start gap-2 text-xs ${validationError ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {validationError ? <WarningCircle size={14} className="mt-0.5 flex-shrink-0" /> : <CheckCircle size={14} className="mt-0.5 flex-shrink-0" />}
+          <span>{validationError ?? t('editor.valid')}</span>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            className="flex-1"
+            disabled={validationError !== null}
+            onClick={() => playFromEditor('ai')}
+          >
+            <Robot size={16} className="mr-2" />
+            {t('editor.playAI')}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="flex-1"
+            disabled={validationError !== null}
+            onClick={() => playFromEditor('human')}
+          >
+            <Users size={16} className="mr-2" />
+            {t('editor.playHuman')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
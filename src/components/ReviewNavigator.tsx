@@ -0,0 +1,68 @@
+// FILE: src/components/ReviewNavigator.tsx
+
+import React from 'react';
+import { Card, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { useGameStore } from '../state/gameStore';
+import { useTranslation } from '../hooks/useTranslation';
+import { CaretLeft, CaretRight, ChartLineUp, X } from '@phosphor-icons/react';
+
+/**
+ * Steps through a reviewed game on the board, shown in place of the game
+ * while a position from the review chart is selected
+ */
+export function ReviewNavigator() {
+  const { gameReview, showReviewPosition, closeReview } = useGameStore();
+  const { t } = useTranslation();
+
+  if (!gameReview?.review || gameReview.selected === null) return null;
+
+  const { moves } = gameReview.review;
+  const selected = gameReview.selected;
+  const move = selected > 0 ? moves[selected - 1] : null;
+
+  return (
+    <Card className="border-primary/40">
+      <CardContent className="py-3 flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => showReviewPosition(selected - 1)}
+          disabled={selected === 0}
+          aria-label={t('review.previous')}
+        >
+          <CaretLeft size={16} />
+        </Button>
+
+        <div className="flex-1 flex items-center justify-center gap-2 text-sm">
+          {move ? (
+            <>
+              <span>{t('review.position', { move: selected.toString(), total: moves.length.toString() })}</span>
+              <span className="font-mono" dir="ltr">{move.notation}</span>
+              <Badge variant="outline">{t(`review.${move.classification}`)}</Badge>
+            </>
+          ) : (
+            <span>{t('review.start')}</span>
+          )}
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => showReviewPosition(selected + 1)}
+          disabled={selected === moves.length}
+          aria-label={t('review.next')}
+        >
+          <CaretRight size={16} />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => showReviewPosition(null)} aria-label={t('review.backToReview')}>
+          <ChartLineUp size={16} />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={closeReview} aria-label={t('review.close')}>
+          <X size={16} />
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -17,8 +17,9 @@ import { Tooltip, TooltipTrigger, TooltipContent } from './ui/tooltip';
 import { useGameStore } from '../state/gameStore';
 import { useTranslation } from '../hooks/useTranslation';
 import { LanguageSwitcher } from './LanguageSwitcher';
-import { X, Robot, SpeakerHigh, SpeakerX, Info } from '@phosphor-icons/react';
-import { AIDifficulty } from '../lib/types';
+import { X, Robot, SpeakerHigh, SpeakerX, Info, GridNine, ArrowUUpLeft, Timer, Cpu } from '@phosphor-icons/react';
+import { AIDifficulty, AIEngine, Player, PlayerConfig, BoardSize, UndoPolicy, TimeControlPreset } from '../lib/types';
+import { playerDifficulty } from '../lib/ai';
 
 export function SettingsModal() {
   const { 
@@ -26,12 +27,20 @@ export function SettingsModal() {
     setShowSettings, 
     settings, 
     toggleVariant,
-    setAIDifficulty,
+    setAIEngine,
+    setPlayerConfig,
+    setBoardSize,
     toggleHints,
     setSoundEnabled,
     setSoundVolume,
     setCapturePreviewsEnabled,
-    setMoveAnalysisEnabled
+    setEvalBarEnabled,
+    setThreatOverlayEnabled,
+    setCoachEnabled,
+    setMoveAnalysisEnabled,
+    setUndoPolicy,
+    setUndoLimit,
+    setTimeControl
   } = useGameStore();
   
   const { t } = useTranslation();
@@ -136,6 +145,111 @@ export function SettingsModal() {
             />
           </div>
           
+          {/* Evaluation Bar */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Label 
+                htmlFor="evalBar"
+                className="text-sm leading-relaxed"
+              >
+                {t('ui.evalBarEnabled')}
+              </Label>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button 
+                    variant="ghost" 
+                    size="sm" 
+                    className="h-5 w-5 p-0 text-muted-foreground hover:text-foreground"
+                  >
+                    <Info size={12} />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent 
+                  side="top" 
+                  className="max-w-xs text-center"
+                  sideOffset={5}
+                >
+                  {t('ui.evalBarTooltip')}
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <Switch
+              id="evalBar"
+              checked={settings.evalBarEnabled}
+              onCheckedChange={setEvalBarEnabled}
+            />
+          </div>
+          
+          {/* Threat Overlay */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Label 
+                htmlFor="threatOverlay"
+                className="text-sm leading-relaxed"
+              >
+                {t('ui.threatOverlayEnabled')}
+              </Label>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button 
+                    variant="ghost" 
+                    size="sm" 
+                    className="h-5 w-5 p-0 text-muted-foreground hover:text-foreground"
+                  >
+                    <Info size={12} />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent 
+                  side="top" 
+                  className="max-w-xs text-center"
+                  sideOffset={5}
+                >
+                  {t('ui.threatOverlayTooltip')}
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <Switch
+              id="threatOverlay"
+              checked={settings.threatOverlayEnabled}
+              onCheckedChange={setThreatOverlayEnabled}
+            />
+          </div>
+          
+          {/* Coach Mode */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Label 
+                htmlFor="coach"
+                className="text-sm leading-relaxed"
+              >
+                {t('ui.coachEnabled')}
+              </Label>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button 
+                    variant="ghost" 
+                    size="sm" 
+                    className="h-5 w-5 p-0 text-muted-foreground hover:text-foreground"
+                  >
+                    <Info size={12} />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent 
+                  side="top" 
+                  className="max-w-xs text-center"
+                  sideOffset={5}
+                >
+                  {t('ui.coachTooltip')}
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <Switch
+              id="coach"
+              checked={settings.coachEnabled}
+              onCheckedChange={setCoachEnabled}
+            />
+          </div>
+          
           {/* Sound Settings */}
           <div className="space-y-4">
             <h3 className="font-medium flex items-center gap-2">
@@ -176,42 +290,156 @@ export function SettingsModal() {
             </div>
           </div>
           
-          {/* AI Difficulty */}
+          {/* Players */}
           <div className="space-y-3">
             <Label className="text-sm font-medium flex items-center gap-2">
               <Robot size={16} className="text-primary" />
-              {t('difficulty')}
+              {t('players.title')}
+            </Label>
+            {(['Light', 'Dark'] as Player[]).map(player => (
+              <div key={player} className="space-y-2">
+                <p className="text-xs text-muted-foreground">{t(`colors.${player.toLowerCase()}`)}</p>
+                <RadioGroup
+                  value={settings.players[player].type}
+                  onValueChange={(value: PlayerConfig['type']) => setPlayerConfig(player, { type: value })}
+                  className="flex gap-4"
+                >
+                  {(['human', 'ai'] as PlayerConfig['type'][]).map(type => (
+                    <div key={type} className="flex items-center space-x-2">
+                      <RadioGroupItem value={type} id={`player-${player}-${type}`} />
+                      <Label htmlFor={`player-${player}-${type}`} className="text-sm">
+                        {t(`players.${type}`)}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+                
+                {settings.players[player].type === 'ai' && (
+                  <div className="space-y-2">
+                    <RadioGroup
+                      value={playerDifficulty(settings, player)}
+                      onValueChange={(value: AIDifficulty) => setPlayerConfig(player, { difficulty: value })}
+                      className="flex flex-wrap gap-x-4 gap-y-2"
+                    >
+                      {(['beginner', 'easy', 'medium', 'hard'] as AIDifficulty[]).map(difficulty => (
+                        <div key={difficulty} className="flex items-center space-x-2">
+                          <RadioGroupItem value={difficulty} id={`diff-${player}-${difficulty}`} />
+                          <Label htmlFor={`diff-${player}-${difficulty}`} className="text-sm">
+                            {t(`aiDifficulty.${difficulty}`)}
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                    <RadioGroup
+                      value={settings.players[player].engine ?? 'minimax'}
+                      onValueChange={(value: AIEngine) => setAIEngine(player, value)}
+                      className="flex gap-4"
+                    >
+                      {(['minimax', 'mcts'] as AIEngine[]).map(engine => (
+                        <div key={engine} className="flex items-center space-x-2">
+                          <RadioGroupItem value={engine} id={`engine-${player}-${engine}`} />
+                          <Label htmlFor={`engine-${player}-${engine}`} className="text-sm">
+                            {t(`engine.${engine}`)}
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </div>
+                )}
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              {t('players.description')}
+            </p>
+            <p className="text-xs text-muted-foreground flex gap-2">
+              <Cpu size={14} className="text-primary flex-shrink-0 mt-0.5" />
+              {t('engine.description')}
+            </p>
+          </div>
+          
+          {/* Undo Policy */}
+          <div className="space-y-3">
+            <Label className="text-sm font-medium flex items-center gap-2">
+              <ArrowUUpLeft size={16} className="text-primary" />
+              {t('undo.title')}
             </Label>
             <RadioGroup
-              value={settings.aiDifficulty}
-              onValueChange={(value: AIDifficulty) => setAIDifficulty(value)}
+              value={settings.undoPolicy}
+              onValueChange={(value: UndoPolicy) => setUndoPolicy(value)}
               className="space-y-2"
             >
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="beginner" id="diff-beginner" />
-                <Label htmlFor="diff-beginner" className="text-sm">
-                  {t('aiDifficulty.beginner')}
-                </Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="easy" id="diff-easy" />
-                <Label htmlFor="diff-easy" className="text-sm">
-                  {t('aiDifficulty.easy')}
-                </Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="medium" id="diff-medium" />
-                <Label htmlFor="diff-medium" className="text-sm">
-                  {t('aiDifficulty.medium')}
-                </Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="hard" id="diff-hard" />
-                <Label htmlFor="diff-hard" className="text-sm">
-                  {t('aiDifficulty.hard')}
+              {(['unlimited', 'limited', 'disabled'] as UndoPolicy[]).map(policy => (
+                <div key={policy} className="flex items-center space-x-2">
+                  <RadioGroupItem value={policy} id={`undo-${policy}`} />
+                  <Label htmlFor={`undo-${policy}`} className="text-sm">
+                    {t(`undo.${policy}`)}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+            {settings.undoPolicy === 'limited' && (
+              <div className="space-y-2">
+                <Label className="text-sm">
+                  {t('undo.limit', { count: settings.undoLimit.toString() })}
                 </Label>
+                <Slider
+                  value={[settings.undoLimit]}
+                  onValueChange={(value) => setUndoLimit(value[0])}
+                  max={10}
+                  min={1}
+                  step={1}
+                  className="w-full"
+                />
               </div>
+            )}
+          </div>
+          
+          {/* Time Control */}
+          <div className="space-y-3">
+            <Label className="text-sm font-medium flex items-center gap-2">
+              <Timer size={16} className="text-primary" />
+              {t('clock.title')}
+            </Label>
+            <RadioGroup
+              value={settings.timeControl}
+              onValueChange={(value: TimeControlPreset) => setTimeControl(value)}
+              className="space-y-2"
+            >
+              {(['off', 'blitz', 'rapid', 'classical', 'bronstein'] as TimeControlPreset[]).map(preset => (
+                <div key={preset} className="flex items-center space-x-2">
+                  <RadioGroupItem value={preset} id={`clock-${preset}`} />
+                  <Label htmlFor={`clock-${preset}`} className="text-sm">
+                    {t(`clock.${preset}`)}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+            <p className="text-xs text-muted-foreground">{t('clock.nextGame')}</p>
+          </div>
+          
+          {/* Board Size */}
+          <div className="space-y-3">
+            <Label className="text-sm font-medium flex items-center gap-2">
+              <GridNine size={16} className="text-primary" />
+              {t('boardSize.title')}
+            </Label>
+            <RadioGroup
+              value={settings.boardSize.toString()}
+              onValueChange={(value) => setBoardSize(Number(value) as BoardSize)}
+              className="space-y-2"
+            >
+              {([5, 7, 9] as BoardSize[]).map(size => (
+                <div key={size} className="flex items-center space-x-2">
+                  <RadioGroupItem value={size.toString()} id={`size-${size}`} />
+                  <Label htmlFor={`size-${size}`} className="text-sm">
+                    {t(`boardSize.${size}`)}
+                  </Label>
+                </div>
+              ))}
             </RadioGroup>
+            <p className="text-xs text-muted-foreground">
+              {t('boardSize.description')}
+            </p>
           </div>
           
           {/* Variant Rules */}
@@ -0,0 +1,80 @@
+// FILE: src/components/SpectatorControls.tsx
+
+import React from 'react';
+import { Card, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { useGameStore } from '../state/gameStore';
+import { useTranslation } from '../hooks/useTranslation';
+import { isSpectating } from '../lib/ai';
+import { Eye, Play, Pause, SkipForward } from '@phosphor-icons/react';
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+export function SpectatorControls() {
+  const {
+    gameState,
+    settings,
+    aiThinking,
+    spectatorPaused,
+    spectatorSpeed,
+    setSpectatorPaused,
+    stepSpectator,
+    setSpectatorSpeed
+  } = useGameStore();
+  const { t } = useTranslation();
+
+  if (!isSpectating(settings.players)) return null;
+
+  const over = gameState.winner !== undefined;
+
+  return (
+    <Card>
+      <CardContent className="pt-4 space-y-3">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Eye size={16} className="text-primary" />
+          {t('spectator.title')}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            onClick={() => setSpectatorPaused(!spectatorPaused)}
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            disabled={over}
+          >
+            {spectatorPaused ? <Play size={16} className="mr-2" /> : <Pause size={16} className="mr-2" />}
+            {spectatorPaused ? t('spectator.play') : t('spectator.pause')}
+          </Button>
+          <Button
+            onClick={stepSpectator}
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            disabled={over || !spectatorPaused || aiThinking}
+          >
+            <SkipForward size={16} className="mr-2" />
+            {t('spectator.step')}
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">{t('spectator.speed')}</span>
+          <div className="flex gap-1 flex-1" dir="ltr">
+            {SPEEDS.map(speed => (
+              <Button
+                key={speed}
+                onClick={() => setSpectatorSpeed(speed)}
+                variant={spectatorSpeed === speed ? 'default' : 'outline'}
+                size="sm"
+                className="flex-1 px-0"
+              >
+                {speed}×
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
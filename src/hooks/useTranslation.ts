@@ -16,14 +16,28 @@ export function useTranslation() {
   const t = useMemo(() => {
     const currentTranslations = translations[settings.language];
     
-    return (key: string, params?: Record<string, string>) => {
-      const keys = key.split('.');
+    const pluralRules = new Intl.PluralRules(settings.language);
+    
+    const lookup = (key: string) => {
       let value: any = currentTranslations;
       
-      for (const k of keys) {
+      for (const k of key.split('.')) {
         value = value?.[k];
       }
       
+      return value;
+    };
+    
+    return (key: string, params?: Record<string, string>) => {
+      let value = lookup(key);
+      
+      // A count picks the plural form (key_one, key_two, key_few...) that
+      // the language uses for it, falling back to key_other
+      if (params?.count !== undefined && typeof value !== 'string') {
+        const form = pluralRules.select(Number(params.count));
+        value = lookup(`${key}_${form}`) ?? lookup(`${key}_other`);
+      }
+      
       if (typeof value !== 'string') {
         return key; // Return key if translation not found
       }
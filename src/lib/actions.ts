@@ -0,0 +1,200 @@
+// FILE: src/lib/actions.ts
+
+import { GameState, GameAction, Cell } from './types';
+import {
+  placementsFor,
+  movesFor,
+  applyPlacement,
+  applyMove,
+  applyChainStep,
+  endChain,
+  passTurn,
+  hasAnyLegalMove,
+  invokeBlockadeIfAny,
+  offerStalemate,
+  rejectStalemate,
+  resignGame,
+  flagTimeout
+} from './rules';
+import { boardSymmetries, canonicalKey } from './symmetry';
+
+/**
+ * Apply any game action to a state. This is the single entry point the store,
+ * AI, persistence and tests use to advance a game; it validates the action
+ * against the current phase, delegates to the rules engine and appends the
+ * action to `actionHistory` so the game can be replayed.
+ */
+export function applyAction(state: GameState, action: GameAction): GameState {
+  if (state.winner !== undefined) {
+    throw new Error('Game is already over');
+  }
+
+  let newState: GameState;
+
+  switch (action.type) {
+    case 'place':
+      if (action.cells.length < 1 || action.cells.length > 2) {
+        throw new Error('Must place one or two stones');
+      }
+      newState = applyPlacement(state, action.cells[0], action.cells[1]);
+      break;
+
+    case 'move':
+      if (state.phase !== 'movement') {
+        throw new Error(state.phase === 'chain' ? 'Must continue or end the chain capture' : 'Still in placement phase');
+      }
+      newState = applyMove(state, action.from, action.to);
+      break;
+
+    case 'chainStep':
+      newState = applyChainStep(state, action.to);
+      break;
+
+    case 'endChain':
+      newState = endChain(state);
+      break;
+
+    case 'pass':
+      newState = passTurn(state);
+      break;
+
+    case 'removeBlockade':
+      if (!state.variant.blockadeOneRemoval) {
+        throw new Error('Blockade removal is disabled');
+      }
+      if (state.phase !== 'movement' || hasAnyLegalMove(state, state.current)) {
+        throw new Error('No blockade to resolve');
+      }
+      newState = invokeBlockadeIfAny(state, action.cell);
+      break;
+
+    case 'offerStalemate':
+      newState = offerStalemate(state);
+      break;
+
+    case 'rejectStalemate':
+      newState = rejectStalemate(state, state.current);
+      break;
+
+    case 'resign':
+      newState = resignGame(state, action.player);
+      break;
+
+    case 'timeout':
+      newState = flagTimeout(state, action.player);
+      break;
+  }
+
+  return {
+    ...newState,
+    actionHistory: [...state.actionHistory, action]
+  };
+}
+
+/**
+ * Generate every legal board action for the side to move. Placements are
+ * produced one stone at a time. Stalemate offers and resignation are always
+ * available while the game is running and are not listed, nor are timeouts,
+ * which only the clock issues.
+ */
+export function legalActions(state: GameState): GameAction[] {
+  if (state.winner !== undefined) return [];
+
+  const actions: GameAction[] = [];
+
+  if (state.phase === 'placement') {
+    for (const cell of placementsFor(state, state.current)) {
+      actions.push({ type: 'place', cells: [cell] });
+    }
+    return actions;
+  }
+
+  if (state.phase === 'chain' && state.chainOrigin) {
+    for (const to of movesFor(state, state.chainOrigin)) {
+      actions.push({ type: 'chainStep', to });
+    }
+    actions.push({ type: 'endChain' });
+    return actions;
+  }
+
+  for (let r = 0; r < state.rules.size; r++) {
+    for (let c = 0; c < state.rules.size; c++) {
+      if (state.board[r][c] !== state.current) continue;
+      const from: Cell = { r, c };
+      for (const to of movesFor(state, from)) {
+        actions.push({ type: 'move', from, to });
+      }
+    }
+  }
+
+  if (actions.length > 0) return actions;
+
+  // Blocked: either remove one of our own stones or hand the turn over
+  if (state.variant.blockadeOneRemoval) {
+    for (let r = 0; r < state.rules.size; r++) {
+      for (let c = 0; c < state.rules.size; c++) {
+        if (state.board[r][c] === state.current) {
+          actions.push({ type: 'removeBlockade', cell: { r, c } });
+        }
+      }
+    }
+  } else {
+    actions.push({ type: 'pass' });
+  }
+
+  return actions;
+}
+
+/**
+ * Legal actions as the AI searches them: a placement turn's two stones form
+ * one action, so the first stone is never chosen without the second, and
+ * placements that mirror or rotate into one already listed are dropped.
+ * Outside the placement phase this is `legalActions`.
+ */
+export function turnActions(state: GameState): GameAction[] {
+  if (state.winner !== undefined || state.phase !== 'placement') {
+    return legalActions(state);
+  }
+
+  const cells = placementsFor(state, state.current);
+  const paired = state.placementCount === 0 && state.stonesToPlace[state.current] >= 2;
+  const groups: Cell[][] = [];
+  if (paired) {
+    for (let i = 0; i < cells.length; i++) {
+      for (let j = i + 1; j < cells.length; j++) {
+        groups.push([cells[i], cells[j]]);
+      }
+    }
+  } else {
+    groups.push(...cells.map(cell => [cell]));
+  }
+
+  const symmetries = boardSymmetries(state.board);
+  if (symmetries.length === 1) {
+    return groups.map(group => ({ type: 'place', cells: group }));
+  }
+
+  const seen = new Set<string>();
+  const actions: GameAction[] = [];
+  for (const group of groups) {
+    const key = canonicalKey(group, state.rules.size, symmetries);
+    if (!seen.has(key)) {
+      seen.add(key);
+      actions.push({ type: 'place', cells: group });
+    }
+  }
+  return actions;
+}
+
+/**
+ * Rebuild a game deterministically by applying actions in order
+ */
+export function replay(initial: GameState, actions: GameAction[]): GameState {
+  return actions.reduce((state, action, index) => {
+    try {
+      return applyAction(state, action);
+    } catch (error) {
+      throw new Error(`Illegal action ${index + 1} (${action.type}): ${(error as Error).message}`);
+    }
+  }, initial);
+}
@@ -1,31 +1,29 @@
 // FILE: src/lib/ai.ts
 
-import { GameState, Player, Cell, AIDifficulty, MoveAnalysis, AIMove, MoveExplanation } from './types';
+import { GameState, GameAction, GameSettings, Player, Cell, AIDifficulty, AIEngine, MoveAnalysis, AIMove, MoveExplanation } from './types';
 import { 
-  movesFor, 
-  placementsFor, 
-  applyMove, 
-  applyPlacement, 
   countStones, 
-  checkWin,
   isCenter,
   neighbors,
   resolveCaptures,
   hasAnyLegalMove
 } from './rules';
+import { EvaluationWeights, evaluatePosition, calculateMobility } from './evaluation';
+import { iterativeDeepening, quiescence, terminalScore, tablebaseScore, continuesTurn, SearchBudget } from './engine';
+import { monteCarloSearch, MCTSBudget } from './mcts';
+import { applyAction, legalActions, turnActions } from './actions';
+import { formatAction, formatMoveList } from './notation';
+import { Random, createRandom, deriveSeed } from './random';
+import tunedWeights from './weights.json';
 
-interface EvaluationWeights {
-  stoneCount: number;
-  centerControl: number;
-  mobility: number;
-  captures: number;
-  positioning: number;
-  safety: number;
-}
-
-const DIFFICULTY_CONFIGS: Record<AIDifficulty, { depth: number; weights: EvaluationWeights }> = {
+/**
+ * Each difficulty searches to a depth and time budget, whichever runs out
+ * first; the Monte Carlo engine gets a playout count and the same time
+ */
+const DIFFICULTY_CONFIGS: Record<AIDifficulty, { budget: SearchBudget; playouts: MCTSBudget; weights: EvaluationWeights }> = {
   beginner: {
-    depth: 1,
+    budget: { maxDepth: 1, timeMs: 100 },
+    playouts: { iterations: 200, timeMs: 100 },
     weights: {
       stoneCount: 10,
       centerControl: 1,
@@ -36,7 +34,8 @@ const DIFFICULTY_CONFIGS: Record<AIDifficulty, { depth: number; weights: Evaluat
     }
   },
   easy: {
-    depth: 2,
+    budget: { maxDepth: 2, timeMs: 250 },
+    playouts: { iterations: 800, timeMs: 250 },
     weights: {
       stoneCount: 10,
       centerControl: 2,
@@ -47,7 +46,8 @@ const DIFFICULTY_CONFIGS: Record<AIDifficulty, { depth: number; weights: Evaluat
     }
   },
   medium: {
-    depth: 3,
+    budget: { maxDepth: 4, timeMs: 750 },
+    playouts: { iterations: 4000, timeMs: 750 },
     weights: {
       stoneCount: 10,
       centerControl: 5,
@@ -58,7 +58,8 @@ const DIFFICULTY_CONFIGS: Record<AIDifficulty, { depth: number; weights: Evaluat
     }
   },
   hard: {
-    depth: 4,
+    budget: { maxDepth: 8, timeMs: 1500 },
+    playouts: { iterations: 12000, timeMs: 1500 },
     weights: {
       stoneCount: 10,
       centerControl: 8,
@@ -71,168 +72,114 @@ const DIFFICULTY_CONFIGS: Record<AIDifficulty, { depth: number; weights: Evaluat
 };
 
 /**
- * Evaluates a game position from the perspective of the given player
+ * Repeatable searches of seeded games count work instead of timing it, so
+ * replaying the seed searches exactly as far on any machine: alpha-beta stops
+ * after a number of nodes and Monte Carlo after a number of playouts, about
+ * what the time budget above reaches on a modest machine on the 7x7 board.
+ * Live play keeps the time budget, which bounds the wait on any board.
  */
-function evaluatePosition(state: GameState, player: Player, weights: EvaluationWeights): number {
-  const opponent = player === 'Light' ? 'Dark' : 'Light';
-  
-  // Check for immediate win/loss
-  const winResult = checkWin(state);
-  if (winResult?.winner === player) return 10000;
-  if (winResult?.winner === opponent) return -10000;
-  
-  let score = 0;
-  
-  // Stone count difference
-  const playerStones = countStones(state, player);
-  const opponentStones = countStones(state, opponent);
-  score += (playerStones - opponentStones) * weights.stoneCount;
-  
-  // Center control
-  if (state.board[3][3] === player) {
-    score += weights.centerControl;
-  } else if (state.board[3][3] === opponent) {
-    score -= weights.centerControl;
-  }
-  
-  // Mobility (number of legal moves)
-  const playerMobility = calculateMobility(state, player);
-  const opponentMobility = calculateMobility(state, opponent);
-  score += (playerMobility - opponentMobility) * weights.mobility;
-  
-  // Positioning (stones near center and edges)
-  score += evaluatePositioning(state, player, weights.positioning);
-  score -= evaluatePositioning(state, opponent, weights.positioning);
-  
-  // Safety (stones that can't be easily captured)
-  score += evaluateSafety(state, player, weights.safety);
-  score -= evaluateSafety(state, opponent, weights.safety);
-  
-  return score;
-}
+const SEEDED_BUDGETS: Record<AIDifficulty, { maxNodes: number; iterations: number }> = {
+  beginner: { maxNodes: 800, iterations: 200 },
+  easy: { maxNodes: 2000, iterations: 500 },
+  medium: { maxNodes: 6000, iterations: 1500 },
+  hard: { maxNodes: 12000, iterations: 3000 }
+};
 
 /**
- * Calculate the number of legal moves for a player
+ * Weights fitted by `npm run tune` (see `tuning.ts`), per difficulty. They
+ * replace the hand-set weights above for the terms they list.
  */
-function calculateMobility(state: GameState, player: Player): number {
-  if (state.phase === 'placement') {
-    return placementsFor(state, player).length;
-  }
-  
-  let moveCount = 0;
-  for (let r = 0; r < 7; r++) {
-    for (let c = 0; c < 7; c++) {
-      if (state.board[r][c] === player) {
-        moveCount += movesFor(state, { r, c }).length;
-      }
-    }
-  }
-  return moveCount;
+const TUNED_WEIGHTS: Partial<Record<AIDifficulty, Partial<EvaluationWeights>>> = tunedWeights;
+
+for (const difficulty of Object.keys(DIFFICULTY_CONFIGS) as AIDifficulty[]) {
+  Object.assign(DIFFICULTY_CONFIGS[difficulty].weights, TUNED_WEIGHTS[difficulty]);
 }
 
 /**
- * Evaluate positioning quality (center proximity, edge control)
+ * The evaluation weights a difficulty plays with
  */
-function evaluatePositioning(state: GameState, player: Player, weight: number): number {
-  let score = 0;
-  
-  for (let r = 0; r < 7; r++) {
-    for (let c = 0; c < 7; c++) {
-      if (state.board[r][c] === player) {
-        // Distance from center (closer is better)
-        const distanceFromCenter = Math.abs(r - 3) + Math.abs(c - 3);
-        score += Math.max(0, 6 - distanceFromCenter) * 0.5;
-        
-        // Edge control (corners and edges are valuable)
-        if ((r === 0 || r === 6) && (c === 0 || c === 6)) {
-          score += 3; // Corners
-        } else if (r === 0 || r === 6 || c === 0 || c === 6) {
-          score += 1; // Edges
-        }
-      }
-    }
-  }
-  
-  return score * weight;
+export function difficultyWeights(difficulty: AIDifficulty): EvaluationWeights {
+  return { ...DIFFICULTY_CONFIGS[difficulty].weights };
 }
 
+// Fixed depth of the minimax search that scores every move for hints
+const HINT_SEARCH_DEPTH = 4;
+
+// Search after each of the chosen hints for the line expected to follow it
+const HINT_LINE_BUDGET: SearchBudget = { maxDepth: 8, timeMs: 150 };
+
+// Turns shown in a hint's line, the hinted turn included
+const HINT_LINE_TURNS = 6;
+
+// Hint lines the panel can show at most
+export const MAX_HINT_LINES = 5;
+
 /**
- * Evaluate stone safety (how protected they are from capture)
+ * Static evaluations of positions already seen in the current search, keyed by
+ * the Zobrist hash the rules engine keeps on every state. Transpositions (the
+ * same stones placed in a different order, pieces shuffled back and forth)
+ * are evaluated only once per search.
  */
-function evaluateSafety(state: GameState, player: Player, weight: number): number {
-  let score = 0;
-  
-  for (let r = 0; r < 7; r++) {
-    for (let c = 0; c < 7; c++) {
-      if (state.board[r][c] === player) {
-        const cell = { r, c };
-        
-        // Center is completely safe
-        if (isCenter(cell)) {
-          score += 5;
-          continue;
-        }
-        
-        // Count friendly neighbors (more neighbors = safer)
-        const friendlyNeighbors = neighbors(cell)
-          .filter(neighbor => 
-            neighbor.r >= 0 && neighbor.r < 7 && 
-            neighbor.c >= 0 && neighbor.c < 7 &&
-            state.board[neighbor.r][neighbor.c] === player
-          ).length;
-        
-        score += friendlyNeighbors * 0.5;
-      }
-    }
-  }
+type EvaluationCache = Map<number, number>;
+
+function evaluateCached(state: GameState, player: Player, weights: EvaluationWeights, cache: EvaluationCache): number {
+  const cached = cache.get(state.hash);
+  if (cached !== undefined) return cached;
   
-  return score * weight;
+  const score = evaluatePosition(state, player, weights);
+  cache.set(state.hash, score);
+  return score;
 }
 
 /**
- * Minimax algorithm with alpha-beta pruning
+ * Minimax algorithm with alpha-beta pruning, scoring for `player`. The side
+ * to move decides whether a ply maximizes, so both stones of a placement turn
+ * and every step of a chain capture belong to the player making them. Chain
+ * steps cost no depth and ending the chain is one of the options; at depth 0
+ * the quiescence search settles pending captures before evaluating.
  */
 function minimax(
   state: GameState, 
   depth: number, 
-  maximizingPlayer: boolean, 
   player: Player,
   weights: EvaluationWeights,
   alpha: number = -Infinity,
-  beta: number = Infinity
+  beta: number = Infinity,
+  cache: EvaluationCache = new Map(),
+  ply: number = 1
 ): number {
-  if (depth === 0 || checkWin(state) !== undefined) {
-    return evaluatePosition(state, player, weights);
+  if (state.winner !== undefined) {
+    return terminalScore(state, player, ply);
+  }
+  const known = tablebaseScore(state, player, ply);
+  if (known !== null) return known;
+  if (depth === 0) {
+    const context = { player, evaluate: (quiet: GameState) => evaluateCached(quiet, player, weights, cache) };
+    return quiescence(state, context, alpha, beta, ply);
   }
   
-  const currentPlayer = state.current;
-  const moves = generateAllMoves(state);
+  const actions = legalActions(state);
   
-  if (moves.length === 0) {
-    return evaluatePosition(state, player, weights);
+  if (actions.length === 0) {
+    return evaluateCached(state, player, weights, cache);
   }
   
-  if (maximizingPlayer) {
-    let maxEval = -Infinity;
-    for (const move of moves) {
-      const newState = applyMoveToState(state, move);
-      const eval_ = minimax(newState, depth - 1, false, player, weights, alpha, beta);
-      maxEval = Math.max(maxEval, eval_);
+  const maximizing = state.current === player;
+  let best = maximizing ? -Infinity : Infinity;
+  for (const action of actions) {
+    const newState = applyAction(state, action);
+    const nextDepth = continuesTurn(state, newState) ? depth : depth - 1;
+    const eval_ = minimax(newState, nextDepth, player, weights, alpha, beta, cache, ply + 1);
+    if (maximizing) {
+      best = Math.max(best, eval_);
       alpha = Math.max(alpha, eval_);
-      if (beta <= alpha) break; // Alpha-beta pruning
-    }
-    return maxEval;
-  } else {
-    let minEval = Infinity;
-    for (const move of moves) {
-      const newState = applyMoveToState(state, move);
-      const eval_ = minimax(newState, depth - 1, true, player, weights, alpha, beta);
-      minEval = Math.min(minEval, eval_);
+    } else {
+      best = Math.min(best, eval_);
       beta = Math.min(beta, eval_);
-      if (beta <= alpha) break; // Alpha-beta pruning
     }
-    return minEval;
+    if (beta <= alpha) break; // Alpha-beta pruning
   }
+  return best;
 }
 
 /**
@@ -241,59 +188,10 @@ function minimax(
 function generateAllMoves(state: GameState): AIMove[] {
   const moves: AIMove[] = [];
 
-  if (state.phase === 'placement') {
-    const placements = placementsFor(state, state.current);
-
-    if (state.placementCount === 0) {
-      // First stone of turn - generate single placements
-      for (const cell of placements) {
-        moves.push({
-          type: 'placement',
-          cells: [cell]
-        });
-      }
-    } else {
-      // Second stone of turn - generate remaining placements
-      for (const cell of placements) {
-        moves.push({
-          type: 'placement',
-          cells: [cell]
-        });
-      }
-    }
-  } else if (state.phase === 'chain' && state.chainOrigin) {
-    // Chain capture phase - only generate moves from chainOrigin
-    const from = state.chainOrigin;
-    // Need to temporarily treat as movement phase for movesFor to work
-    const tempState = { ...state, phase: 'movement' as const };
-    const destinations = movesFor(tempState, from);
-
-    for (const to of destinations) {
-      moves.push({
-        type: 'movement',
-        cells: [from, to],
-        from,
-        to
-      });
-    }
-  } else {
-    // Movement phase
-    for (let r = 0; r < 7; r++) {
-      for (let c = 0; c < 7; c++) {
-        if (state.board[r][c] === state.current) {
-          const from = { r, c };
-          const destinations = movesFor(state, from);
-
-          for (const to of destinations) {
-            moves.push({
-              type: 'movement',
-              cells: [from, to],
-              from,
-              to
-            });
-          }
-        }
-      }
+  for (const action of legalActions(state)) {
+    const move = actionToAIMove(state, action);
+    if (move) {
+      moves.push(move);
     }
   }
 
@@ -301,92 +199,233 @@ function generateAllMoves(state: GameState): AIMove[] {
 }
 
 /**
- * Apply a move to create a new game state (for evaluation)
+ * Convert a placement, move, chain step or chain end action to the AI move
+ * shape used by hints and analysis. Other actions have no AI move equivalent.
  */
-function applyMoveToState(state: GameState, move: AIMove): GameState {
-  if (move.type === 'placement') {
-    // Simulate placement
-    const newState = JSON.parse(JSON.stringify(state)); // Deep copy
-    
-    const cell = move.cells[0];
-    newState.board[cell.r][cell.c] = state.current;
-    
-    if (state.placementCount === 0) {
-      newState.placementCount = 1;
-      newState.stonesToPlace = {
-        ...state.stonesToPlace,
-        [state.current]: state.stonesToPlace[state.current] - 1
-      };
-    } else {
-      newState.placementCount = 0;
-      newState.current = state.current === 'Light' ? 'Dark' : 'Light';
-      newState.stonesToPlace = {
-        ...state.stonesToPlace,
-        [state.current]: state.stonesToPlace[state.current] - 1
-      };
-      
-      if (newState.stonesToPlace.Light <= 0 && newState.stonesToPlace.Dark <= 0) {
-        newState.phase = 'movement';
-      }
-    }
-    
-    return newState;
-  } else {
-    // Apply move using existing game logic
-    return applyMove(state, move.from!, move.to!);
+export function actionToAIMove(state: GameState, action: GameAction): AIMove | null {
+  switch (action.type) {
+    case 'place':
+      return { type: 'placement', cells: action.cells };
+    case 'move':
+      return { type: 'movement', cells: [action.from, action.to], from: action.from, to: action.to };
+    case 'chainStep':
+      return state.chainOrigin
+        ? { type: 'movement', cells: [state.chainOrigin, action.to], from: state.chainOrigin, to: action.to }
+        : null;
+    case 'endChain':
+      return state.chainOrigin ? { type: 'endChain', cells: [state.chainOrigin] } : null;
+    default:
+      return null;
   }
 }
 
 /**
- * Get the best move for the AI player
+ * Convert an AI move back to the action that plays it in the given state
  */
-export function getBestAIMove(state: GameState, difficulty: AIDifficulty): AIMove | null {
-  const config = DIFFICULTY_CONFIGS[difficulty];
-  const moves = generateAllMoves(state);
-  
-  if (moves.length === 0) {
-    return null;
+export function aiMoveToAction(state: GameState, move: AIMove): GameAction {
+  if (move.type === 'placement') {
+    return { type: 'place', cells: move.cells };
   }
-  
-  // For beginner difficulty, make many random moves
-  if (difficulty === 'beginner' && Math.random() < 0.6) {
-    return moves[Math.floor(Math.random() * moves.length)];
+  if (move.type === 'endChain') {
+    return { type: 'endChain' };
   }
-  
-  // For easy difficulty, add some randomness
-  if (difficulty === 'easy' && Math.random() < 0.3) {
-    return moves[Math.floor(Math.random() * moves.length)];
+  if (state.phase === 'chain') {
+    return { type: 'chainStep', to: move.to! };
+  }
+  return { type: 'move', from: move.from!, to: move.to! };
+}
+
+/**
+ * Apply a move to create a new game state (for evaluation)
+ */
+function applyMoveToState(state: GameState, move: AIMove): GameState {
+  return applyAction(state, aiMoveToAction(state, move));
+}
+
+/**
+ * Progress of a search: root moves scored for hints, or finished iterations
+ * of the engine search
+ */
+export interface SearchProgress {
+  searched: number;
+  total: number;
+  bestMove: AIMove | null; // Best root move found so far
+  depth?: number; // Engine search depth reached
+  nodes?: number; // Engine nodes searched
+}
+
+/**
+ * A search that yields as it goes, so a caller such as the AI worker can
+ * report progress and stop between steps. Drain it with `runSearch` to get
+ * the result synchronously.
+ */
+export type Search<T> = Generator<SearchProgress, T, void>;
+
+/**
+ * Run a search to completion and return its result
+ */
+export function runSearch<T>(search: Search<T>): T {
+  let step = search.next();
+  while (!step.done) {
+    step = search.next();
   }
+  return step.value;
+}
+
+/**
+ * The move the AI chose and what the engine found on the way
+ */
+export interface AISearchResult {
+  action: GameAction | null; // Null when nothing can be played
+  move: AIMove | null; // The action as a placement or movement, null for ending a chain, blockade removals and passes
+  score: number; // Evaluation for alpha-beta, winning chance in percent for Monte Carlo
+  depth: number; // 0 when the move was picked at random
+  nodes: number;
+  pv: string[]; // Principal variation in move notation, one token per turn
+}
+
+/**
+ * Overrides for a single search, used to pit configurations against each
+ * other and to make searches repeatable
+ */
+export interface AISearchOptions {
+  weights?: EvaluationWeights; // Evaluation weights instead of the difficulty's own
+  random?: Random; // Random source for random moves and playouts; defaults to turnRandom(state)
+  timeMs?: number; // Time budget instead of the difficulty's own, repeatable searches included
+  maxDepth?: number; // Depth limit for alpha-beta instead of the difficulty's own
+  iterations?: number; // Playout limit for MCTS instead of the difficulty's own
+  repeatable?: boolean; // Stop a seeded game's search on the counts in SEEDED_BUDGETS instead of the clock
+}
+
+/**
+ * The AI's random source for the turn at `state`. Seeded games derive it from
+ * the seed and the ply, so replaying the game repeats every random choice;
+ * unseeded ones fall back to Math.random.
+ */
+export function turnRandom(state: GameState): Random {
+  if (state.seed === undefined) return Math.random;
+  return createRandom(deriveSeed(state.seed, state.actionHistory.length));
+}
+
+type DifficultyConfig = (typeof DIFFICULTY_CONFIGS)[AIDifficulty];
+
+/**
+ * Search for the AI's move with the difficulty's budget on the chosen
+ * engine, yielding as the search goes
+ */
+export function* searchAIMove(
+  state: GameState,
+  difficulty: AIDifficulty,
+  engine: AIEngine = 'minimax',
+  options: AISearchOptions = {}
+): Search<AISearchResult> {
+  const defaults = DIFFICULTY_CONFIGS[difficulty];
+  // An explicit time budget still wins over the seeded one
+  const seeded = options.repeatable && state.seed !== undefined && options.timeMs === undefined
+    ? SEEDED_BUDGETS[difficulty]
+    : null;
+  const config = {
+    budget: {
+      maxDepth: options.maxDepth ?? defaults.budget.maxDepth,
+      timeMs: options.timeMs ?? (seeded ? Infinity : defaults.budget.timeMs),
+      maxNodes: seeded?.maxNodes
+    },
+    playouts: {
+      iterations: options.iterations ?? seeded?.iterations ?? defaults.playouts.iterations,
+      timeMs: options.timeMs ?? (seeded ? Infinity : defaults.playouts.timeMs)
+    },
+    weights: options.weights ?? defaults.weights
+  };
+  const random = options.random ?? turnRandom(state);
+  // A placement turn's two stones are chosen together
+  const actions = turnActions(state);
   
-  let bestMove = moves[0];
-  let bestScore = -Infinity;
+  if (actions.length === 0) {
+    return { action: null, move: null, score: 0, depth: 0, nodes: 0, pv: [] };
+  }
   
-  for (const move of moves) {
-    const newState = applyMoveToState(state, move);
-    
-    // Evaluate immediate captures first
-    if (move.type === 'movement') {
-      const captures = resolveCaptures(newState, move.to!);
-      if (captures.captured.length > 0) {
-        bestScore += captures.captured.length * config.weights.captures;
-      }
-    }
-    
-    const score = minimax(
-      newState, 
-      config.depth - 1, 
-      false, 
-      state.current, 
-      config.weights
-    );
-    
-    if (score > bestScore) {
-      bestScore = score;
-      bestMove = move;
-    }
+  // Beginner and easy sometimes play a random move instead of searching
+  const randomChance = difficulty === 'beginner' ? 0.6 : difficulty === 'easy' ? 0.3 : 0;
+  if (random() < randomChance) {
+    const action = actions[Math.floor(random() * actions.length)];
+    return searchResult(state, action, 0, 0, 0, [action]);
   }
   
-  return bestMove;
+  return engine === 'mcts'
+    ? yield* searchMonteCarlo(state, config, random)
+    : yield* searchAlphaBeta(state, config);
+}
+
+function searchResult(state: GameState, action: GameAction | null, score: number, depth: number, nodes: number, pv: GameAction[]): AISearchResult {
+  return {
+    action,
+    move: action ? actionToAIMove(state, action) : null,
+    score,
+    depth,
+    nodes,
+    pv: formatMoveList(state, pv)
+  };
+}
+
+/**
+ * Iterative deepening alpha-beta, yielding after each finished depth
+ */
+function* searchAlphaBeta(state: GameState, config: DifficultyConfig): Search<AISearchResult> {
+  const engine = iterativeDeepening(state, { budget: config.budget, weights: config.weights });
+  let step = engine.next();
+  while (!step.done) {
+    const report = step.value;
+    yield {
+      searched: report.depth,
+      total: config.budget.maxDepth,
+      bestMove: report.best ? actionToAIMove(state, report.best) : null,
+      depth: report.depth,
+      nodes: report.nodes
+    };
+    step = engine.next();
+  }
+  
+  const report = step.value;
+  return searchResult(state, report.best, report.score, report.depth, report.nodes, report.pv);
+}
+
+/**
+ * Monte Carlo tree search, yielding every few hundred playouts. The score is
+ * the estimated winning chance in percent and the depth is the length of the
+ * most visited line.
+ */
+function* searchMonteCarlo(state: GameState, config: DifficultyConfig, random: () => number): Search<AISearchResult> {
+  const search = monteCarloSearch(state, { budget: config.playouts, weights: config.weights, random });
+  let step = search.next();
+  while (!step.done) {
+    const report = step.value;
+    yield {
+      searched: report.iterations,
+      total: config.playouts.iterations,
+      bestMove: report.best ? actionToAIMove(state, report.best) : null,
+      depth: report.pv.length,
+      nodes: report.iterations
+    };
+    step = search.next();
+  }
+  
+  const report = step.value;
+  return searchResult(state, report.best, Math.round(report.winRate * 100), report.pv.length, report.iterations, report.pv);
+}
+
+/**
+ * Search for the best move for the AI player
+ */
+export function* searchBestAIMove(state: GameState, difficulty: AIDifficulty, engine: AIEngine = 'minimax'): Search<AIMove | null> {
+  const result = yield* searchAIMove(state, difficulty, engine);
+  return result.move;
+}
+
+/**
+ * Get the best move for the AI player
+ */
+export function getBestAIMove(state: GameState, difficulty: AIDifficulty, engine: AIEngine = 'minimax'): AIMove | null {
+  return runSearch(searchBestAIMove(state, difficulty, engine));
 }
 
 /**
@@ -396,11 +435,25 @@ export function isAITurn(state: GameState, playerConfigs: { Light: { type: 'huma
   return playerConfigs[state.current].type === 'ai';
 }
 
+/**
+ * Check if the AI plays both sides, leaving the user to watch
+ */
+export function isSpectating(playerConfigs: { Light: { type: 'human' | 'ai' }; Dark: { type: 'human' | 'ai' } }): boolean {
+  return playerConfigs.Light.type === 'ai' && playerConfigs.Dark.type === 'ai';
+}
+
+/**
+ * The difficulty a player's AI plays at: its own, or the default difficulty
+ */
+export function playerDifficulty(settings: Pick<GameSettings, 'aiDifficulty' | 'players'>, player: Player): AIDifficulty {
+  return settings.players[player].difficulty ?? settings.aiDifficulty;
+}
+
 /**
  * Get the best move for hints - always use high difficulty for optimal analysis
  */
 export function getOptimalMove(state: GameState): AIMove | null {
-  const config = DIFFICULTY_CONFIGS.hard; // Always use highest difficulty for hints
+  const config = DIFFICULTY_CONFIGS.hard; // Always use the hard weights for hints
   const moves = generateAllMoves(state);
   
   if (moves.length === 0) {
@@ -409,6 +462,7 @@ export function getOptimalMove(state: GameState): AIMove | null {
   
   let bestMove = moves[0];
   let bestScore = -Infinity;
+  const cache: EvaluationCache = new Map();
   
   for (const move of moves) {
     const newState = applyMoveToState(state, move);
@@ -423,10 +477,12 @@ export function getOptimalMove(state: GameState): AIMove | null {
     
     const score = minimax(
       newState, 
-      config.depth - 1, 
-      false, 
+      HINT_SEARCH_DEPTH - 1, 
       state.current, 
-      config.weights
+      config.weights,
+      -Infinity,
+      Infinity,
+      cache
     );
     
     if (score > bestScore) {
@@ -439,9 +495,44 @@ export function getOptimalMove(state: GameState): AIMove | null {
 }
 
 /**
- * Get top 3 best moves for hints with scores
+ * A hint: a candidate move with its search score and a short description
+ */
+export interface ScoredMove {
+  move: AIMove;
+  score: number;
+  description: string;
+  pv: string[]; // The line expected to follow, one move list token per turn starting with this one
+  depth: number; // Plies searched for the line, the hinted move included
+}
+
+/**
+ * The principal variation after a hinted move, searched with the hard weights
+ */
+function* searchHintLine(state: GameState, move: AIMove): Generator<void, { pv: string[]; depth: number }, void> {
+  const action = aiMoveToAction(state, move);
+  const after = applyAction(state, action);
+  if (after.winner !== undefined) {
+    return { pv: formatMoveList(state, [action]), depth: 1 };
+  }
+
+  const search = iterativeDeepening(after, { budget: HINT_LINE_BUDGET, weights: DIFFICULTY_CONFIGS.hard.weights });
+  let step = search.next();
+  while (!step.done) {
+    yield;
+    step = search.next();
+  }
+  const report = step.value;
+  return {
+    pv: formatMoveList(state, [action, ...report.pv]).slice(0, HINT_LINE_TURNS),
+    depth: report.depth + 1
+  };
+}
+
+/**
+ * Score every move for hints, yielding after each one, then search the line
+ * after each of the best `count`
  */
-export function getTopMoves(state: GameState, count: number = 3): Array<{ move: AIMove; score: number; description: string }> {
+export function* searchTopMoves(state: GameState, count: number = 3): Search<ScoredMove[]> {
   const config = DIFFICULTY_CONFIGS.hard;
   const moves = generateAllMoves(state);
   
@@ -449,9 +540,14 @@ export function getTopMoves(state: GameState, count: number = 3): Array<{ move:
     return [];
   }
   
-  const scoredMoves = moves.map(move => {
+  const cache: EvaluationCache = new Map();
+  const scoredMoves: ScoredMove[] = [];
+  let best: ScoredMove | null = null;
+  const total = moves.length + Math.min(count, moves.length);
+  
+  for (const move of moves) {
     const newState = applyMoveToState(state, move);
-    let score = minimax(newState, config.depth - 1, false, state.current, config.weights);
+    let score = minimax(newState, HINT_SEARCH_DEPTH - 1, state.current, config.weights, -Infinity, Infinity, cache);
     
     let description = '';
     
@@ -463,7 +559,7 @@ export function getTopMoves(state: GameState, count: number = 3): Array<{ move:
         description = `Captures ${captures.captured.length} stone${captures.captured.length > 1 ? 's' : ''}`;
       } else {
         // Analyze positional benefits
-        if (isCenter(move.to!)) {
+        if (isCenter(move.to!, state.rules.size)) {
           description = 'Secure center position';
         } else {
           const mobility = calculateMobility(newState, state.current);
@@ -474,22 +570,51 @@ export function getTopMoves(state: GameState, count: number = 3): Array<{ move:
           }
         }
       }
+    } else if (move.type === 'endChain') {
+      description = 'Ends the chain capture';
     } else {
       // Placement description
-      if (move.cells[0] && Math.abs(move.cells[0].r - 3) + Math.abs(move.cells[0].c - 3) <= 2) {
+      const center = Math.floor(state.rules.size / 2);
+      if (move.cells[0] && Math.abs(move.cells[0].r - center) + Math.abs(move.cells[0].c - center) <= 2) {
         description = 'Near center position';
       } else {
         description = 'Strategic placement';
       }
     }
     
-    return { move, score, description };
-  });
+    const scored: ScoredMove = { move, score, description, pv: [], depth: HINT_SEARCH_DEPTH };
+    scoredMoves.push(scored);
+    if (!best || score > best.score) {
+      best = scored;
+    }
+    
+    yield { searched: scoredMoves.length, total, bestMove: best.move };
+  }
   
   // Sort by score descending and take top moves
-  return scoredMoves
+  const topMoves = scoredMoves
     .sort((a, b) => b.score - a.score)
     .slice(0, count);
+  
+  for (const [index, scored] of topMoves.entries()) {
+    const search = searchHintLine(state, scored.move);
+    let step = search.next();
+    while (!step.done) {
+      yield { searched: moves.length + index, total, bestMove: topMoves[0].move };
+      step = search.next();
+    }
+    scored.pv = step.value.pv;
+    scored.depth = step.value.depth;
+  }
+  
+  return topMoves;
+}
+
+/**
+ * Get the best moves for hints with scores and expected lines
+ */
+export function getTopMoves(state: GameState, count: number = 3): ScoredMove[] {
+  return runSearch(searchTopMoves(state, count));
 }
 
 /**
@@ -585,8 +710,8 @@ export function shouldAIOfferStalemate(state: GameState, difficulty: AIDifficult
     }
   }
   
-  // Check for repetitive position (simplified)
-  if (state.moveRepetition >= 4) {
+  // Offer once the current position has already occurred before
+  if (state.moveRepetition > 0) {
     return true;
   }
   
@@ -626,13 +751,14 @@ export function analyzeAIMove(
   }
   
   // Analyze center control
-  if (move.type === 'movement' && move.to && isCenter(move.to)) {
+  if (move.type === 'movement' && move.to && isCenter(move.to, state.rules.size)) {
     factors.centerControl = 1;
     reasoning.push("Secures the powerful center position");
   } else if (move.type === 'placement') {
     // Check proximity to center for placements
+    const center = Math.floor(state.rules.size / 2);
     const centerDistance = move.cells.map(cell => 
-      Math.abs(cell.r - 3) + Math.abs(cell.c - 3)
+      Math.abs(cell.r - center) + Math.abs(cell.c - center)
     ).reduce((min, dist) => Math.min(min, dist), Infinity);
     
     if (centerDistance <= 2) {
@@ -654,7 +780,7 @@ export function analyzeAIMove(
   
   // Analyze positioning
   if (move.type === 'movement' && move.from && move.to) {
-    const enemyNeighbors = neighbors(move.to).filter(cell => 
+    const enemyNeighbors = neighbors(move.to, state.rules.size).filter(cell => 
       state.board[cell.r]?.[cell.c] === (state.current === 'Light' ? 'Dark' : 'Light')
     );
     
@@ -664,7 +790,7 @@ export function analyzeAIMove(
     }
     
     // Check if creating formation
-    const friendlyNeighbors = neighbors(move.to).filter(cell => 
+    const friendlyNeighbors = neighbors(move.to, state.rules.size).filter(cell => 
       state.board[cell.r]?.[cell.c] === state.current
     );
     
@@ -676,13 +802,13 @@ export function analyzeAIMove(
   
   // Analyze safety
   if (move.type === 'movement' && move.to) {
-    const isToSafe = isCenter(move.to);
+    const isToSafe = isCenter(move.to, state.rules.size);
     if (isToSafe) {
       factors.safety = 1;
       reasoning.push("Moves to safety of the center square");
     } else {
       // Check if move puts piece at risk
-      const enemyNeighbors = neighbors(move.to).filter(cell => 
+      const enemyNeighbors = neighbors(move.to, state.rules.size).filter(cell => 
         state.board[cell.r]?.[cell.c] === (state.current === 'Light' ? 'Dark' : 'Light')
       );
       
@@ -730,6 +856,7 @@ export function analyzeAIMove(
   
   return {
     move,
+    notation: formatAction(state, aiMoveToAction(state, move)),
     score,
     reasoning,
     factors,
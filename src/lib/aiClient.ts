@@ -0,0 +1,203 @@
+// FILE: src/lib/aiClient.ts
+
+import { GameState, GameAction, AIDifficulty, AIEngine, AIMove, MoveAnalysis } from './types';
+import { SearchProgress, ScoredMove, AISearchResult } from './ai';
+import { GameReview } from './review';
+import { AIJob, AIJobRunner, AIRequest, AIResponse, AIResult } from './aiProtocol';
+
+/**
+ * Main-thread side of the AI worker protocol. Each call posts a request and
+ * returns a promise for its result; `cancelAll` abandons everything in
+ * flight. Where Web Workers are unavailable (tests, very old browsers) the
+ * same jobs run in this thread, and if the worker fails, the jobs it had in
+ * hand run again here.
+ */
+
+const CANCELLED_MESSAGE = 'AI search cancelled';
+
+/**
+ * True for the error a cancelled request rejects with
+ */
+export function isSearchCancelled(error: unknown): boolean {
+  return error instanceof Error && error.message === CANCELLED_MESSAGE;
+}
+
+interface PendingRequest {
+  job: AIJob; // Kept to run again if the worker fails
+  resolve: (result: AIResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: SearchProgress) => void;
+}
+
+// A job as the caller describes it; the client assigns the id
+type JobRequest = AIJob extends infer J ? (J extends AIJob ? Omit<J, 'id'> : never) : never;
+
+export class AIClient {
+  private worker: Worker | null = null;
+  private fallback: AIJobRunner | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+
+  /**
+   * Best move for the side to move at the given difficulty and engine, with
+   * the search's depth, node count and principal variation
+   */
+  async search(
+    state: GameState,
+    difficulty: AIDifficulty,
+    engine: AIEngine,
+    onProgress?: (progress: SearchProgress) => void
+  ): Promise<AISearchResult> {
+    const result = await this.request({ type: 'search', state, difficulty, engine }, onProgress);
+    if (result.type !== 'search') {
+      throw new Error('Unexpected AI response');
+    }
+    return result.search;
+  }
+
+  /**
+   * Best moves for hints, strongest first
+   */
+  async topMoves(state: GameState, count: number): Promise<ScoredMove[]> {
+    const result = await this.request({ type: 'topMoves', state, count });
+    return result.type === 'topMoves' ? result.moves : [];
+  }
+
+  /**
+   * Explain a move the AI is about to play from `state`
+   */
+  async analyze(state: GameState, move: AIMove, difficulty: AIDifficulty): Promise<MoveAnalysis> {
+    const result = await this.request({ type: 'analyze', state, move, difficulty });
+    if (result.type !== 'analyze') {
+      throw new Error('Unexpected AI response');
+    }
+    return result.analysis;
+  }
+
+  /**
+   * Review a finished game move by move. Progress counts the positions
+   * searched; aborting `signal` cancels just this request.
+   */
+  async review(
+    start: GameState,
+    actions: GameAction[],
+    onProgress?: (progress: SearchProgress) => void,
+    signal?: AbortSignal
+  ): Promise<GameReview> {
+    const result = await this.request({ type: 'review', start, actions }, onProgress, signal);
+    if (result.type !== 'review') {
+      throw new Error('Unexpected AI response');
+    }
+    return result.review;
+  }
+
+  /**
+   * Stop every request in flight; their promises reject as cancelled
+   */
+  cancelAll(): void {
+    for (const [id, request] of this.pending) {
+      this.send({ type: 'cancel', id });
+      request.reject(new Error(CANCELLED_MESSAGE));
+    }
+    this.pending.clear();
+  }
+
+  private request(
+    job: JobRequest,
+    onProgress?: (progress: SearchProgress) => void,
+    signal?: AbortSignal
+  ): Promise<AIResult> {
+    const id = this.nextId++;
+    const request = { ...job, id } as AIJob;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => this.cancel(id);
+      const settle = () => signal?.removeEventListener('abort', onAbort);
+      this.pending.set(id, {
+        job: request,
+        resolve: result => {
+          settle();
+          resolve(result);
+        },
+        reject: error => {
+          settle();
+          reject(error);
+        },
+        onProgress
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.send(request);
+    });
+  }
+
+  private cancel(id: number): void {
+    const request = this.pending.get(id);
+    if (!request) return;
+    this.pending.delete(id);
+    this.send({ type: 'cancel', id });
+    request.reject(new Error(CANCELLED_MESSAGE));
+  }
+
+  private send(request: AIRequest): void {
+    const worker = this.getWorker();
+    if (worker) {
+      worker.postMessage(request);
+    } else {
+      this.getFallback().handle(request);
+    }
+  }
+
+  private receive(response: AIResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) return; // Cancelled or already answered
+
+    switch (response.type) {
+      case 'progress':
+        request.onProgress?.(response.progress);
+        break;
+      case 'result':
+        this.pending.delete(response.id);
+        request.resolve(response.result);
+        break;
+      case 'error':
+        this.pending.delete(response.id);
+        request.reject(new Error(response.message));
+        break;
+    }
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || typeof Worker === 'undefined' || this.fallback) {
+      return this.worker;
+    }
+
+    try {
+      this.worker = new Worker(new URL('./aiWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<AIResponse>) => this.receive(event.data);
+      this.worker.onerror = (event) => {
+        // A worker that fails is replaced by the in-thread runner, which
+        // picks up the requests still waiting on it
+        console.warn('AI worker failed, searching on the main thread:', event.message);
+        this.worker?.terminate();
+        this.worker = null;
+        const fallback = this.getFallback();
+        for (const request of this.pending.values()) {
+          fallback.handle(request.job);
+        }
+      };
+    } catch (error) {
+      console.warn('Failed to start AI worker:', error);
+      this.getFallback();
+    }
+    return this.worker;
+  }
+
+  private getFallback(): AIJobRunner {
+    if (!this.fallback) {
+      this.fallback = new AIJobRunner(response => this.receive(response), () => Promise.resolve());
+    }
+    return this.fallback;
+  }
+}
+
+// Create singleton instance
+export const aiClient = new AIClient();
@@ -0,0 +1,111 @@
+// FILE: src/lib/aiProtocol.ts
+
+import { GameState, GameAction, AIDifficulty, AIEngine, AIMove, MoveAnalysis } from './types';
+import { searchAIMove, searchTopMoves, analyzeAIMove, Search, SearchProgress, ScoredMove, AISearchResult } from './ai';
+import { searchGameReview, GameReview } from './review';
+
+/**
+ * Messages between the UI and the AI worker.
+ *
+ * The UI sends a request with a fresh id; the worker answers with any number
+ * of `progress` messages followed by exactly one `result` or `error` carrying
+ * the same id. `cancel` stops a running request between search steps; a
+ * cancelled request sends nothing further.
+ */
+
+export type AIRequest =
+  | { type: 'search'; id: number; state: GameState; difficulty: AIDifficulty; engine: AIEngine }
+  | { type: 'topMoves'; id: number; state: GameState; count: number }
+  | { type: 'analyze'; id: number; state: GameState; move: AIMove; difficulty: AIDifficulty }
+  | { type: 'review'; id: number; start: GameState; actions: GameAction[] }
+  | { type: 'cancel'; id: number };
+
+export type AIResult =
+  | { type: 'search'; search: AISearchResult }
+  | { type: 'topMoves'; moves: ScoredMove[] }
+  | { type: 'analyze'; analysis: MoveAnalysis }
+  | { type: 'review'; review: GameReview };
+
+export type AIResponse =
+  | { type: 'progress'; id: number; progress: SearchProgress }
+  | { type: 'result'; id: number; result: AIResult }
+  | { type: 'error'; id: number; message: string };
+
+export type AIJob = Exclude<AIRequest, { type: 'cancel' }>;
+
+/**
+ * Runs jobs one search step at a time, giving `pause` a chance to deliver
+ * cancel messages between steps. The worker and the in-thread fallback both
+ * use this, so the protocol behaves the same with or without a worker.
+ */
+export class AIJobRunner {
+  private running = new Set<number>();
+  private cancelled = new Set<number>();
+
+  constructor(
+    private post: (response: AIResponse) => void,
+    private pause: () => Promise<void>
+  ) {}
+
+  handle(request: AIRequest): void {
+    if (request.type === 'cancel') {
+      // Jobs that already finished have nothing left to stop
+      if (this.running.has(request.id)) {
+        this.cancelled.add(request.id);
+      }
+      return;
+    }
+    this.run(request);
+  }
+
+  private async run(job: AIJob): Promise<void> {
+    this.running.add(job.id);
+    try {
+      const result = await this.execute(job);
+      if (result && !this.cancelled.has(job.id)) {
+        this.post({ type: 'result', id: job.id, result });
+      }
+    } catch (error) {
+      if (!this.cancelled.has(job.id)) {
+        this.post({ type: 'error', id: job.id, message: (error as Error).message });
+      }
+    } finally {
+      this.running.delete(job.id);
+      this.cancelled.delete(job.id);
+    }
+  }
+
+  private async execute(job: AIJob): Promise<AIResult | null> {
+    switch (job.type) {
+      case 'search': {
+        const search = await this.step(job.id, searchAIMove(job.state, job.difficulty, job.engine));
+        return search === undefined ? null : { type: 'search', search };
+      }
+      case 'topMoves': {
+        const moves = await this.step(job.id, searchTopMoves(job.state, job.count));
+        return moves === undefined ? null : { type: 'topMoves', moves };
+      }
+      case 'analyze':
+        return { type: 'analyze', analysis: analyzeAIMove(job.state, job.move, job.difficulty) };
+      case 'review': {
+        const review = await this.step(job.id, searchGameReview(job.start, job.actions));
+        return review === undefined ? null : { type: 'review', review };
+      }
+    }
+  }
+
+  /**
+   * Drive a search, reporting progress after each step. Resolves to
+   * undefined if the job was cancelled.
+   */
+  private async step<T>(id: number, search: Search<T>): Promise<T | undefined> {
+    let step = search.next();
+    while (!step.done) {
+      this.post({ type: 'progress', id, progress: step.value });
+      await this.pause();
+      if (this.cancelled.has(id)) return undefined;
+      step = search.next();
+    }
+    return step.value;
+  }
+}
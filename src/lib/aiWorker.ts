@@ -0,0 +1,21 @@
+// FILE: src/lib/aiWorker.ts
+
+import { AIJobRunner, AIRequest, AIResponse } from './aiProtocol';
+
+/**
+ * Web Worker entry point for the AI. Searches run here so the board stays
+ * responsive; see `aiProtocol.ts` for the messages.
+ */
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<AIRequest>) => void) | null;
+  postMessage: (response: AIResponse) => void;
+};
+
+// A zero timeout lets queued cancel messages arrive between root moves
+const runner = new AIJobRunner(
+  response => scope.postMessage(response),
+  () => new Promise(resolve => setTimeout(resolve, 0))
+);
+
+scope.onmessage = event => runner.handle(event.data);
@@ -0,0 +1,262 @@
+// FILE: src/lib/arena.ts
+
+import { GameState, GameAction, Player, AIDifficulty, AIEngine, BoardSize, WinReason } from './types';
+import { initialState } from './rules';
+import { applyAction, legalActions } from './actions';
+import { runSearch, searchAIMove, AISearchOptions } from './ai';
+import { EvaluationWeights } from './evaluation';
+import { createRandom, Random } from './random';
+
+/**
+ * Headless matches between two AI configurations, to measure whether one
+ * is stronger than the other.
+ *
+ * Games are played in pairs from the same random opening, with each side
+ * taking Light once, so neither the first move nor a lucky opening favours
+ * either side. Openings, random moves and playouts all draw from one seeded
+ * source. Searches still stop on their time budgets, so results can shift
+ * slightly with machine speed.
+ *
+ * `runArenaAsync` also takes bots that answer asynchronously, such as
+ * engines in another process speaking the protocol in `engineProtocol.ts`.
+ */
+
+export interface ArenaEngine {
+  name: string;
+  difficulty: AIDifficulty;
+  engine?: AIEngine; // Minimax by default
+  weights?: EvaluationWeights; // The difficulty's own weights by default
+  budget?: Pick<AISearchOptions, 'timeMs' | 'maxDepth' | 'iterations'>; // Search limits instead of the difficulty's own
+}
+
+/**
+ * A player the arena waits on, such as an external engine
+ */
+export interface ArenaBot {
+  name: string;
+  newGame?: () => void;
+  play: (state: GameState) => Promise<GameAction[]>; // The rest of the side to move's turn
+}
+
+export type ArenaPlayer = ArenaEngine | ArenaBot;
+
+export interface ArenaOptions {
+  games: number;
+  seed?: number;
+  boardSize?: BoardSize;
+  openingPlies?: number; // Stones placed at random before the engines take over
+  maxPlies?: number; // Games still running after this many actions are drawn
+  onGame?: (game: ArenaGame, index: number) => void;
+}
+
+export interface ArenaGame {
+  light: string; // Name of the configuration playing Light
+  dark: string;
+  result: 'win' | 'draw' | 'loss'; // For the first configuration
+  winner: Player | null;
+  reason?: WinReason; // Undefined when the game reached the ply limit
+  plies: number;
+  actions: GameAction[];
+}
+
+export interface ArenaReport {
+  games: ArenaGame[];
+  wins: number;
+  draws: number;
+  losses: number;
+  elo: number; // Rating of the first configuration relative to the second
+  eloMargin: number; // Half-width of the 95% confidence interval
+  averagePlies: number;
+}
+
+const DEFAULT_SEED = 1;
+const DEFAULT_OPENING_PLIES = 4;
+const DEFAULT_MAX_PLIES = 400;
+// Two-sided 95% quantile of the normal distribution
+const CONFIDENCE_Z = 1.96;
+
+/**
+ * A starting position with `plies` stones placed at random
+ */
+export function randomOpening(size: BoardSize, plies: number, random: Random): GameState {
+  let state = initialState(size);
+  for (let i = 0; i < plies && state.phase === 'placement'; i++) {
+    const actions = legalActions(state);
+    if (actions.length === 0) break;
+    state = applyAction(state, actions[Math.floor(random() * actions.length)]);
+  }
+  return state;
+}
+
+/**
+ * Play `start` to the end with each side's configuration choosing its moves.
+ * Returns the final state, which is unfinished if `maxPlies` actions were
+ * played first.
+ */
+export function playArenaGame(
+  start: GameState,
+  players: Record<Player, ArenaEngine>,
+  random: Random,
+  maxPlies: number = DEFAULT_MAX_PLIES
+): GameState {
+  let state = start;
+  while (state.winner === undefined && state.actionHistory.length < maxPlies) {
+    const action = engineAction(state, players[state.current], random);
+    if (!action) break;
+    state = applyAction(state, action);
+  }
+  return state;
+}
+
+/**
+ * `playArenaGame` for players that may answer asynchronously
+ */
+export async function playArenaGameAsync(
+  start: GameState,
+  players: Record<Player, ArenaPlayer>,
+  random: Random,
+  maxPlies: number = DEFAULT_MAX_PLIES
+): Promise<GameState> {
+  let state = start;
+  while (state.winner === undefined && state.actionHistory.length < maxPlies) {
+    const player = players[state.current];
+    let actions: GameAction[];
+    if (isBot(player)) {
+      actions = await player.play(state);
+    } else {
+      const action = engineAction(state, player, random);
+      actions = action ? [action] : [];
+    }
+    if (actions.length === 0) break;
+    for (const action of actions) {
+      state = applyAction(state, action);
+    }
+  }
+  return state;
+}
+
+function isBot(player: ArenaPlayer): player is ArenaBot {
+  return 'play' in player;
+}
+
+function engineAction(state: GameState, config: ArenaEngine, random: Random): GameAction | null {
+  return runSearch(searchAIMove(state, config.difficulty, config.engine, { ...config.budget, weights: config.weights, random })).action;
+}
+
+/**
+ * Elo difference implied by a score, with the half-width of its 95%
+ * confidence interval. Clean sweeps have no finite estimate.
+ */
+export function eloDifference(wins: number, draws: number, losses: number): { elo: number; margin: number } {
+  const games = wins + draws + losses;
+  if (games === 0) {
+    return { elo: 0, margin: Infinity };
+  }
+
+  const score = (wins + draws / 2) / games;
+  const variance = (
+    wins * (1 - score) ** 2 +
+    draws * (0.5 - score) ** 2 +
+    losses * score ** 2
+  ) / games;
+  const error = Math.sqrt(variance / games);
+
+  const low = eloFromScore(score - CONFIDENCE_Z * error);
+  const high = eloFromScore(score + CONFIDENCE_Z * error);
+  return { elo: eloFromScore(score), margin: (high - low) / 2 };
+}
+
+function eloFromScore(score: number): number {
+  if (score <= 0) return -Infinity;
+  if (score >= 1) return Infinity;
+  return -400 * Math.log10(1 / score - 1);
+}
+
+/**
+ * Play a match of `options.games` games between two configurations and
+ * report the result from the first one's point of view
+ */
+export function runArena(first: ArenaEngine, second: ArenaEngine, options: ArenaOptions): ArenaReport {
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+  const games: ArenaGame[] = [];
+  let opening = initialState(options.boardSize ?? 7);
+
+  for (let index = 0; index < options.games; index++) {
+    // Each opening is played twice, once with each side as Light
+    const firstIsLight = index % 2 === 0;
+    if (firstIsLight) {
+      opening = arenaOpening(options, random);
+    }
+
+    const players = firstIsLight ? { Light: first, Dark: second } : { Light: second, Dark: first };
+    const end = playArenaGame(opening, players, random, options.maxPlies);
+    const game = arenaGame(players, end, firstIsLight);
+    games.push(game);
+    options.onGame?.(game, index);
+  }
+
+  return arenaReport(games);
+}
+
+/**
+ * `runArena` for players that may answer asynchronously. Bots are told
+ * about each new game before it starts.
+ */
+export async function runArenaAsync(first: ArenaPlayer, second: ArenaPlayer, options: ArenaOptions): Promise<ArenaReport> {
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+  const games: ArenaGame[] = [];
+  let opening = initialState(options.boardSize ?? 7);
+
+  for (let index = 0; index < options.games; index++) {
+    const firstIsLight = index % 2 === 0;
+    if (firstIsLight) {
+      opening = arenaOpening(options, random);
+    }
+
+    const players = firstIsLight ? { Light: first, Dark: second } : { Light: second, Dark: first };
+    for (const player of [first, second]) {
+      if (isBot(player)) player.newGame?.();
+    }
+    const end = await playArenaGameAsync(opening, players, random, options.maxPlies);
+    const game = arenaGame(players, end, firstIsLight);
+    games.push(game);
+    options.onGame?.(game, index);
+  }
+
+  return arenaReport(games);
+}
+
+function arenaOpening(options: ArenaOptions, random: Random): GameState {
+  return randomOpening(options.boardSize ?? 7, options.openingPlies ?? DEFAULT_OPENING_PLIES, random);
+}
+
+function arenaGame(players: Record<Player, ArenaPlayer>, end: GameState, firstIsLight: boolean): ArenaGame {
+  const winner = end.winner ?? null;
+  const firstColor: Player = firstIsLight ? 'Light' : 'Dark';
+  return {
+    light: players.Light.name,
+    dark: players.Dark.name,
+    result: winner === null ? 'draw' : winner === firstColor ? 'win' : 'loss',
+    winner,
+    reason: end.winReason,
+    plies: end.actionHistory.length,
+    actions: end.actionHistory
+  };
+}
+
+function arenaReport(games: ArenaGame[]): ArenaReport {
+  const wins = games.filter(game => game.result === 'win').length;
+  const draws = games.filter(game => game.result === 'draw').length;
+  const losses = games.length - wins - draws;
+  const { elo, margin } = eloDifference(wins, draws, losses);
+
+  return {
+    games,
+    wins,
+    draws,
+    losses,
+    elo,
+    eloMargin: margin,
+    averagePlies: games.length > 0 ? games.reduce((sum, game) => sum + game.plies, 0) / games.length : 0
+  };
+}
@@ -38,6 +38,8 @@ export function generateDefaultStats(): PlayerStats {
     averageMovesPerGame: 0,
     bestWinStreak: 0,
     currentWinStreak: 0,
+    timeoutWins: 0,
+    timeoutLosses: 0,
     favoriteColor: 'Light',
     difficultyStats: {
       beginner: { games: 0, wins: 0, winRate: 0 },
@@ -45,7 +47,8 @@ export function generateDefaultStats(): PlayerStats {
       medium: { games: 0, wins: 0, winRate: 0 },
       hard: { games: 0, wins: 0, winRate: 0 }
     },
-    recentGames: []
+    recentGames: [],
+    coachedGames: 0
   };
 }
 
@@ -55,7 +58,9 @@ export function calculateStats(games: GameResult[]): PlayerStats {
   }
 
   const stats = generateDefaultStats();
-  stats.totalGames = games.length;
+  // Coached games stay in the history but out of the ranked figures
+  stats.coachedGames = games.filter(game => game.coached).length;
+  stats.totalGames = games.length - stats.coachedGames;
   
   // Count outcomes
   let currentStreak = 0;
@@ -77,6 +82,8 @@ export function calculateStats(games: GameResult[]): PlayerStats {
   let totalMoves = 0;
   
   for (const game of games.reverse()) { // Process chronologically for streak calculation
+    if (game.coached) continue;
+    
     // Count outcomes
     if (game.winner === game.playerColor) {
       stats.wins++;
@@ -97,6 +104,14 @@ export function calculateStats(games: GameResult[]): PlayerStats {
       lastWin = false;
     }
     
+    if (game.winReason?.type === 'timeout') {
+      if (game.winReason.timedOutPlayer === game.playerColor) {
+        stats.timeoutLosses++;
+      } else {
+        stats.timeoutWins++;
+      }
+    }
+    
     // Track other stats
     colorCounts[game.playerColor]++;
     totalDuration += game.duration;
@@ -0,0 +1,147 @@
+// FILE: src/lib/clock.ts
+
+import { GameState, Player, ClockState, TimeControl, TimeControlPreset } from './types';
+
+/**
+ * Chess-clock time controls.
+ *
+ * A clock keeps each player's time at the start of the current turn plus the
+ * time the side to move has used so far. Time only accrues while the clock
+ * is running; the store pauses it while the AI thinks, while the tab is hidden
+ * and once the game is over. All functions are pure and take the current time
+ * as `now` so they can be tested without timers.
+ *
+ * Fischer increment adds a fixed amount after every completed turn. Bronstein
+ * delay gives back the time used in a turn, up to the delay, so quick turns
+ * cost nothing but unused delay never accumulates.
+ */
+
+export const TIME_CONTROLS: Record<TimeControlPreset, TimeControl | null> = {
+  off: null,
+  blitz: { initial: 3 * 60_000, increment: 2_000, delay: 0 },
+  rapid: { initial: 10 * 60_000, increment: 5_000, delay: 0 },
+  classical: { initial: 30 * 60_000, increment: 10_000, delay: 0 },
+  bronstein: { initial: 5 * 60_000, increment: 0, delay: 3_000 }
+};
+
+/**
+ * The preset a clock was created from, if it still matches one
+ */
+export function timeControlPreset(control: TimeControl): TimeControlPreset | undefined {
+  return (Object.keys(TIME_CONTROLS) as TimeControlPreset[]).find(preset => {
+    const candidate = TIME_CONTROLS[preset];
+    return candidate !== null &&
+      candidate.initial === control.initial &&
+      candidate.increment === control.increment &&
+      candidate.delay === control.delay;
+  });
+}
+
+/**
+ * A fresh, paused clock
+ */
+export function createClock(control: TimeControl): ClockState {
+  return {
+    control,
+    remaining: { Light: control.initial, Dark: control.initial },
+    turnElapsed: 0,
+    runningSince: null
+  };
+}
+
+/**
+ * Give a new game the clock for a preset, or none when untimed
+ */
+export function attachClock(state: GameState, preset: TimeControlPreset): GameState {
+  const control = TIME_CONTROLS[preset];
+  return { ...state, clock: control ? createClock(control) : undefined };
+}
+
+/**
+ * Time the side to move has used this turn
+ */
+export function turnElapsed(clock: ClockState, now: number): number {
+  return clock.turnElapsed + (clock.runningSince !== null ? now - clock.runningSince : 0);
+}
+
+/**
+ * Milliseconds left on a player's clock, never below zero
+ */
+export function timeLeft(clock: ClockState, player: Player, current: Player, now: number): number {
+  const used = player === current ? turnElapsed(clock, now) : 0;
+  return Math.max(0, clock.remaining[player] - used);
+}
+
+/**
+ * Run the side to move's clock from `now`
+ */
+export function startClock(clock: ClockState, now: number): ClockState {
+  if (clock.runningSince !== null) return clock;
+  return { ...clock, runningSince: now };
+}
+
+/**
+ * Stop the clock, keeping the time used this turn
+ */
+export function pauseClock(clock: ClockState, now: number): ClockState {
+  if (clock.runningSince === null) return clock;
+  return { ...clock, turnElapsed: turnElapsed(clock, now), runningSince: null };
+}
+
+/**
+ * Charge a finished turn to `player` and start the next turn from zero
+ */
+export function completeTurn(clock: ClockState, player: Player, now: number): ClockState {
+  const elapsed = turnElapsed(clock, now);
+  const { increment, delay } = clock.control;
+  const charged = Math.max(0, elapsed - delay);
+
+  return {
+    ...clock,
+    remaining: {
+      ...clock.remaining,
+      [player]: Math.max(0, clock.remaining[player] - charged) + increment
+    },
+    turnElapsed: 0,
+    runningSince: clock.runningSince !== null ? now : null
+  };
+}
+
+/**
+ * Bring the clock of `next` up to date after an action took `previous` to
+ * it: the mover is charged when the turn passes, and the clock stops when
+ * the game ends. A second placement or chain step keeps the same turn.
+ */
+export function applyClock(previous: GameState, next: GameState, now: number): GameState {
+  const clock = next.clock;
+  if (!clock) return next;
+
+  if (next.winner !== undefined) {
+    return { ...next, clock: pauseClock(clock, now) };
+  }
+  if (next.current !== previous.current) {
+    return { ...next, clock: completeTurn(clock, previous.current, now) };
+  }
+  return next;
+}
+
+/**
+ * The side to move when their time has run out, otherwise null
+ */
+export function flaggedPlayer(state: GameState, now: number): Player | null {
+  if (!state.clock || state.winner !== undefined) return null;
+  return timeLeft(state.clock, state.current, state.current, now) <= 0 ? state.current : null;
+}
+
+/**
+ * Display a clock reading: m:ss, with tenths under ten seconds
+ */
+export function formatClockTime(ms: number): string {
+  if (ms < 10_000) {
+    return (Math.floor(ms / 100) / 10).toFixed(1);
+  }
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,392 @@
+// FILE: src/lib/engine.ts
+
+import { GameState, GameAction, Player } from './types';
+import { previewCaptures } from './rules';
+import { applyAction, legalActions, turnActions } from './actions';
+import { EvaluationWeights, evaluatePosition } from './evaluation';
+import { probeTablebase } from './tablebase';
+
+/**
+ * Iterative deepening alpha-beta search.
+ *
+ * The engine searches one ply deeper per iteration until it runs out of
+ * depth, time or nodes, keeping the result of the last iteration that finished.
+ * If the budget runs out before the first one finishes, it plays the best root
+ * move scored so far, or the first root move when none has been.
+ * A transposition table keyed by the position's Zobrist hash stores scores,
+ * bounds and best moves, so each iteration starts from the previous one's
+ * best line. Moves are ordered best-move-first, then captures, then killer
+ * moves (quiet moves that caused a cutoff at the same ply).
+ *
+ * A placement turn's two stones are searched as one move (see
+ * `turnActions`), and so is a chain capture: its steps cost no depth, so a
+ * chain is always searched to the point where it ends, by choice or by
+ * running out of captures. A blockade removal costs a ply like any other
+ * turn, since a walled-in side may have to remove stone after stone. At
+ * depth 0 a quiescence search plays out pending captures before evaluating.
+ *
+ * Scores are from the point of view of the side to move at the root. A won
+ * game scores `WIN_SCORE` minus the plies needed to reach it, so faster wins
+ * are preferred. Positions an endgame tablebase covers are scored exactly
+ * without searching further.
+ */
+
+export const WIN_SCORE = 100000;
+
+export interface SearchBudget {
+  maxDepth: number; // Plies
+  timeMs: number;
+  maxNodes?: number; // Unlike time, stops the search at the same point on every machine
+}
+
+export interface EngineReport {
+  best: GameAction | null;
+  score: number;
+  depth: number; // Deepest iteration that finished
+  nodes: number;
+  pv: GameAction[]; // Principal variation, starting with `best`
+  elapsedMs: number;
+}
+
+type Bound = 'exact' | 'lower' | 'upper';
+
+interface TableEntry {
+  depth: number;
+  score: number;
+  bound: Bound;
+  best: GameAction | null;
+}
+
+export type TranspositionTable = Map<number, TableEntry>;
+
+export interface EngineOptions {
+  budget: SearchBudget;
+  weights: EvaluationWeights;
+  table?: TranspositionTable; // Pass a table to keep it between searches
+  now?: () => number; // Clock for the time budget
+}
+
+// Cleared when full rather than aged, which is enough for single-move searches
+const MAX_TABLE_ENTRIES = 200_000;
+// Nodes between clock checks
+const TIME_CHECK_INTERVAL = 256;
+
+// Captures followed past the search horizon before evaluating regardless
+const MAX_QUIESCENCE_PLIES = 8;
+
+// Thrown through the recursion when the time or node budget runs out
+const OUT_OF_BUDGET = Symbol('out of budget');
+
+/**
+ * A short key identifying an action, for comparing moves
+ */
+function actionKey(action: GameAction): string {
+  switch (action.type) {
+    case 'place':
+      return `p${action.cells.map(cell => `${cell.r}.${cell.c}`).join(',')}`;
+    case 'move':
+      return `m${action.from.r}.${action.from.c}-${action.to.r}.${action.to.c}`;
+    case 'chainStep':
+      return `c${action.to.r}.${action.to.c}`;
+    case 'removeBlockade':
+      return `r${action.cell.r}.${action.cell.c}`;
+    default:
+      return action.type;
+  }
+}
+
+function isCapture(state: GameState, action: GameAction): boolean {
+  if (action.type === 'move') {
+    return previewCaptures(state, action.from, action.to).length > 0;
+  }
+  if (action.type === 'chainStep' && state.chainOrigin) {
+    return previewCaptures(state, state.chainOrigin, action.to).length > 0;
+  }
+  return false;
+}
+
+/**
+ * Score of a finished game for `player`, preferring wins reached sooner and
+ * losses put off longer
+ */
+export function terminalScore(state: GameState, player: Player, ply: number): number {
+  if (state.winner === null || state.winner === undefined) return 0;
+  return state.winner === player ? WIN_SCORE - ply : -(WIN_SCORE - ply);
+}
+
+/**
+ * Exact score for `player` of a position the loaded endgame tablebases
+ * cover, counting each remaining turn as a ply; null when none covers it
+ */
+export function tablebaseScore(state: GameState, player: Player, ply: number): number | null {
+  const entry = probeTablebase(state);
+  if (!entry) return null;
+  if (entry.result === 'draw') return 0;
+  const score = WIN_SCORE - ply - entry.turns;
+  return (entry.result === 'win') === (state.current === player) ? score : -score;
+}
+
+/**
+ * True when `next` is the same player's chain capture continuing, so the
+ * step should not count against the search depth
+ */
+export function continuesTurn(state: GameState, next: GameState): boolean {
+  return next.winner === undefined && next.phase === 'chain' && next.current === state.current;
+}
+
+/**
+ * Moves that capture, and in a chain the steps that capture again
+ */
+function captureActions(state: GameState): GameAction[] {
+  if (state.phase === 'placement') return [];
+  return legalActions(state).filter(action => isCapture(state, action));
+}
+
+export interface QuiescenceContext {
+  player: Player; // Scores are for this player
+  evaluate: (state: GameState) => number; // Static score of a quiet position
+  visit?: () => void; // Called for every node, e.g. to count nodes or check the clock
+}
+
+/**
+ * Quiescence search: keep playing captures until the position is quiet so
+ * the static evaluation never lands in the middle of an exchange. The side
+ * to move may always stop instead (stand pat), which in a chain capture
+ * means ending the chain.
+ */
+export function quiescence(
+  state: GameState,
+  context: QuiescenceContext,
+  alpha: number,
+  beta: number,
+  ply: number,
+  pliesLeft: number = MAX_QUIESCENCE_PLIES
+): number {
+  context.visit?.();
+  if (state.winner !== undefined) {
+    return terminalScore(state, context.player, ply);
+  }
+  const known = tablebaseScore(state, context.player, ply);
+  if (known !== null) return known;
+
+  const standPat = context.evaluate(state);
+  const maximizing = state.current === context.player;
+  if (maximizing) {
+    if (standPat >= beta) return standPat;
+    alpha = Math.max(alpha, standPat);
+  } else {
+    if (standPat <= alpha) return standPat;
+    beta = Math.min(beta, standPat);
+  }
+  if (pliesLeft === 0) return standPat;
+
+  let best = standPat;
+  for (const action of captureActions(state)) {
+    const score = quiescence(applyAction(state, action), context, alpha, beta, ply + 1, pliesLeft - 1);
+    if (maximizing) {
+      best = Math.max(best, score);
+      alpha = Math.max(alpha, score);
+    } else {
+      best = Math.min(best, score);
+      beta = Math.min(beta, score);
+    }
+    if (alpha >= beta) break;
+  }
+  return best;
+}
+
+/**
+ * Best move from the table first, then captures, then killer moves
+ */
+function orderActions(state: GameState, actions: GameAction[], best: GameAction | null, killers: string[]): GameAction[] {
+  const bestKey = best ? actionKey(best) : null;
+  const rank = (action: GameAction): number => {
+    const key = actionKey(action);
+    if (key === bestKey) return 3;
+    if (isCapture(state, action)) return 2;
+    if (killers.includes(key)) return 1;
+    return 0;
+  };
+  return actions
+    .map(action => ({ action, rank: rank(action) }))
+    .sort((a, b) => b.rank - a.rank)
+    .map(entry => entry.action);
+}
+
+/**
+ * Follow the table's best moves from `root` for `depth` turns, checking each
+ * is still legal
+ */
+function principalVariation(root: GameState, table: TranspositionTable, depth: number): GameAction[] {
+  const line: GameAction[] = [];
+  let state = root;
+  let turns = 0;
+  while (turns < depth && state.winner === undefined) {
+    const best = table.get(state.hash)?.best;
+    if (!best) break;
+    const key = actionKey(best);
+    const legal = turnActions(state).find(action => actionKey(action) === key);
+    if (!legal) break;
+    line.push(legal);
+    const next = applyAction(state, legal);
+    if (!continuesTurn(state, next)) turns++;
+    state = next;
+  }
+  return line;
+}
+
+/**
+ * Search `root` to the budget, yielding a report after each finished
+ * iteration and returning the final one
+ */
+export function* iterativeDeepening(root: GameState, options: EngineOptions): Generator<EngineReport, EngineReport, void> {
+  const now = options.now ?? Date.now;
+  const start = now();
+  const deadline = start + options.budget.timeMs;
+  const maxNodes = options.budget.maxNodes ?? Infinity;
+  const table = options.table ?? new Map<number, TableEntry>();
+  const player = root.current;
+  const killers: string[][] = [];
+  let nodes = 0;
+  // Best root move scored so far, for when the first iteration runs out of budget
+  const rootBest: { action: GameAction | null; score: number } = { action: null, score: 0 };
+
+  const rootActions = turnActions(root);
+  let report: EngineReport = {
+    best: rootActions[0] ?? null,
+    score: 0,
+    depth: 0,
+    nodes: 0,
+    pv: rootActions.slice(0, 1),
+    elapsedMs: 0
+  };
+  if (rootActions.length <= 1) {
+    return report;
+  }
+
+  const visit = () => {
+    nodes++;
+    if (nodes > maxNodes || (nodes % TIME_CHECK_INTERVAL === 0 && now() >= deadline)) {
+      throw OUT_OF_BUDGET;
+    }
+  };
+  const quiet: QuiescenceContext = {
+    player,
+    evaluate: state => evaluatePosition(state, player, options.weights),
+    visit
+  };
+
+  const search = (state: GameState, depth: number, ply: number, alpha: number, beta: number): number => {
+    if (state.winner !== undefined) {
+      visit();
+      return terminalScore(state, player, ply);
+    }
+    if (depth === 0) {
+      return quiescence(state, quiet, alpha, beta, ply);
+    }
+    visit();
+    const known = ply > 0 ? tablebaseScore(state, player, ply) : null;
+    if (known !== null) return known;
+
+    const entry = table.get(state.hash);
+    if (entry && entry.depth >= depth && ply > 0) {
+      if (entry.bound === 'exact') return entry.score;
+      if (entry.bound === 'lower') alpha = Math.max(alpha, entry.score);
+      if (entry.bound === 'upper') beta = Math.min(beta, entry.score);
+      if (alpha >= beta) return entry.score;
+    }
+
+    const actions = orderActions(state, turnActions(state), entry?.best ?? null, killers[ply] ?? []);
+    if (actions.length === 0) {
+      return quiet.evaluate(state);
+    }
+
+    const originalAlpha = alpha;
+    const originalBeta = beta;
+    const maximizing = state.current === player;
+    let bestScore = maximizing ? -Infinity : Infinity;
+    let bestAction = actions[0];
+
+    for (const action of actions) {
+      const next = applyAction(state, action);
+      const score = search(next, continuesTurn(state, next) ? depth : depth - 1, ply + 1, alpha, beta);
+      if (maximizing ? score > bestScore : score < bestScore) {
+        bestScore = score;
+        bestAction = action;
+        if (ply === 0) {
+          rootBest.action = action;
+          rootBest.score = score;
+        }
+      }
+      if (maximizing) {
+        alpha = Math.max(alpha, score);
+      } else {
+        beta = Math.min(beta, score);
+      }
+      if (alpha >= beta) {
+        if (!isCapture(state, action)) {
+          const key = actionKey(action);
+          const plyKillers = killers[ply] ?? [];
+          if (plyKillers[0] !== key) {
+            killers[ply] = [key, plyKillers[0]].filter(Boolean);
+          }
+        }
+        break;
+      }
+    }
+
+    if (table.size >= MAX_TABLE_ENTRIES) {
+      table.clear();
+    }
+    table.set(state.hash, {
+      depth,
+      score: bestScore,
+      bound: bestScore <= originalAlpha ? 'upper' : bestScore >= originalBeta ? 'lower' : 'exact',
+      best: bestAction
+    });
+    return bestScore;
+  };
+
+  for (let depth = 1; depth <= options.budget.maxDepth; depth++) {
+    let score: number;
+    try {
+      score = search(root, depth, 0, -Infinity, Infinity);
+    } catch (error) {
+      if (error !== OUT_OF_BUDGET) throw error;
+      if (report.depth === 0 && rootBest.action) {
+        report = { ...report, best: rootBest.action, score: rootBest.score, pv: [rootBest.action] };
+      }
+      break;
+    }
+
+    const pv = principalVariation(root, table, depth);
+    report = {
+      best: pv[0] ?? report.best,
+      score,
+      depth,
+      nodes,
+      pv,
+      elapsedMs: now() - start
+    };
+
+    // A forced result needs no deeper search
+    if (Math.abs(score) >= WIN_SCORE - depth || now() >= deadline || depth === options.budget.maxDepth) {
+      break;
+    }
+    yield report;
+  }
+
+  return { ...report, nodes, elapsedMs: now() - start };
+}
+
+/**
+ * Run a search to completion and return its final report
+ */
+export function runEngine(root: GameState, options: EngineOptions): EngineReport {
+  const search = iterativeDeepening(root, options);
+  let step = search.next();
+  while (!step.done) {
+    step = search.next();
+  }
+  return step.value;
+}
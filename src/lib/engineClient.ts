@@ -0,0 +1,144 @@
+// FILE: src/lib/engineClient.ts
+
+import { GameState, GameAction } from './types';
+import { parseMoveList } from './notation';
+import {
+  EngineCommand,
+  EngineInfo,
+  EngineMessage,
+  EngineOption,
+  formatEngineCommand,
+  parseEngineMessage,
+  positionCommand
+} from './engineProtocol';
+
+/**
+ * Client side of the engine protocol in `engineProtocol.ts`. It only sees
+ * lines, so the same client drives an engine in another process (see
+ * `scripts/engineProcess.ts`) or an `EngineSession` in this one.
+ */
+
+export interface EngineIdentity {
+  name: string;
+  author?: string;
+  options: EngineOption[];
+}
+
+export interface EngineBudget {
+  movetime?: number; // ms
+  depth?: number;
+}
+
+export interface EngineMove {
+  moves: string[]; // The rest of the turn as the engine wrote it
+  actions: GameAction[]; // The same moves, checked against the rules
+  info: EngineInfo; // The last search report before the move
+}
+
+type Waiter = {
+  accepts: (message: EngineMessage) => boolean;
+  resolve: (message: EngineMessage) => void;
+};
+
+export class EngineClient {
+  private waiters: Waiter[] = [];
+  private identity: EngineIdentity = { name: 'engine', options: [] };
+  private lastInfo: EngineInfo = {};
+  private infoListener: ((info: EngineInfo) => void) | null = null;
+
+  constructor(private sendLine: (line: string) => void) {}
+
+  get name(): string {
+    return this.identity.name;
+  }
+
+  /**
+   * Feed one line the engine wrote
+   */
+  receive(line: string): void {
+    const message = parseEngineMessage(line);
+    if (!message) return;
+
+    switch (message.type) {
+      case 'id':
+        this.identity[message.field] = message.value;
+        break;
+      case 'option':
+        this.identity.options.push(message.option);
+        break;
+      case 'info':
+        if (message.info.string === undefined) {
+          this.lastInfo = { ...this.lastInfo, ...message.info };
+        }
+        this.infoListener?.(message.info);
+        break;
+    }
+
+    const index = this.waiters.findIndex(waiter => waiter.accepts(message));
+    if (index !== -1) {
+      this.waiters.splice(index, 1)[0].resolve(message);
+    }
+  }
+
+  /**
+   * Say hello and wait for the engine to identify itself
+   */
+  async start(): Promise<EngineIdentity> {
+    this.identity = { name: 'engine', options: [] };
+    await this.request({ type: 'seejeh' }, 'seejehok');
+    return this.identity;
+  }
+
+  async isReady(): Promise<void> {
+    await this.request({ type: 'isready' }, 'readyok');
+  }
+
+  setOption(name: string, value: string): void {
+    this.send({ type: 'setoption', name, value });
+  }
+
+  newGame(): void {
+    this.send({ type: 'newgame' });
+  }
+
+  /**
+   * Ask for the rest of the side to move's turn. Rejects if the engine
+   * answers with a move the rules do not allow.
+   */
+  async go(state: GameState, budget: EngineBudget = {}, onInfo?: (info: EngineInfo) => void): Promise<EngineMove> {
+    this.lastInfo = {};
+    this.infoListener = onInfo ?? null;
+    this.send(positionCommand(state));
+
+    try {
+      const message = await this.request({ type: 'go', ...budget }, 'bestmove');
+      const moves = message.type === 'bestmove' ? message.moves : [];
+      try {
+        return { moves, actions: parseMoveList(state, moves), info: this.lastInfo };
+      } catch (error) {
+        throw new Error(`${this.name} played an illegal move "${moves.join(' ')}": ${(error as Error).message}`);
+      }
+    } finally {
+      this.infoListener = null;
+    }
+  }
+
+  stop(): void {
+    this.send({ type: 'stop' });
+  }
+
+  quit(): void {
+    this.send({ type: 'quit' });
+  }
+
+  private send(command: EngineCommand): void {
+    this.sendLine(formatEngineCommand(command));
+  }
+
+  private request(command: EngineCommand, answer: EngineMessage['type']): Promise<EngineMessage> {
+    return new Promise(resolve => {
+      this.waiters.push({ accepts: message => message.type === answer, resolve });
+      this.send(command);
+    });
+  }
+}
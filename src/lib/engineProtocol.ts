@@ -0,0 +1,395 @@
+// FILE: src/lib/engineProtocol.ts
+
+import { GameState, GameAction, AIDifficulty, AIEngine } from './types';
+import { initialState } from './rules';
+import { applyAction, replay } from './actions';
+import { searchAIMove, aiMoveToAction, Search, AISearchResult } from './ai';
+import { formatMoveList, parseMoveList } from './notation';
+import { formatPosition, parsePosition, startingPosition } from './position';
+
+/**
+ * A line-based text protocol for engines, modelled on chess UCI, so bots
+ * written in any language can play through stdin and stdout.
+ *
+ * The client (a GUI or the arena) sends commands; the engine answers:
+ *
+ *   seejeh                           engine identifies itself with `id name`,
+ *                                    `id author` and `option` lines, then `seejehok`
+ *   isready                          `readyok` once earlier commands are done
+ *   setoption name N value V         set one of the advertised options
+ *   newgame                          the next position belongs to a new game
+ *   position startpos [moves ...]    the standard 7x7 start
+ *   position pos <string> [moves ...]
+ *                                    a position string from `position.ts`,
+ *                                    then moves in `notation.ts` move-list notation
+ *   go [movetime MS] [depth N]       search the side to move, answered by
+ *                                    `info` lines and one `bestmove`
+ *   stop                             answer with the best move found so far
+ *   quit                             exit
+ *
+ *   info [depth N] [score S] [nodes N] [time MS] [pv ...]
+ *   info string <text>               free text, e.g. a rejected command
+ *   bestmove <tokens>                the rest of the turn, e.g. `c3-c4x-c6x`
+ *                                    or `c3-c4x end`; `(none)` with no move
+ *
+ * Unknown commands and messages are ignored, so either side can be extended.
+ * Positions are sent with their moves rather than as a single position
+ * string, so the engine sees the repetition history.
+ */
+
+export type EngineCommand =
+  | { type: 'seejeh' }
+  | { type: 'isready' }
+  | { type: 'setoption'; name: string; value: string }
+  | { type: 'newgame' }
+  | { type: 'position'; position: string | null; moves: string[] } // Null for the standard start
+  | { type: 'go'; movetime?: number; depth?: number }
+  | { type: 'stop' }
+  | { type: 'quit' };
+
+export interface EngineInfo {
+  depth?: number;
+  score?: number; // From the side to move's point of view
+  nodes?: number;
+  time?: number; // ms since the search started
+  pv?: string[]; // One move-list token per turn
+  string?: string;
+}
+
+export interface EngineOption {
+  name: string;
+  default: string;
+  values: string[];
+}
+
+export type EngineMessage =
+  | { type: 'id'; field: 'name' | 'author'; value: string }
+  | { type: 'option'; option: EngineOption }
+  | { type: 'seejehok' }
+  | { type: 'readyok' }
+  | { type: 'info'; info: EngineInfo }
+  | { type: 'bestmove'; moves: string[] }; // Empty when there is nothing to play
+
+const INFO_NUMBERS = ['depth', 'score', 'nodes', 'time'] as const;
+
+/**
+ * Write a command as a protocol line
+ */
+export function formatEngineCommand(command: EngineCommand): string {
+  switch (command.type) {
+    case 'setoption':
+      return `setoption name ${command.name} value ${command.value}`;
+    case 'position': {
+      const start = command.position === null ? 'startpos' : `pos ${command.position}`;
+      return command.moves.length > 0 ? `position ${start} moves ${command.moves.join(' ')}` : `position ${start}`;
+    }
+    case 'go': {
+      const parts = ['go'];
+      if (command.movetime !== undefined) parts.push('movetime', command.movetime.toString());
+      if (command.depth !== undefined) parts.push('depth', command.depth.toString());
+      return parts.join(' ');
+    }
+    default:
+      return command.type;
+  }
+}
+
+/**
+ * Read a command line. Returns null for blank lines and unknown commands.
+ * Throws an error for a known command with bad arguments.
+ */
+export function parseEngineCommand(line: string): EngineCommand | null {
+  const words = line.trim().split(/\s+/);
+  switch (words[0]) {
+    case 'seejeh':
+    case 'isready':
+    case 'newgame':
+    case 'stop':
+    case 'quit':
+      return { type: words[0] };
+
+    case 'setoption': {
+      const valueIndex = words.indexOf('value');
+      if (words[1] !== 'name' || valueIndex < 3) {
+        throw new Error('Expected "setoption name <name> value <value>"');
+      }
+      return { type: 'setoption', name: words.slice(2, valueIndex).join(' '), value: words.slice(valueIndex + 1).join(' ') };
+    }
+
+    case 'position': {
+      const movesIndex = words.indexOf('moves');
+      const start = movesIndex === -1 ? words.slice(1) : words.slice(1, movesIndex);
+      const moves = movesIndex === -1 ? [] : words.slice(movesIndex + 1);
+      if (start[0] === 'startpos' && start.length === 1) {
+        return { type: 'position', position: null, moves };
+      }
+      if (start[0] === 'pos' && start.length > 1) {
+        return { type: 'position', position: start.slice(1).join(' '), moves };
+      }
+      throw new Error('Expected "position startpos" or "position pos <position>"');
+    }
+
+    case 'go': {
+      const command: EngineCommand = { type: 'go' };
+      for (let i = 1; i < words.length; i += 2) {
+        const value = Number(words[i + 1]);
+        if ((words[i] !== 'movetime' && words[i] !== 'depth') || !Number.isInteger(value) || value <= 0) {
+          throw new Error(`Invalid go argument "${words.slice(i, i + 2).join(' ')}"`);
+        }
+        command[words[i] as 'movetime' | 'depth'] = value;
+      }
+      return command;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Write an engine message as a protocol line
+ */
+export function formatEngineMessage(message: EngineMessage): string {
+  switch (message.type) {
+    case 'id':
+      return `id ${message.field} ${message.value}`;
+    case 'option': {
+      const { name, values } = message.option;
+      return `option name ${name} type combo default ${message.option.default}${values.map(value => ` var ${value}`).join('')}`;
+    }
+    case 'info': {
+      const { info } = message;
+      if (info.string !== undefined) return `info string ${info.string}`;
+      const parts = ['info'];
+      for (const key of INFO_NUMBERS) {
+        if (info[key] !== undefined) parts.push(key, info[key]!.toString());
+      }
+      if (info.pv && info.pv.length > 0) parts.push('pv', ...info.pv);
+      return parts.join(' ');
+    }
+    case 'bestmove':
+      return `bestmove ${message.moves.length > 0 ? message.moves.join(' ') : '(none)'}`;
+    default:
+      return message.type;
+  }
+}
+
+/**
+ * Read an engine's line. Returns null for blank lines and unknown messages.
+ */
+export function parseEngineMessage(line: string): EngineMessage | null {
+  const words = line.trim().split(/\s+/);
+  switch (words[0]) {
+    case 'seejehok':
+    case 'readyok':
+      return { type: words[0] };
+
+    case 'id':
+      if (words[1] !== 'name' && words[1] !== 'author') return null;
+      return { type: 'id', field: words[1], value: words.slice(2).join(' ') };
+
+    case 'option': {
+      const typeIndex = words.indexOf('type');
+      if (words[1] !== 'name' || typeIndex < 3) return null;
+      const option: EngineOption = { name: words.slice(2, typeIndex).join(' '), default: '', values: [] };
+      for (let i = typeIndex + 2; i < words.length; i += 2) {
+        if (words[i] === 'default') option.default = words[i + 1];
+        if (words[i] === 'var') option.values.push(words[i + 1]);
+      }
+      return { type: 'option', option };
+    }
+
+    case 'info': {
+      if (words[1] === 'string') {
+        return { type: 'info', info: { string: words.slice(2).join(' ') } };
+      }
+      const info: EngineInfo = {};
+      for (let i = 1; i < words.length; i++) {
+        if (words[i] === 'pv') {
+          info.pv = words.slice(i + 1);
+          break;
+        }
+        if ((INFO_NUMBERS as readonly string[]).includes(words[i])) {
+          info[words[i] as (typeof INFO_NUMBERS)[number]] = Number(words[++i]);
+        }
+      }
+      return { type: 'info', info };
+    }
+
+    case 'bestmove':
+      return { type: 'bestmove', moves: words[1] === '(none)' ? [] : words.slice(1).filter(Boolean) };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * The `position` command for a game: where it started and every move since
+ */
+export function positionCommand(state: GameState): EngineCommand {
+  // A position set up without a history is its own start
+  const start = state.actionHistory.length === 0 ? state : startingPosition(state);
+  return { type: 'position', position: formatPosition(start), moves: formatMoveList(start, state.actionHistory) };
+}
+
+/**
+ * The game a `position` command describes, replayed move by move
+ */
+export function commandPosition(command: Extract<EngineCommand, { type: 'position' }>): GameState {
+  const start = command.position === null ? initialState(7) : parsePosition(command.position);
+  return replay(start, parseMoveList(start, command.moves));
+}
+
+const DIFFICULTIES: AIDifficulty[] = ['beginner', 'easy', 'medium', 'hard'];
+const ENGINES: AIEngine[] = ['minimax', 'mcts'];
+
+export interface EngineSessionOptions {
+  write: (line: string) => void;
+  pause: () => Promise<void>; // Lets `stop` arrive between search steps
+  quit?: () => void;
+  now?: () => number;
+}
+
+/**
+ * The built-in AI behind the protocol. Feed it the client's lines with
+ * `receive`; it answers through `write`. The Node adapter in
+ * `scripts/engine.ts` connects it to stdin and stdout.
+ */
+export class EngineSession {
+  private state: GameState = initialState(7);
+  private difficulty: AIDifficulty = 'medium';
+  private engine: AIEngine = 'minimax';
+  private searching = false;
+  private stopRequested = false;
+  private now: () => number;
+
+  constructor(private options: EngineSessionOptions) {
+    this.now = options.now ?? Date.now;
+  }
+
+  receive(line: string): void {
+    let command: EngineCommand | null;
+    try {
+      command = parseEngineCommand(line);
+    } catch (error) {
+      this.send({ type: 'info', info: { string: (error as Error).message } });
+      return;
+    }
+    if (command) this.handle(command);
+  }
+
+  private send(message: EngineMessage): void {
+    this.options.write(formatEngineMessage(message));
+  }
+
+  private handle(command: EngineCommand): void {
+    switch (command.type) {
+      case 'seejeh':
+        this.send({ type: 'id', field: 'name', value: 'Seejeh' });
+        this.send({ type: 'id', field: 'author', value: 'Seejeh contributors' });
+        this.send({ type: 'option', option: { name: 'Difficulty', default: this.difficulty, values: DIFFICULTIES } });
+        this.send({ type: 'option', option: { name: 'Engine', default: this.engine, values: ENGINES } });
+        this.send({ type: 'seejehok' });
+        break;
+
+      case 'isready':
+        this.send({ type: 'readyok' });
+        break;
+
+      case 'setoption':
+        if (command.name === 'Difficulty' && DIFFICULTIES.includes(command.value as AIDifficulty)) {
+          this.difficulty = command.value as AIDifficulty;
+        } else if (command.name === 'Engine' && ENGINES.includes(command.value as AIEngine)) {
+          this.engine = command.value as AIEngine;
+        } else {
+          this.send({ type: 'info', info: { string: `Unknown option ${command.name} = ${command.value}` } });
+        }
+        break;
+
+      case 'newgame':
+        this.state = initialState(7);
+        break;
+
+      case 'position':
+        try {
+          this.state = commandPosition(command);
+        } catch (error) {
+          this.send({ type: 'info', info: { string: `Invalid position: ${(error as Error).message}` } });
+        }
+        break;
+
+      case 'go':
+        if (this.searching) {
+          this.send({ type: 'info', info: { string: 'Already searching' } });
+          break;
+        }
+        this.go(command);
+        break;
+
+      case 'stop':
+        if (this.searching) this.stopRequested = true;
+        break;
+
+      case 'quit':
+        this.stopRequested = true;
+        this.options.quit?.();
+        break;
+    }
+  }
+
+  /**
+   * Search the whole turn of the side to move: a chain capture or a
+   * blockade removal is followed by further searches until the turn passes
+   */
+  private async go(command: Extract<EngineCommand, { type: 'go' }>): Promise<void> {
+    this.searching = true;
+    this.stopRequested = false;
+    const start = this.now();
+    const initial = this.state;
+    const actions: GameAction[] = [];
+    let state = initial;
+
+    try {
+      while (state.winner === undefined && state.current === initial.current) {
+        // The turn shares the time budget; after a stop the rest is played at once
+        const timeMs = this.stopRequested ? 1 : command.movetime && Math.max(1, command.movetime - (this.now() - start));
+        const search = searchAIMove(state, this.difficulty, this.engine, { timeMs, maxDepth: command.depth });
+        const { action, info } = await this.step(state, search);
+        if (actions.length === 0) {
+          this.send({ type: 'info', info: { ...info, time: this.now() - start } });
+        }
+        if (!action) break;
+        actions.push(action);
+        state = applyAction(state, action);
+      }
+      this.send({ type: 'bestmove', moves: formatMoveList(initial, actions) });
+    } catch (error) {
+      this.send({ type: 'info', info: { string: `Search failed: ${(error as Error).message}` } });
+      this.send({ type: 'bestmove', moves: [] });
+    } finally {
+      this.searching = false;
+      this.stopRequested = false;
+    }
+  }
+
+  /**
+   * Drive a search, reporting each finished step. After a stop the best
+   * move of the last finished step is played; a search that has none yet
+   * runs to the end without further pauses.
+   */
+  private async step(state: GameState, search: Search<AISearchResult>): Promise<{ action: GameAction | null; info: EngineInfo }> {
+    let step = search.next();
+    while (!step.done) {
+      const { depth, nodes, bestMove } = step.value;
+      this.send({ type: 'info', info: { depth, nodes } });
+      if (!this.stopRequested) await this.options.pause();
+      if (this.stopRequested && bestMove) {
+        return { action: aiMoveToAction(state, bestMove), info: { depth, nodes } };
+      }
+      step = search.next();
+    }
+    const { action, depth, score, nodes, pv } = step.value;
+    return { action, info: { depth, score, nodes, pv } };
+  }
+}
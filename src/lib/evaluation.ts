@@ -0,0 +1,151 @@
+// FILE: src/lib/evaluation.ts
+
+import { GameState, Player } from './types';
+import { placementsFor, countStones, checkWin, isCenter, neighbors } from './rules';
+
+/**
+ * Static evaluation of positions, shared by the fixed-depth hint search in
+ * `ai.ts` and the iterative deepening engine in `engine.ts`
+ */
+
+export interface EvaluationWeights {
+  stoneCount: number;
+  centerControl: number;
+  mobility: number;
+  captures: number;
+  positioning: number;
+  safety: number;
+}
+
+/**
+ * The terms of the static evaluation. `captures` is not among them: it only
+ * scores moves in the hint search.
+ */
+export const EVALUATION_TERMS = ['stoneCount', 'centerControl', 'mobility', 'positioning', 'safety'] as const;
+
+export type EvaluationTerm = (typeof EVALUATION_TERMS)[number];
+
+/**
+ * Evaluates a game position from the perspective of the given player
+ */
+export function evaluatePosition(state: GameState, player: Player, weights: EvaluationWeights): number {
+  const opponent = player === 'Light' ? 'Dark' : 'Light';
+  
+  // Check for immediate win/loss; stone counts only decide once placement is over
+  const winResult = state.phase === 'placement' ? undefined : checkWin(state);
+  if (winResult?.winner === player) return 10000;
+  if (winResult?.winner === opponent) return -10000;
+  
+  const features = evaluationFeatures(state, player);
+  let score = 0;
+  for (const term of EVALUATION_TERMS) {
+    score += features[term] * weights[term];
+  }
+  return score;
+}
+
+/**
+ * The unweighted value of each evaluation term for `player`, each the
+ * player's share minus the opponent's. The evaluation of a running game is
+ * their sum weighted by `EvaluationWeights`.
+ */
+export function evaluationFeatures(state: GameState, player: Player): Record<EvaluationTerm, number> {
+  const opponent = player === 'Light' ? 'Dark' : 'Light';
+  
+  const center = Math.floor(state.rules.size / 2);
+  const centerStone = state.board[center][center];
+  
+  return {
+    // Stone count difference
+    stoneCount: countStones(state, player) - countStones(state, opponent),
+    // Center control
+    centerControl: centerStone === player ? 1 : centerStone === opponent ? -1 : 0,
+    // Mobility (number of legal moves)
+    mobility: calculateMobility(state, player) - calculateMobility(state, opponent),
+    // Positioning (stones near center and edges)
+    positioning: evaluatePositioning(state, player) - evaluatePositioning(state, opponent),
+    // Safety (stones that can't be easily captured)
+    safety: evaluateSafety(state, player) - evaluateSafety(state, opponent)
+  };
+}
+
+/**
+ * Calculate the number of legal moves for a player
+ */
+export function calculateMobility(state: GameState, player: Player): number {
+  if (state.phase === 'placement') {
+    return placementsFor(state, player).length;
+  }
+  
+  // Counted directly, as movesFor only lists moves for the side to move
+  let moveCount = 0;
+  for (let r = 0; r < state.rules.size; r++) {
+    for (let c = 0; c < state.rules.size; c++) {
+      if (state.board[r][c] === player) {
+        moveCount += neighbors({ r, c }, state.rules.size)
+          .filter(to => state.board[to.r][to.c] === null)
+          .length;
+      }
+    }
+  }
+  return moveCount;
+}
+
+/**
+ * Evaluate positioning quality (center proximity, edge control)
+ */
+function evaluatePositioning(state: GameState, player: Player): number {
+  const { size } = state.rules;
+  const center = Math.floor(size / 2);
+  const edge = size - 1;
+  let score = 0;
+  
+  for (let r = 0; r < state.rules.size; r++) {
+    for (let c = 0; c < state.rules.size; c++) {
+      if (state.board[r][c] === player) {
+        // Distance from center (closer is better)
+        const distanceFromCenter = Math.abs(r - center) + Math.abs(c - center);
+        score += Math.max(0, edge - distanceFromCenter) * 0.5;
+        
+        // Edge control (corners and edges are valuable)
+        if ((r === 0 || r === edge) && (c === 0 || c === edge)) {
+          score += 3; // Corners
+        } else if (r === 0 || r === edge || c === 0 || c === edge) {
+          score += 1; // Edges
+        }
+      }
+    }
+  }
+  
+  return score;
+}
+
+/**
+ * Evaluate stone safety (how protected they are from capture)
+ */
+function evaluateSafety(state: GameState, player: Player): number {
+  let score = 0;
+  
+  for (let r = 0; r < state.rules.size; r++) {
+    for (let c = 0; c < state.rules.size; c++) {
+      if (state.board[r][c] === player) {
+        const cell = { r, c };
+        
+        // Center is completely safe
+        if (isCenter(cell, state.rules.size)) {
+          score += 5;
+          continue;
+        }
+        
+        // Count friendly neighbors (more neighbors = safer)
+        const friendlyNeighbors = neighbors(cell, state.rules.size)
+          .filter(neighbor => state.board[neighbor.r][neighbor.c] === player)
+          .length;
+        
+        score += friendlyNeighbors * 0.5;
+      }
+    }
+  }
+  
+  return score;
+}
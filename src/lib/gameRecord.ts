@@ -0,0 +1,291 @@
+// FILE: src/lib/gameRecord.ts
+
+import {
+  GameState,
+  GameSettings,
+  GameRecord,
+  Player,
+  PlayerConfig,
+  AIDifficulty,
+  BoardSize,
+  VariantFlags,
+  WinReason,
+  TimeControl
+} from './types';
+import { initialState, RULE_SETS } from './rules';
+import { replay } from './actions';
+import { formatMoveList, parseMoveList } from './notation';
+import { parsePosition, startingPosition } from './position';
+
+/**
+ * Seejeh game records (.sgn), a plain-text format modelled on PGN.
+ *
+ *   [Game "Seejeh"]
+ *   [Version "1"]
+ *   [Date "2026.10.19"]
+ *   [Light "human"]
+ *   [Dark "ai"]
+ *   [AIDifficulty "medium"]
+ *   [BoardSize "7"]
+ *   [Variant "blockadeOneRemoval"]
+ *   [Result "1-0"]
+ *   [WinReason "stoneCount"]
+ *
+ *   1. a1,b2 2. g7,f6 3. c1,c2 ... 61. c3-c4x-c5x 1-0
+ *
+ * Headers come first, one per line. `Variant` lists the enabled rule flags,
+ * separated by commas. Games set up in the editor add a `Position` header
+ * with the starting position string from `position.ts`, which must agree
+ * with `BoardSize` and `Variant`. `Result` is `1-0` (Light wins), `0-1` (Dark wins),
+ * `1/2-1/2` (draw) or `*` (unfinished). `WinReason` is the `WinReason` type,
+ * with the draw type after a slash for stalemates (`stalemate/repetition`).
+ * Timed games add `TimeControl` in seconds, as `180+2` for a Fischer
+ * increment or `300d3` for a Bronstein delay, and an imported game gets a
+ * full clock for it again; a game lost on time ends with the `timeout` token. Seeded games add `Seed`, the 32-bit seed the AI drew
+ * its random choices from, so an imported game plays on as it would have.
+ *
+ * The move text uses the notation from `notation.ts`, one numbered token per
+ * turn, and may end with the result. Text in braces is a comment. Importing
+ * replays every move through the rules engine and checks the result headers
+ * against the replayed game.
+ */
+
+export const GAME_RECORD_VERSION = 1;
+export const GAME_RECORD_EXTENSION = '.sgn';
+
+const VARIANT_FLAGS: Array<keyof VariantFlags> = ['firstMoveMustEnterCenter', 'antiShuttle', 'blockadeOneRemoval'];
+const DIFFICULTIES: AIDifficulty[] = ['beginner', 'easy', 'medium', 'hard'];
+const RESULTS = ['1-0', '0-1', '1/2-1/2', '*'];
+
+/**
+ * Result header for a game state
+ */
+export function formatResult(state: GameState): string {
+  if (state.winner === undefined) return '*';
+  if (state.winner === null) return '1/2-1/2';
+  return state.winner === 'Light' ? '1-0' : '0-1';
+}
+
+/**
+ * WinReason header for a finished game
+ */
+export function formatWinReason(reason: WinReason): string {
+  return reason.type === 'stalemate' ? `stalemate/${reason.drawType}` : reason.type;
+}
+
+/**
+ * TimeControl header: initial time in seconds, then `+increment` or `ddelay`
+ */
+export function formatTimeControl(control: TimeControl): string {
+  const initial = control.initial / 1000;
+  return control.delay > 0 ? `${initial}d${control.delay / 1000}` : `${initial}+${control.increment / 1000}`;
+}
+
+/**
+ * Read a TimeControl header back, the inverse of `formatTimeControl`
+ */
+export function parseTimeControl(text: string): TimeControl {
+  const match = /^(\d+(?:\.\d+)?)([+d])(\d+(?:\.\d+)?)$/.exec(text);
+  const initial = match ? Math.round(Number(match[1]) * 1000) : 0;
+  if (!match || initial <= 0) {
+    throw new Error(`Invalid TimeControl header "${text}": expected seconds as 180+2 or 300d3`);
+  }
+  const extra = Math.round(Number(match[3]) * 1000);
+  return match[2] === 'd'
+    ? { initial, increment: 0, delay: extra }
+    : { initial, increment: extra, delay: 0 };
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+}
+
+function escapeHeader(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Write a game as a record. The game must have been played from its starting
+ * position through `applyAction`, so its action history reproduces it.
+ */
+export function exportGameRecord(state: GameState, settings: GameSettings, date: Date = new Date()): string {
+  const start = startingPosition(state);
+  if (replay(start, state.actionHistory).hash !== state.hash) {
+    throw new Error('This game was saved before moves were recorded and cannot be exported');
+  }
+
+  const headers: Array<[string, string]> = [
+    ['Game', 'Seejeh'],
+    ['Version', GAME_RECORD_VERSION.toString()],
+    ['Date', formatDate(date)],
+    ['Light', settings.players.Light.type],
+    ['Dark', settings.players.Dark.type]
+  ];
+  const aiPlayer = (['Light', 'Dark'] as Player[]).find(player => settings.players[player].type === 'ai');
+  if (aiPlayer) {
+    headers.push(['AIDifficulty', settings.players[aiPlayer].difficulty ?? settings.aiDifficulty]);
+  }
+  headers.push(
+    ['BoardSize', state.rules.size.toString()],
+    ['Variant', VARIANT_FLAGS.filter(flag => state.variant[flag]).join(',')]
+  );
+  if (state.startPosition) {
+    headers.push(['Position', state.startPosition]);
+  }
+  if (state.clock) {
+    headers.push(['TimeControl', formatTimeControl(state.clock.control)]);
+  }
+  if (state.seed !== undefined) {
+    headers.push(['Seed', state.seed.toString()]);
+  }
+  headers.push(['Result', formatResult(state)]);
+  if (state.winReason) {
+    headers.push(['WinReason', formatWinReason(state.winReason)]);
+  }
+
+  const tokens = formatMoveList(start, state.actionHistory).map((move, index) => `${index + 1}. ${move}`);
+  tokens.push(formatResult(state));
+
+  // Wrap the move text at 80 columns
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + token.length + 1 > 80) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  lines.push(line);
+
+  return [
+    ...headers.map(([name, value]) => `[${name} "${escapeHeader(value)}"]`),
+    '',
+    ...lines,
+    ''
+  ].join('\n');
+}
+
+function parsePlayer(value: string | undefined, player: Player): PlayerConfig {
+  if (value === undefined || value === 'human') return { type: 'human' };
+  if (value === 'ai') return { type: 'ai' };
+  throw new Error(`Invalid ${player} header "${value}": expected "human" or "ai"`);
+}
+
+/**
+ * Read a game record, replaying its moves to rebuild the final position.
+ * Throws an error naming the header, line or move that is wrong.
+ */
+export function importGameRecord(text: string): GameRecord {
+  const headers: Record<string, string> = {};
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let lineIndex = 0;
+
+  for (; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex].trim();
+    if (!line) continue;
+    if (!line.startsWith('[')) break;
+
+    const match = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/.exec(line);
+    if (!match) {
+      throw new Error(`Line ${lineIndex + 1}: malformed header ${line}`);
+    }
+    headers[match[1]] = match[2].replace(/\\(.)/g, '$1');
+  }
+
+  if (headers.Game !== 'Seejeh') {
+    throw new Error('Not a Seejeh game record: missing [Game "Seejeh"] header');
+  }
+  const version = Number(headers.Version);
+  if (version !== GAME_RECORD_VERSION) {
+    throw new Error(`Unsupported game record version "${headers.Version ?? ''}" (expected ${GAME_RECORD_VERSION})`);
+  }
+
+  const boardSize = Number(headers.BoardSize ?? 7) as BoardSize;
+  if (!(boardSize in RULE_SETS)) {
+    throw new Error(`Invalid BoardSize header "${headers.BoardSize}": expected 5, 7 or 9`);
+  }
+
+  const variant: VariantFlags = { firstMoveMustEnterCenter: false, antiShuttle: false, blockadeOneRemoval: false };
+  for (const flag of (headers.Variant ?? '').split(',').map(f => f.trim()).filter(Boolean)) {
+    if (!VARIANT_FLAGS.includes(flag as keyof VariantFlags)) {
+      throw new Error(`Unknown variant flag "${flag}" in Variant header`);
+    }
+    variant[flag as keyof VariantFlags] = true;
+  }
+
+  const aiDifficulty = headers.AIDifficulty as AIDifficulty | undefined;
+  if (aiDifficulty !== undefined && !DIFFICULTIES.includes(aiDifficulty)) {
+    throw new Error(`Invalid AIDifficulty header "${aiDifficulty}"`);
+  }
+
+  const result = headers.Result ?? '*';
+  if (!RESULTS.includes(result)) {
+    throw new Error(`Invalid Result header "${result}"`);
+  }
+
+  // Move text: drop comments and move numbers, and a trailing result
+  const tokens = lines.slice(lineIndex).join(' ')
+    .replace(/\{[^}]*\}/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !/^\d+\.$/.test(token));
+  if (tokens.length > 0 && RESULTS.includes(tokens[tokens.length - 1])) {
+    const trailing = tokens.pop();
+    if (trailing !== result) {
+      throw new Error(`Move text ends with "${trailing}" but the Result header is "${result}"`);
+    }
+  }
+
+  let start = initialState(boardSize, variant);
+  if (headers.Position !== undefined) {
+    try {
+      start = { ...parsePosition(headers.Position), startPosition: headers.Position };
+    } catch (error) {
+      throw new Error(`Invalid Position header: ${(error as Error).message}`);
+    }
+    if (headers.BoardSize !== undefined && boardSize !== start.rules.size) {
+      throw new Error(`BoardSize header "${headers.BoardSize}" does not match the Position header, which is ${start.rules.size}x${start.rules.size}`);
+    }
+    if (headers.Variant !== undefined && VARIANT_FLAGS.some(flag => variant[flag] !== start.variant[flag])) {
+      const flags = VARIANT_FLAGS.filter(flag => start.variant[flag]).join(',');
+      throw new Error(`Variant header "${headers.Variant}" does not match the Position header, which has "${flags}"`);
+    }
+  }
+  if (headers.Seed !== undefined) {
+    const seed = Number(headers.Seed);
+    if (!/^\d+$/.test(headers.Seed) || seed > 0xffffffff) {
+      throw new Error(`Invalid Seed header "${headers.Seed}": expected a 32-bit unsigned integer`);
+    }
+    start = { ...start, seed };
+  }
+  const timeControl = headers.TimeControl !== undefined ? parseTimeControl(headers.TimeControl) : undefined;
+  const actions = parseMoveList(start, tokens);
+  const state = replay(start, actions);
+
+  const replayedResult = formatResult(state);
+  if (replayedResult !== result) {
+    throw new Error(`Result header "${result}" does not match the moves, which end ${replayedResult}`);
+  }
+  if (headers.WinReason !== undefined && state.winReason && headers.WinReason !== formatWinReason(state.winReason)) {
+    throw new Error(`WinReason header "${headers.WinReason}" does not match the moves, which end by ${formatWinReason(state.winReason)}`);
+  }
+
+  return {
+    version,
+    headers,
+    players: {
+      Light: parsePlayer(headers.Light, 'Light'),
+      Dark: parsePlayer(headers.Dark, 'Dark')
+    },
+    aiDifficulty,
+    boardSize: start.rules.size,
+    variant: start.variant,
+    date: headers.Date,
+    timeControl,
+    moves: tokens,
+    actions,
+    state
+  };
+}
@@ -0,0 +1,204 @@
+// FILE: src/lib/mcts.ts
+
+import { GameState, GameAction, Player } from './types';
+import { applyAction, legalActions, turnActions } from './actions';
+import { EvaluationWeights, evaluatePosition } from './evaluation';
+import { probeTablebase } from './tablebase';
+
+/**
+ * Monte Carlo tree search (UCT).
+ *
+ * Each iteration walks down the tree picking the child with the best upper
+ * confidence bound, expands one untried action, then plays a short random
+ * playout and scores where it ends with the evaluation function. Scores are
+ * win probabilities in [0, 1]; each node keeps the total for the player who
+ * made the action leading to it, so consecutive actions by the same player
+ * (chain captures) need no special handling.
+ *
+ * The move played is the most visited root child. Unlike alpha-beta this
+ * never looks at every placement, which suits the wide placement phase.
+ */
+
+export interface MCTSBudget {
+  iterations: number;
+  timeMs: number;
+}
+
+export interface MCTSOptions {
+  budget: MCTSBudget;
+  weights: EvaluationWeights;
+  exploration?: number; // UCT constant, √2 by default
+  playoutPlies?: number; // Random plies before a playout is scored
+  random?: () => number; // Random source for playouts and tie breaks
+  now?: () => number; // Clock for the time budget
+}
+
+export interface MCTSReport {
+  best: GameAction | null;
+  winRate: number; // Estimated chance the side to move wins with `best`
+  iterations: number;
+  pv: GameAction[]; // Most visited line, starting with `best`
+  elapsedMs: number;
+}
+
+interface TreeNode {
+  state: GameState;
+  action: GameAction | null; // Action from the parent, null at the root
+  parent: TreeNode | null;
+  children: TreeNode[];
+  untried: GameAction[];
+  visits: number;
+  total: number; // Sum of results for the player who moved into this node
+}
+
+// Iterations between reports, which is also how often the clock is checked
+const REPORT_INTERVAL = 100;
+const DEFAULT_PLAYOUT_PLIES = 6;
+// Evaluation difference that counts as a 73% winning chance (one logistic unit)
+const EVALUATION_SCALE = 200;
+
+function createNode(state: GameState, action: GameAction | null, parent: TreeNode | null): TreeNode {
+  return {
+    state,
+    action,
+    parent,
+    children: [],
+    untried: state.winner === undefined ? turnActions(state) : [],
+    visits: 0,
+    total: 0
+  };
+}
+
+/**
+ * Chance that `player` wins from `state`: exact for finished games and
+ * tablebase positions, a logistic of the evaluation otherwise
+ */
+function winProbability(state: GameState, player: Player, weights: EvaluationWeights): number {
+  if (state.winner !== undefined) {
+    if (state.winner === null) return 0.5;
+    return state.winner === player ? 1 : 0;
+  }
+  const known = probeTablebase(state);
+  if (known) {
+    if (known.result === 'draw') return 0.5;
+    return (known.result === 'win') === (state.current === player) ? 1 : 0;
+  }
+  return 1 / (1 + Math.exp(-evaluatePosition(state, player, weights) / EVALUATION_SCALE));
+}
+
+function selectChild(node: TreeNode, exploration: number): TreeNode {
+  const logVisits = Math.log(node.visits);
+  let best = node.children[0];
+  let bestValue = -Infinity;
+  for (const child of node.children) {
+    const value = child.total / child.visits + exploration * Math.sqrt(logVisits / child.visits);
+    if (value > bestValue) {
+      bestValue = value;
+      best = child;
+    }
+  }
+  return best;
+}
+
+function mostVisited(node: TreeNode): TreeNode | null {
+  let best: TreeNode | null = null;
+  for (const child of node.children) {
+    if (!best || child.visits > best.visits) {
+      best = child;
+    }
+  }
+  return best;
+}
+
+function principalVariation(root: TreeNode): GameAction[] {
+  const line: GameAction[] = [];
+  let node = mostVisited(root);
+  while (node && node.visits > 1) {
+    line.push(node.action!);
+    node = mostVisited(node);
+  }
+  return line;
+}
+
+/**
+ * Search `root` to the budget, yielding a report every few hundred
+ * iterations and returning the final one
+ */
+export function* monteCarloSearch(root: GameState, options: MCTSOptions): Generator<MCTSReport, MCTSReport, void> {
+  const now = options.now ?? Date.now;
+  const random = options.random ?? Math.random;
+  const exploration = options.exploration ?? Math.SQRT2;
+  const playoutPlies = options.playoutPlies ?? DEFAULT_PLAYOUT_PLIES;
+  const start = now();
+  const deadline = start + options.budget.timeMs;
+  const tree = createNode(root, null, null);
+
+  const report = (): MCTSReport => {
+    const best = mostVisited(tree);
+    return {
+      best: best?.action ?? tree.untried[0] ?? null,
+      winRate: best ? best.total / best.visits : 0.5,
+      iterations: tree.visits,
+      pv: principalVariation(tree),
+      elapsedMs: now() - start
+    };
+  };
+
+  // Nothing to choose between
+  if (tree.untried.length <= 1) {
+    return report();
+  }
+
+  while (tree.visits < options.budget.iterations) {
+    // Selection
+    let node = tree;
+    while (node.untried.length === 0 && node.children.length > 0) {
+      node = selectChild(node, exploration);
+    }
+
+    // Expansion
+    if (node.untried.length > 0) {
+      const index = Math.floor(random() * node.untried.length);
+      const [action] = node.untried.splice(index, 1);
+      const child = createNode(applyAction(node.state, action), action, node);
+      node.children.push(child);
+      node = child;
+    }
+
+    // Playout, one stone at a time since random pairs need no pairing
+    let state = node.state;
+    for (let ply = 0; ply < playoutPlies && state.winner === undefined; ply++) {
+      const actions = legalActions(state);
+      if (actions.length === 0) break;
+      state = applyAction(state, actions[Math.floor(random() * actions.length)]);
+    }
+    const lightWins = winProbability(state, 'Light', options.weights);
+
+    // Backpropagation
+    for (let current: TreeNode | null = node; current; current = current.parent) {
+      current.visits++;
+      if (current.parent) {
+        current.total += current.parent.state.current === 'Light' ? lightWins : 1 - lightWins;
+      }
+    }
+
+    if (tree.visits % REPORT_INTERVAL === 0) {
+      if (now() >= deadline) break;
+      yield report();
+    }
+  }
+
+  return report();
+}
+
+/**
+ * Run a search to completion and return its final report
+ */
+export function runMonteCarlo(root: GameState, options: MCTSOptions): MCTSReport {
+  const search = monteCarloSearch(root, options);
+  let step = search.next();
+  while (!step.done) {
+    step = search.next();
+  }
+  return step.value;
+}
@@ -0,0 +1,233 @@
+// FILE: src/lib/notation.ts
+
+import { GameState, GameAction, Cell } from './types';
+import { previewCaptures, movesFor, inBounds } from './rules';
+import { applyAction } from './actions';
+
+/**
+ * Compact move notation.
+ *
+ * Cells are written as a file letter and a rank number: columns a, b, c, ...
+ * from left to right and rows 1, 2, 3, ... from top to bottom, so the top-left
+ * corner is `a1` and the center of a 7x7 board is `d4`.
+ *
+ *   a1          place one stone
+ *   a1,b2       place both stones of a placement turn
+ *   c3-c4       move a stone
+ *   c3-c4x      move a stone and capture
+ *   c3-c4x-c6x  capture, then continue the chain from c4 to c6
+ *   end         stop a chain capture
+ *   pass        pass a blocked turn
+ *   *a1         remove one of your own stones to break a blockade
+ *   offer       offer a draw
+ *   decline     decline a draw offer
+ *   resign      the side to move resigns
+ *   timeout     the side to move ran out of time
+ *
+ * `formatAction`/`parseAction` work on single actions. `formatMoveList`/
+ * `parseMoveList` work on whole games, writing one token per turn: placement
+ * pairs and chain continuations are merged, and the `end` that closes a chain
+ * is left out when the opponent's move follows it.
+ */
+
+const FILES = 'abcdefghi';
+
+/**
+ * Format a cell as a coordinate like `c3`
+ */
+export function formatCell(cell: Cell): string {
+  return `${FILES[cell.c]}${cell.r + 1}`;
+}
+
+/**
+ * Parse a coordinate like `c3` into a cell on a board of the given size
+ */
+export function parseCell(text: string, size: number): Cell {
+  const match = /^([a-i])([1-9])$/.exec(text.trim().toLowerCase());
+  if (!match) {
+    throw new Error(`Invalid coordinate "${text}"`);
+  }
+
+  const cell = { r: Number(match[2]) - 1, c: FILES.indexOf(match[1]) };
+  if (!inBounds(cell, size)) {
+    throw new Error(`Coordinate "${text}" is off the ${size}x${size} board`);
+  }
+  return cell;
+}
+
+/**
+ * Format a single action played from `state`. The state is needed to mark
+ * captures and to name the stone that continues a chain.
+ */
+export function formatAction(state: GameState, action: GameAction): string {
+  switch (action.type) {
+    case 'place':
+      return action.cells.map(formatCell).join(',');
+
+    case 'move': {
+      const captures = previewCaptures(state, action.from, action.to);
+      return `${formatCell(action.from)}-${formatCell(action.to)}${captures.length > 0 ? 'x' : ''}`;
+    }
+
+    case 'chainStep': {
+      if (!state.chainOrigin) {
+        throw new Error('Not in chain capture mode');
+      }
+      const captures = previewCaptures(state, state.chainOrigin, action.to);
+      return `${formatCell(state.chainOrigin)}-${formatCell(action.to)}${captures.length > 0 ? 'x' : ''}`;
+    }
+
+    case 'endChain':
+      return 'end';
+
+    case 'pass':
+      return 'pass';
+
+    case 'removeBlockade':
+      return `*${formatCell(action.cell)}`;
+
+    case 'offerStalemate':
+      return 'offer';
+
+    case 'rejectStalemate':
+      return 'decline';
+
+    case 'resign':
+      return 'resign';
+
+    case 'timeout':
+      return 'timeout';
+  }
+}
+
+/**
+ * Parse a single action for the side to move in `state`. A move written while
+ * a chain capture is in progress becomes a chain step and must start from the
+ * capturing stone. A legal move's `x` must match whether it captures, and the
+ * two stones of a placement must go on different cells.
+ */
+export function parseAction(state: GameState, text: string): GameAction {
+  const token = text.trim().toLowerCase();
+  const { size } = state.rules;
+
+  switch (token) {
+    case 'end':
+      return { type: 'endChain' };
+    case 'pass':
+      return { type: 'pass' };
+    case 'offer':
+      return { type: 'offerStalemate' };
+    case 'decline':
+      return { type: 'rejectStalemate' };
+    case 'resign':
+      return { type: 'resign', player: state.current };
+    case 'timeout':
+      return { type: 'timeout', player: state.current };
+  }
+
+  if (token.startsWith('*')) {
+    return { type: 'removeBlockade', cell: parseCell(token.slice(1), size) };
+  }
+
+  if (token.includes('-')) {
+    const parts = token.split('-');
+    if (parts.length !== 2) {
+      throw new Error(`Invalid move notation "${text}": write one step per action`);
+    }
+    const from = parseCell(parts[0], size);
+    const to = parseCell(parts[1].replace(/x$/, ''), size);
+
+    if (state.phase === 'chain') {
+      if (!state.chainOrigin || state.chainOrigin.r !== from.r || state.chainOrigin.c !== from.c) {
+        throw new Error(`Invalid move notation "${text}": chain must continue from ${state.chainOrigin ? formatCell(state.chainOrigin) : 'the capturing stone'}`);
+      }
+    }
+
+    // Illegal steps are left for the rules to reject with their own reason
+    if (movesFor(state, from).some(cell => cell.r === to.r && cell.c === to.c)) {
+      const captures = previewCaptures(state, from, to).length > 0;
+      if (captures !== parts[1].endsWith('x')) {
+        throw new Error(`Invalid move notation "${text}": ${captures ? 'the move captures, so it must end in x' : 'the move captures nothing, so it cannot end in x'}`);
+      }
+    }
+    return state.phase === 'chain' ? { type: 'chainStep', to } : { type: 'move', from, to };
+  }
+
+  const cells = token.split(',').map(part => parseCell(part, size));
+  if (cells.length > 2) {
+    throw new Error(`Invalid move notation "${text}": at most two stones per placement`);
+  }
+  if (cells.length === 2 && cells[0].r === cells[1].r && cells[0].c === cells[1].c) {
+    throw new Error(`Invalid move notation "${text}": both stones on the same cell`);
+  }
+  return { type: 'place', cells };
+}
+
+/**
+ * Format a game as one token per turn, replaying `actions` from `initial`
+ */
+export function formatMoveList(initial: GameState, actions: GameAction[]): string[] {
+  const tokens: string[] = [];
+  let state = initial;
+  let turnOpen = false; // The last token can still grow (first stone placed, chain in progress)
+
+  actions.forEach((action, index) => {
+    const text = formatAction(state, action);
+
+    if (turnOpen && action.type === 'place') {
+      tokens[tokens.length - 1] += `,${text}`;
+    } else if (turnOpen && action.type === 'chainStep') {
+      tokens[tokens.length - 1] += `-${text.split('-')[1]}`;
+    } else if (!(turnOpen && action.type === 'endChain' && actions[index + 1]?.type === 'move')) {
+      // The end of a chain is implied when the opponent's move follows it
+      tokens.push(text);
+    }
+
+    state = applyAction(state, action);
+    turnOpen = (state.phase === 'placement' && state.placementCount === 1) ||
+      (state.phase === 'chain' && (action.type === 'move' || action.type === 'chainStep'));
+  });
+
+  return tokens;
+}
+
+/**
+ * Parse a move list written by `formatMoveList` (tokens separated by spaces,
+ * optionally with move numbers like `1.`) into actions, validating each one
+ * by applying it. Errors name the offending token.
+ */
+export function parseMoveList(initial: GameState, text: string | string[]): GameAction[] {
+  const tokens = (Array.isArray(text) ? text : text.split(/\s+/))
+    .filter(token => token && !/^\d+\.$/.test(token));
+
+  const actions: GameAction[] = [];
+  let state = initial;
+  const apply = (action: GameAction) => {
+    state = applyAction(state, action);
+    actions.push(action);
+  };
+
+  tokens.forEach((token, index) => {
+    try {
+      const steps = token.split('-');
+
+      // A move that does not continue the chain means the chain was ended
+      if (steps.length > 1 && state.phase === 'chain' && !isChainOrigin(state, steps[0])) {
+        apply({ type: 'endChain' });
+      }
+
+      apply(parseAction(state, steps.length > 2 ? `${steps[0]}-${steps[1]}` : token));
+      for (let i = 2; i < steps.length; i++) {
+        apply(parseAction(state, `${steps[i - 1].replace(/x$/, '')}-${steps[i]}`));
+      }
+    } catch (error) {
+      throw new Error(`Move ${index + 1} "${token}": ${(error as Error).message}`);
+    }
+  });
+
+  return actions;
+}
+
+function isChainOrigin(state: GameState, text: string): boolean {
+  return state.chainOrigin !== undefined && formatCell(state.chainOrigin) === text.trim().toLowerCase();
+}
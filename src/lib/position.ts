@@ -0,0 +1,216 @@
+// FILE: src/lib/position.ts
+
+import { GameState, Phase, Player, VariantFlags, BoardSize } from './types';
+import { initialState, countStones, RULE_SETS } from './rules';
+import { hashPosition } from './zobrist';
+import { formatCell, parseCell } from './notation';
+
+/**
+ * One-line position strings, in the spirit of chess FEN.
+ *
+ *   LL5/7/7/7/7/7/7 D placement 22,24 0 - b
+ *
+ * Seven space-separated fields:
+ *   1. Board rows from top to bottom, separated by `/`. `L` and `D` are
+ *      stones, digits are runs of empty cells. The row count is the board size.
+ *   2. Side to move: `L` or `D`.
+ *   3. Phase: `placement`, `movement` or `chain`.
+ *   4. Stones still to place as `light,dark`.
+ *   5. Stones already placed this turn (0 or 1).
+ *   6. The capturing stone during a chain, e.g. `c4`, or `-`.
+ *   7. Enabled variant flags: `c` first move must enter the center,
+ *      `s` anti-shuttle, `b` blockade removal; `-` for none.
+ */
+
+const VARIANT_LETTERS: Array<[keyof VariantFlags, string]> = [
+  ['firstMoveMustEnterCenter', 'c'],
+  ['antiShuttle', 's'],
+  ['blockadeOneRemoval', 'b']
+];
+const PHASES: Phase[] = ['placement', 'movement', 'chain'];
+
+/**
+ * Write the position string for a state
+ */
+export function formatPosition(state: GameState): string {
+  const rows = state.board.map(row => {
+    let text = '';
+    let empty = 0;
+    for (const cell of row) {
+      if (cell === null) {
+        empty++;
+        continue;
+      }
+      if (empty > 0) text += empty;
+      empty = 0;
+      text += cell === 'Light' ? 'L' : 'D';
+    }
+    return empty > 0 ? text + empty : text;
+  });
+
+  const flags = VARIANT_LETTERS.filter(([flag]) => state.variant[flag]).map(([, letter]) => letter).join('');
+
+  return [
+    rows.join('/'),
+    state.current === 'Light' ? 'L' : 'D',
+    state.phase,
+    `${state.stonesToPlace.Light},${state.stonesToPlace.Dark}`,
+    state.placementCount,
+    state.phase === 'chain' && state.chainOrigin ? formatCell(state.chainOrigin) : '-',
+    flags || '-'
+  ].join(' ');
+}
+
+/**
+ * Read a position string into a fresh game state. The result is validated
+ * with `validatePosition`, so impossible positions throw.
+ */
+export function parsePosition(text: string): GameState {
+  const fields = text.trim().split(/\s+/);
+  if (fields.length !== 7) {
+    throw new Error(`Position must have 7 fields, found ${fields.length}`);
+  }
+  const [boardField, sideField, phaseField, toPlaceField, countField, originField, flagsField] = fields;
+
+  const rowTexts = boardField.split('/');
+  const size = rowTexts.length as BoardSize;
+  if (!(size in RULE_SETS)) {
+    throw new Error(`Board must have 5, 7 or 9 rows, found ${rowTexts.length}`);
+  }
+
+  const board = rowTexts.map((rowText, r) => {
+    const row: Array<Player | null> = [];
+    for (const char of rowText) {
+      if (char === 'L' || char === 'D') {
+        row.push(char === 'L' ? 'Light' : 'Dark');
+      } else if (/[1-9]/.test(char)) {
+        row.push(...Array<null>(Number(char)).fill(null));
+      } else {
+        throw new Error(`Row ${r + 1}: unexpected "${char}"`);
+      }
+    }
+    if (row.length !== size) {
+      throw new Error(`Row ${r + 1} has ${row.length} cells, expected ${size}`);
+    }
+    return row;
+  });
+
+  if (sideField !== 'L' && sideField !== 'D') {
+    throw new Error(`Side to move must be L or D, found "${sideField}"`);
+  }
+  if (!PHASES.includes(phaseField as Phase)) {
+    throw new Error(`Unknown phase "${phaseField}"`);
+  }
+
+  const toPlace = /^(\d+),(\d+)$/.exec(toPlaceField);
+  if (!toPlace) {
+    throw new Error(`Stones to place must be written as light,dark, found "${toPlaceField}"`);
+  }
+  if (countField !== '0' && countField !== '1') {
+    throw new Error(`Stones placed this turn must be 0 or 1, found "${countField}"`);
+  }
+
+  const variant: Partial<VariantFlags> = {};
+  for (const [flag, letter] of VARIANT_LETTERS) {
+    variant[flag] = flagsField.includes(letter);
+  }
+  const unknownFlag = flagsField.replace(/[csb-]/g, '');
+  if (unknownFlag) {
+    throw new Error(`Unknown variant flag "${unknownFlag[0]}"`);
+  }
+
+  const state = initialState(size, variant);
+  state.board = board;
+  state.current = sideField === 'L' ? 'Light' : 'Dark';
+  state.phase = phaseField as Phase;
+  state.stonesToPlace = { Light: Number(toPlace[1]), Dark: Number(toPlace[2]) };
+  state.placementCount = Number(countField);
+  state.chainOrigin = originField === '-' ? undefined : parseCell(originField, size);
+
+  validatePosition(state);
+
+  state.hash = hashPosition(state);
+  state.positionHistory = [state.hash];
+  return state;
+}
+
+/**
+ * Reject positions that cannot arise in a game: stones on the center during
+ * placement, more stones than a player ever had, placement counts that do
+ * not fit the turn order, or a game that is already decided
+ */
+export function validatePosition(state: GameState): void {
+  const { size, stonesPerPlayer, winThreshold } = state.rules;
+  const onBoard = { Light: countStones(state, 'Light'), Dark: countStones(state, 'Dark') };
+
+  for (const player of ['Light', 'Dark'] as Player[]) {
+    if (state.stonesToPlace[player] < 0 || state.stonesToPlace[player] > stonesPerPlayer) {
+      throw new Error(`${player} cannot have ${state.stonesToPlace[player]} stones to place (each player has ${stonesPerPlayer})`);
+    }
+    if (onBoard[player] + state.stonesToPlace[player] > stonesPerPlayer) {
+      throw new Error(`${player} has ${onBoard[player]} stones on the board and ${state.stonesToPlace[player]} to place, more than the ${stonesPerPlayer} they started with`);
+    }
+  }
+
+  if (state.phase === 'placement') {
+    const center = Math.floor(size / 2);
+    if (state.board[center][center] !== null) {
+      throw new Error('The center must stay empty during placement');
+    }
+
+    // Nothing is captured during placement, so every placed stone is still on the board
+    for (const player of ['Light', 'Dark'] as Player[]) {
+      const placed = stonesPerPlayer - state.stonesToPlace[player];
+      if (onBoard[player] !== placed) {
+        throw new Error(`${player} has placed ${placed} stones but ${onBoard[player]} are on the board`);
+      }
+    }
+    if (state.stonesToPlace.Light === 0 && state.stonesToPlace.Dark === 0) {
+      throw new Error('Placement is over once both players have placed every stone');
+    }
+
+    // Light places first, two stones per turn
+    const lead = onBoard.Light - onBoard.Dark;
+    const expectedLead = state.current === 'Light' ? state.placementCount : (state.placementCount === 1 ? 1 : 2);
+    if (lead !== expectedLead) {
+      throw new Error(`Light has placed ${onBoard.Light} stones and Dark ${onBoard.Dark}, which cannot happen with ${state.current} to place ${state.placementCount === 1 ? 'a second' : 'the first'} stone`);
+    }
+  } else {
+    if (state.stonesToPlace.Light > 0 || state.stonesToPlace.Dark > 0) {
+      throw new Error(`Stones are still to be placed, so the game cannot be in the ${state.phase} phase`);
+    }
+    if (state.placementCount !== 0) {
+      throw new Error('Stones placed this turn must be 0 after the placement phase');
+    }
+    for (const player of ['Light', 'Dark'] as Player[]) {
+      if (onBoard[player] <= winThreshold) {
+        throw new Error(`${player} has only ${onBoard[player]} stones, so the game would already be over`);
+      }
+    }
+  }
+
+  if (state.phase === 'chain') {
+    const origin = state.chainOrigin;
+    if (!origin) {
+      throw new Error('A chain capture needs the capturing stone');
+    }
+    if (state.board[origin.r][origin.c] !== state.current) {
+      throw new Error(`The capturing stone on ${formatCell(origin)} must belong to ${state.current}`);
+    }
+  } else if (state.chainOrigin) {
+    throw new Error('Only a chain capture has a capturing stone');
+  }
+}
+
+/**
+ * The position a game started from: the set-up position if it has one,
+ * otherwise the standard empty board for its size and variant. The game's
+ * seed carries over, so replaying from here repeats the AI's choices.
+ */
+export function startingPosition(state: GameState): GameState {
+  const start = state.startPosition
+    ? { ...parsePosition(state.startPosition), startPosition: state.startPosition }
+    : initialState(state.rules.size, state.variant);
+  return state.seed === undefined ? start : { ...start, seed: state.seed };
+}
+
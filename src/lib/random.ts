@@ -0,0 +1,46 @@
+// FILE: src/lib/random.ts
+
+/**
+ * Seeded pseudo-random numbers (mulberry32). The same seed always gives the
+ * same sequence, so games and matches that draw from it can be replayed.
+ */
+
+export type Random = () => number;
+
+/**
+ * A random source returning numbers in [0, 1) from a 32-bit seed
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A fresh 32-bit seed for a new game. This is the one place the game draws
+ * unseeded randomness; everything else derives from the seed.
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * A seed for one use of a game's seed, such as the AI's turn at a given ply.
+ * Each combination of parts gets an unrelated stream, so draws made for one
+ * turn never shift the numbers seen by another.
+ */
+export function deriveSeed(seed: number, ...parts: number[]): number {
+  let hash = seed >>> 0;
+  for (const part of parts) {
+    hash = Math.imul(hash ^ (part >>> 0), 0x9e3779b1) >>> 0;
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b) >>> 0;
+    hash ^= hash >>> 13;
+  }
+  return hash >>> 0;
+}
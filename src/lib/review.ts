@@ -0,0 +1,253 @@
+// FILE: src/lib/review.ts
+
+import { GameState, GameAction, Player, AIDifficulty } from './types';
+import { applyAction, turnActions } from './actions';
+import { iterativeDeepening, terminalScore, SearchBudget } from './engine';
+import { difficultyWeights, runSearch, Search } from './ai';
+import { formatMoveList } from './notation';
+import { evaluatePosition } from './evaluation';
+
+/**
+ * Post-game review: every turn of a finished game is scored by how much of
+ * the mover's winning chance it gave away, measured by searching the
+ * positions before and after it with the strongest engine settings.
+ *
+ * Scores become winning chances with a logistic curve, so a stone lost in
+ * an even position costs more than one lost in a won or lost game. A turn's
+ * loss is the drop in its mover's winning chance, in percentage points, and
+ * its accuracy follows from that loss on a 0-100 scale. A player's accuracy
+ * is the mean over their turns.
+ */
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export const MOVE_CLASSIFICATIONS: MoveClassification[] = ['best', 'good', 'inaccuracy', 'mistake', 'blunder'];
+
+export interface ReviewedMove {
+  player: Player;
+  notation: string; // The turn as played, one move list token
+  best: string | null; // The engine's choice in the same position
+  actionIndex: number; // Index in the action history of the turn's first action
+  evaluation: number; // Engine score after the turn, for Light
+  winChance: number; // Light's winning chance after the turn, in percent
+  loss: number; // Winning chance the mover gave away, in percentage points
+  classification: MoveClassification;
+  accuracy: number; // 0-100
+}
+
+export interface GameReview {
+  moves: ReviewedMove[];
+  initialEvaluation: number; // Engine score of the starting position, for Light
+  initialWinChance: number;
+  accuracy: Record<Player, number | null>; // Null for a player without turns
+  counts: Record<Player, Record<MoveClassification, number>>;
+}
+
+export interface ReviewOptions {
+  difficulty?: AIDifficulty; // Whose evaluation weights score positions; hard by default
+  timeMs?: number; // Search time per position
+  maxDepth?: number;
+}
+
+// Search time per position, short enough to review a long game in under a minute
+const REVIEW_TIME_MS = 300;
+const REVIEW_MAX_DEPTH = 8;
+
+// Steepness of the score to winning chance curve: a stone up is about 60%
+const WIN_CHANCE_SCALE = 0.04;
+
+// Each classification covers losses below its limit, in percentage points
+const CLASSIFICATION_LIMITS: Array<[MoveClassification, number]> = [
+  ['best', 1],
+  ['good', 5],
+  ['inaccuracy', 10],
+  ['mistake', 20]
+];
+
+// Forced turns played out before a position is scored statically instead
+const MAX_FORCED_TURNS = 8;
+
+// Actions that are not moves on the board and take no part in the review
+const OFF_BOARD_ACTIONS: Array<GameAction['type']> = ['offerStalemate', 'rejectStalemate', 'resign', 'timeout'];
+
+/**
+ * Light's winning chance in percent for an engine score from Light's side
+ */
+export function winChance(score: number): number {
+  return 100 / (1 + Math.exp(-WIN_CHANCE_SCALE * score));
+}
+
+/**
+ * Light's winning chance from the static evaluation of a position, cheap
+ * enough to follow the game move by move
+ */
+export function positionWinChance(state: GameState, difficulty: AIDifficulty = 'hard'): number {
+  if (state.winner !== undefined) {
+    return state.winner === null ? 50 : state.winner === 'Light' ? 100 : 0;
+  }
+  return winChance(evaluatePosition(state, 'Light', difficultyWeights(difficulty)));
+}
+
+/**
+ * The label for a turn that gave away `loss` percentage points
+ */
+export function classifyLoss(loss: number): MoveClassification {
+  const limit = CLASSIFICATION_LIMITS.find(([, max]) => loss < max);
+  return limit ? limit[0] : 'blunder';
+}
+
+/**
+ * Accuracy of a turn that gave away `loss` percentage points: 100 for no
+ * loss, falling off exponentially so that a 50-point blunder scores about 8
+ */
+export function moveAccuracy(loss: number): number {
+  const accuracy = 103.1668 * Math.exp(-0.04354 * loss) - 3.1669;
+  return Math.min(100, Math.max(0, accuracy));
+}
+
+/**
+ * A game's actions grouped into turns: each run of board actions by one
+ * player, with the index of its first action
+ */
+function splitTurns(start: GameState, actions: GameAction[]): Array<{ index: number; before: GameState; actions: GameAction[] }> {
+  const turns: Array<{ index: number; before: GameState; actions: GameAction[] }> = [];
+  let state = start;
+
+  actions.forEach((action, index) => {
+    if (!OFF_BOARD_ACTIONS.includes(action.type)) {
+      const last = turns[turns.length - 1];
+      if (last && last.before.current === state.current && last.index + last.actions.length === index) {
+        last.actions.push(action);
+      } else {
+        turns.push({ index, before: state, actions: [action] });
+      }
+    }
+    state = applyAction(state, action);
+  });
+
+  return turns;
+}
+
+/**
+ * Placements list their stones in either order; compare them sorted
+ */
+function sameTurn(played: string, best: string | null): boolean {
+  const normalize = (token: string) => token.includes('-') ? token : token.split(',').sort().join(',');
+  return best !== null && normalize(played) === normalize(best);
+}
+
+/**
+ * Engine score of a position for Light and the engine's choice there.
+ * Forced turns are played out, as the engine only scores real choices.
+ */
+function* scorePosition(
+  state: GameState,
+  budget: SearchBudget,
+  difficulty: AIDifficulty,
+  forced: number = 0
+): Generator<void, { score: number; best: string | null }, void> {
+  if (state.winner !== undefined) {
+    return { score: terminalScore(state, 'Light', 0), best: null };
+  }
+
+  const weights = difficultyWeights(difficulty);
+  const actions = turnActions(state);
+  if (actions.length === 0 || (actions.length === 1 && forced >= MAX_FORCED_TURNS)) {
+    return { score: evaluatePosition(state, 'Light', weights), best: null };
+  }
+  if (actions.length === 1) {
+    const { score } = yield* scorePosition(applyAction(state, actions[0]), budget, difficulty, forced + 1);
+    return { score, best: formatMoveList(state, actions)[0] };
+  }
+
+  const search = iterativeDeepening(state, { budget, weights });
+  let step = search.next();
+  while (!step.done) {
+    yield;
+    step = search.next();
+  }
+  const report = step.value;
+  const score = state.current === 'Light' ? report.score : -report.score;
+  return { score, best: report.pv.length > 0 ? formatMoveList(state, report.pv)[0] : null };
+}
+
+/**
+ * Review the game played from `start` through `actions`, yielding between
+ * search steps. Progress counts positions searched.
+ */
+export function* searchGameReview(start: GameState, actions: GameAction[], options: ReviewOptions = {}): Search<GameReview> {
+  const difficulty = options.difficulty ?? 'hard';
+  const budget: SearchBudget = {
+    maxDepth: options.maxDepth ?? REVIEW_MAX_DEPTH,
+    timeMs: options.timeMs ?? REVIEW_TIME_MS
+  };
+  const turns = splitTurns(start, actions);
+
+  // The position before each turn, then the one after the last board move
+  const last = turns[turns.length - 1];
+  const positions = turns.map(turn => turn.before);
+  positions.push(last ? last.actions.reduce(applyAction, last.before) : start);
+
+  const scored: Array<{ score: number; best: string | null }> = [];
+  for (const position of positions) {
+    const search = scorePosition(position, budget, difficulty);
+    let step = search.next();
+    while (!step.done) {
+      yield { searched: scored.length, total: positions.length, bestMove: null };
+      step = search.next();
+    }
+    scored.push(step.value);
+  }
+
+  const counts = {
+    Light: Object.fromEntries(MOVE_CLASSIFICATIONS.map(label => [label, 0])),
+    Dark: Object.fromEntries(MOVE_CLASSIFICATIONS.map(label => [label, 0]))
+  } as GameReview['counts'];
+  const accuracies: Record<Player, number[]> = { Light: [], Dark: [] };
+
+  const moves = turns.map((turn, index): ReviewedMove => {
+    const player = turn.before.current;
+    const notation = formatMoveList(turn.before, turn.actions)[0];
+    const best = scored[index].best;
+    const before = winChance(scored[index].score);
+    const after = winChance(scored[index + 1].score);
+    const drop = player === 'Light' ? before - after : after - before;
+
+    // The engine's own choice is best even where a deeper look after it disagrees
+    const loss = sameTurn(notation, best) ? 0 : Math.max(0, drop);
+    const classification = classifyLoss(loss);
+    const accuracy = moveAccuracy(loss);
+    counts[player][classification]++;
+    accuracies[player].push(accuracy);
+
+    return {
+      player,
+      notation,
+      best,
+      actionIndex: turn.index,
+      evaluation: scored[index + 1].score,
+      winChance: after,
+      loss,
+      classification,
+      accuracy
+    };
+  });
+
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+  return {
+    moves,
+    initialEvaluation: scored[0].score,
+    initialWinChance: winChance(scored[0].score),
+    accuracy: { Light: mean(accuracies.Light), Dark: mean(accuracies.Dark) },
+    counts
+  };
+}
+
+/**
+ * Review a game synchronously
+ */
+export function reviewGame(start: GameState, actions: GameAction[], options: ReviewOptions = {}): GameReview {
+  return runSearch(searchGameReview(start, actions, options));
+}
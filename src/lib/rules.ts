@@ -5,34 +5,44 @@ import {
   Player, 
   Cell, 
   VariantFlags, 
+  BoardSize,
+  RuleSet,
   CaptureResult, 
   MoveRecord,
   WinReason
 } from './types';
+import { hashPosition, toggleStone, updateMetaHash } from './zobrist';
 
-const BOARD_SIZE = 7;
-const STONES_PER_PLAYER = 24;
-const WIN_THRESHOLD = 7;
+export const RULE_SETS: Record<BoardSize, RuleSet> = {
+  5: { size: 5, stonesPerPlayer: 12, winThreshold: 3, repetitionLimit: 3 },
+  7: { size: 7, stonesPerPlayer: 24, winThreshold: 7, repetitionLimit: 3 },
+  9: { size: 9, stonesPerPlayer: 40, winThreshold: 12, repetitionLimit: 3 }
+};
+
+export const DEFAULT_BOARD_SIZE: BoardSize = 7;
 
 /**
- * Creates initial game state for 7x7 Seejeh
+ * Creates initial game state for a Seejeh board of the given size
  */
-export function initialState7x7(variant: Partial<VariantFlags> = {}): GameState {
+export function initialState(size: BoardSize = DEFAULT_BOARD_SIZE, variant: Partial<VariantFlags> = {}): GameState {
   const defaultVariant: VariantFlags = {
     firstMoveMustEnterCenter: false,
     antiShuttle: false,
     blockadeOneRemoval: true
   };
+  const rules = RULE_SETS[size];
 
-  return {
-    board: Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill(null)),
+  const state: GameState = {
+    rules,
+    board: Array(rules.size).fill(null).map(() => Array(rules.size).fill(null)),
     current: 'Light',
     phase: 'placement',
     stonesToPlace: {
-      Light: STONES_PER_PLAYER,
-      Dark: STONES_PER_PLAYER
+      Light: rules.stonesPerPlayer,
+      Dark: rules.stonesPerPlayer
     },
     moveHistory: [],
+    actionHistory: [],
     variant: { ...defaultVariant, ...variant },
     placementCount: 0,
     capturedLastMove: [],
@@ -40,29 +50,41 @@ export function initialState7x7(variant: Partial<VariantFlags> = {}): GameState
       Light: false,
       Dark: false
     },
+    hash: 0,
+    positionHistory: [],
     moveRepetition: 0
   };
+  state.hash = hashPosition(state);
+  state.positionHistory = [state.hash];
+  return state;
+}
+
+/**
+ * Creates initial game state for 7x7 Seejeh
+ */
+export function initialState7x7(variant: Partial<VariantFlags> = {}): GameState {
+  return initialState(7, variant);
 }
 
 /**
  * Check if a cell is the center of the board
  */
-export function isCenter(cell: Cell): boolean {
-  const center = Math.floor(BOARD_SIZE / 2);
+export function isCenter(cell: Cell, size: number = DEFAULT_BOARD_SIZE): boolean {
+  const center = Math.floor(size / 2);
   return cell.r === center && cell.c === center;
 }
 
 /**
  * Check if a cell is within board bounds
  */
-export function inBounds(cell: Cell): boolean {
-  return cell.r >= 0 && cell.r < BOARD_SIZE && cell.c >= 0 && cell.c < BOARD_SIZE;
+export function inBounds(cell: Cell, size: number = DEFAULT_BOARD_SIZE): boolean {
+  return cell.r >= 0 && cell.r < size && cell.c >= 0 && cell.c < size;
 }
 
 /**
  * Get orthogonal neighbors of a cell
  */
-export function neighbors(cell: Cell): Cell[] {
+export function neighbors(cell: Cell, size: number = DEFAULT_BOARD_SIZE): Cell[] {
   const directions = [
     { r: -1, c: 0 }, // up
     { r: 1, c: 0 },  // down
@@ -72,7 +94,7 @@ export function neighbors(cell: Cell): Cell[] {
   
   return directions
     .map(dir => ({ r: cell.r + dir.r, c: cell.c + dir.c }))
-    .filter(inBounds);
+    .filter(neighbor => inBounds(neighbor, size));
 }
 
 /**
@@ -82,11 +104,11 @@ export function placementsFor(state: GameState, player: Player): Cell[] {
   if (state.phase !== 'placement') return [];
   
   const legal: Cell[] = [];
-  for (let r = 0; r < BOARD_SIZE; r++) {
-    for (let c = 0; c < BOARD_SIZE; c++) {
+  for (let r = 0; r < state.rules.size; r++) {
+    for (let c = 0; c < state.rules.size; c++) {
       const cell = { r, c };
       // Cannot place in center during placement phase
-      if (!isCenter(cell) && state.board[r][c] === null) {
+      if (!isCenter(cell, state.rules.size) && state.board[r][c] === null) {
         legal.push(cell);
       }
     }
@@ -99,15 +121,16 @@ export function placementsFor(state: GameState, player: Player): Cell[] {
  */
 export function movesFor(state: GameState, from: Cell): Cell[] {
   if (state.phase === 'placement') return [];
-  if (!inBounds(from) || state.board[from.r][from.c] !== state.current) return [];
+  if (!inBounds(from, state.rules.size) || state.board[from.r][from.c] !== state.current) return [];
   
-  return neighbors(from).filter(to => state.board[to.r][to.c] === null);
+  return neighbors(from, state.rules.size).filter(to => state.board[to.r][to.c] === null);
 }
 
 /**
- * Apply placement of stones during placement phase
+ * Apply placement of stones during placement phase. Passing a single cell
+ * places one stone and leaves the turn open for the second.
  */
-export function applyPlacement(state: GameState, cell1: Cell, cell2: Cell): GameState {
+export function applyPlacement(state: GameState, cell1: Cell, cell2?: Cell): GameState {
   if (state.phase !== 'placement') {
     throw new Error('Not in placement phase');
   }
@@ -116,25 +139,30 @@ export function applyPlacement(state: GameState, cell1: Cell, cell2: Cell): Game
     throw new Error('Already placed 2 stones this turn');
   }
   
-  const placements = [cell1, cell2].filter(Boolean);
+  const placements = [cell1, cell2].filter((cell): cell is Cell => Boolean(cell));
   const newState = { ...state };
   
   // Validate each placement
   for (const cell of placements) {
-    if (!inBounds(cell)) {
+    if (!inBounds(cell, state.rules.size)) {
       throw new Error('Cell out of bounds');
     }
-    if (isCenter(cell)) {
+    if (isCenter(cell, state.rules.size)) {
       throw new Error('Cannot place in center during placement phase');
     }
     if (state.board[cell.r][cell.c] !== null) {
       throw new Error('Cell already occupied');
     }
   }
+  if (cell2 && cell1.r === cell2.r && cell1.c === cell2.c) {
+    throw new Error('Cannot place both stones on the same cell');
+  }
   
   // Apply placements
   newState.board = state.board.map(row => [...row]);
+  let hash = state.hash;
   for (const cell of placements) {
+    hash = toggleStone(hash, state.rules.size, cell, state.current);
     newState.board[cell.r][cell.c] = state.current;
   }
   
@@ -155,6 +183,11 @@ export function applyPlacement(state: GameState, cell1: Cell, cell2: Cell): Game
     }
   }
   
+  newState.hash = updateMetaHash(hash, state, newState);
+  // Placed stones never leave during placement, so no earlier position can recur
+  newState.positionHistory = [newState.hash];
+  newState.moveRepetition = 0;
+  
   return newState;
 }
 
@@ -166,7 +199,7 @@ export function applyMove(state: GameState, from: Cell, to: Cell): GameState {
     throw new Error('Still in placement phase');
   }
   
-  if (!inBounds(from) || !inBounds(to)) {
+  if (!inBounds(from, state.rules.size) || !inBounds(to, state.rules.size)) {
     throw new Error('Cells out of bounds');
   }
   
@@ -188,7 +221,7 @@ export function applyMove(state: GameState, from: Cell, to: Cell): GameState {
   // Apply first move center constraint if enabled
   if (state.variant.firstMoveMustEnterCenter && 
       state.moveHistory.length === 0 && 
-      !isCenter(to)) {
+      !isCenter(to, state.rules.size)) {
     throw new Error('First move must enter center');
   }
   
@@ -220,6 +253,8 @@ export function applyMove(state: GameState, from: Cell, to: Cell): GameState {
   // Move the piece
   newState.board[from.r][from.c] = null;
   newState.board[to.r][to.c] = state.current;
+  let hash = toggleStone(state.hash, state.rules.size, from, state.current);
+  hash = toggleStone(hash, state.rules.size, to, state.current);
   
   // Record the move
   const moveRecord: MoveRecord = {
@@ -235,28 +270,26 @@ export function applyMove(state: GameState, from: Cell, to: Cell): GameState {
   newState.capturedLastMove = captureResult.captured;
   
   // Remove captured pieces
+  const opponent = state.current === 'Light' ? 'Dark' : 'Light';
   for (const captured of captureResult.captured) {
     newState.board[captured.r][captured.c] = null;
+    hash = toggleStone(hash, state.rules.size, captured, opponent);
   }
   
-  // Track board repetition for stalemate detection
-  const currentBoardHash = createBoardHash(newState);
-  if (currentBoardHash === state.lastBoardHash) {
-    newState.moveRepetition = state.moveRepetition + 1;
-  } else {
-    newState.moveRepetition = 0;
-  }
-  newState.lastBoardHash = currentBoardHash;
-  
   // If captures were made, enter chain mode with same player
   if (captureResult.captured.length > 0) {
     newState.phase = 'chain';
     newState.chainOrigin = to;
   } else {
     // No captures, end turn
-    newState.current = state.current === 'Light' ? 'Dark' : 'Light';
+    newState.current = opponent;
   }
   
+  // Track position occurrences for repetition detection. A capture is
+  // irreversible, so positions before it can never recur.
+  newState.hash = updateMetaHash(hash, state, newState);
+  recordPosition(newState, state, captureResult.captured.length > 0);
+  
   // Check win condition
   const winResult = checkWin(newState);
   if (winResult) {
@@ -281,7 +314,9 @@ export function applyChainStep(state: GameState, to: Cell): GameState {
     throw new Error('Not in chain capture mode');
   }
   
-  return applyMove({ ...state, phase: 'movement' }, state.chainOrigin, to);
+  const movementState: GameState = { ...state, phase: 'movement' };
+  movementState.hash = updateMetaHash(state.hash, state, movementState);
+  return applyMove(movementState, state.chainOrigin, to);
 }
 
 /**
@@ -292,12 +327,54 @@ export function endChain(state: GameState): GameState {
     throw new Error('Not in chain mode');
   }
   
-  return {
+  const newState: GameState = {
     ...state,
     phase: 'movement',
     current: state.current === 'Light' ? 'Dark' : 'Light',
     chainOrigin: undefined
   };
+  newState.hash = updateMetaHash(state.hash, state, newState);
+  recordPosition(newState, state, false);
+  
+  return newState;
+}
+
+/**
+ * Pass the turn when the current player has no legal move
+ */
+export function passTurn(state: GameState): GameState {
+  if (state.phase !== 'movement') {
+    throw new Error('Can only pass during movement phase');
+  }
+  
+  if (hasAnyLegalMove(state, state.current)) {
+    throw new Error('You have available moves');
+  }
+  
+  const newState: GameState = {
+    ...state,
+    current: state.current === 'Light' ? 'Dark' : 'Light',
+    capturedLastMove: []
+  };
+  newState.hash = updateMetaHash(state.hash, state, newState);
+  recordPosition(newState, state, false);
+  
+  return newState;
+}
+
+/**
+ * Append the new position's hash to the occurrence history and count how
+ * often it was seen before. Irreversible changes restart the history.
+ */
+function recordPosition(newState: GameState, previous: GameState, irreversible: boolean): void {
+  if (irreversible) {
+    newState.positionHistory = [newState.hash];
+    newState.moveRepetition = 0;
+    return;
+  }
+  
+  newState.moveRepetition = previous.positionHistory.filter(hash => hash === newState.hash).length;
+  newState.positionHistory = [...previous.positionHistory, newState.hash];
 }
 
 /**
@@ -323,9 +400,9 @@ export function resolveCaptures(state: GameState, movedTo: Cell): CaptureResult
     let pos = { r: movedTo.r + dir.r, c: movedTo.c + dir.c };
     
     // Collect contiguous opponent stones in this direction
-    while (inBounds(pos) && state.board[pos.r][pos.c] === opponent) {
+    while (inBounds(pos, state.rules.size) && state.board[pos.r][pos.c] === opponent) {
       // Center cell cannot be captured
-      if (!isCenter(pos)) {
+      if (!isCenter(pos, state.rules.size)) {
         line.push({ ...pos });
       }
       pos = { r: pos.r + dir.r, c: pos.c + dir.c };
@@ -333,7 +410,7 @@ export function resolveCaptures(state: GameState, movedTo: Cell): CaptureResult
     
     // Check if line is bounded by friendly stone
     if (line.length > 0 && 
-        inBounds(pos) && 
+        inBounds(pos, state.rules.size) && 
         state.board[pos.r][pos.c] === player) {
       captured.push(...line);
     }
@@ -371,9 +448,9 @@ export function previewCaptures(state: GameState, from: Cell, to: Cell): Cell[]
     let pos = { r: to.r + dir.r, c: to.c + dir.c };
     
     // Collect contiguous opponent stones in this direction
-    while (inBounds(pos) && state.board[pos.r][pos.c] === opponent) {
+    while (inBounds(pos, state.rules.size) && state.board[pos.r][pos.c] === opponent) {
       // Center cell cannot be captured
-      if (!isCenter(pos)) {
+      if (!isCenter(pos, state.rules.size)) {
         line.push({ ...pos });
       }
       pos = { r: pos.r + dir.r, c: pos.c + dir.c };
@@ -381,7 +458,7 @@ export function previewCaptures(state: GameState, from: Cell, to: Cell): Cell[]
     
     // Check if line is bounded by friendly stone
     if (line.length > 0 && 
-        inBounds(pos) && 
+        inBounds(pos, state.rules.size) && 
         state.board[pos.r][pos.c] === player) {
       captured.push(...line);
     }
@@ -398,10 +475,11 @@ export function hasAnyLegalMove(state: GameState, player: Player): boolean {
     return placementsFor(state, player).length > 0;
   }
   
-  for (let r = 0; r < BOARD_SIZE; r++) {
-    for (let c = 0; c < BOARD_SIZE; c++) {
+  // Not movesFor, which only lists moves for the side to move
+  for (let r = 0; r < state.rules.size; r++) {
+    for (let c = 0; c < state.rules.size; c++) {
       if (state.board[r][c] === player) {
-        if (movesFor(state, { r, c }).length > 0) {
+        if (neighbors({ r, c }, state.rules.size).some(to => state.board[to.r][to.c] === null)) {
           return true;
         }
       }
@@ -426,13 +504,22 @@ export function invokeBlockadeIfAny(state: GameState, removeCell?: Cell): GameSt
   }
   
   // Remove the specified stone
-  if (!inBounds(removeCell) || state.board[removeCell.r][removeCell.c] !== currentPlayer) {
+  if (!inBounds(removeCell, state.rules.size) || state.board[removeCell.r][removeCell.c] !== currentPlayer) {
     throw new Error('Invalid stone to remove');
   }
   
   const newState = { ...state };
   newState.board = state.board.map(row => [...row]);
   newState.board[removeCell.r][removeCell.c] = null;
+  newState.hash = toggleStone(state.hash, state.rules.size, removeCell, currentPlayer);
+  recordPosition(newState, state, true);
+  
+  // Giving up a stone can leave too few to play on
+  const winResult = checkWin(newState);
+  if (winResult) {
+    newState.winner = winResult.winner;
+    newState.winReason = winResult.reason;
+  }
   
   return newState;
 }
@@ -443,26 +530,27 @@ export function invokeBlockadeIfAny(state: GameState, removeCell?: Cell): GameSt
 export function checkWin(state: GameState): { winner: Player | null; reason: WinReason } | undefined {
   const lightCount = countStones(state, 'Light');
   const darkCount = countStones(state, 'Dark');
+  const { winThreshold } = state.rules;
   
-  if (lightCount <= WIN_THRESHOLD) {
+  if (lightCount <= winThreshold) {
     return {
       winner: 'Dark',
       reason: {
         type: 'stoneCount',
         loserStoneCount: lightCount,
-        threshold: WIN_THRESHOLD,
+        threshold: winThreshold,
         loser: 'Light'
       }
     };
   }
   
-  if (darkCount <= WIN_THRESHOLD) {
+  if (darkCount <= winThreshold) {
     return {
       winner: 'Light', 
       reason: {
         type: 'stoneCount',
         loserStoneCount: darkCount,
-        threshold: WIN_THRESHOLD,
+        threshold: winThreshold,
         loser: 'Dark'
       }
     };
@@ -481,8 +569,8 @@ export function checkWin(state: GameState): { winner: Player | null; reason: Win
     };
   }
   
-  // Check for stalemate by repetition (simplified)
-  if (state.moveRepetition >= 6) {
+  // Check for stalemate by N-fold repetition of the same position
+  if (state.moveRepetition + 1 >= state.rules.repetitionLimit) {
     const winner = lightCount > darkCount ? 'Light' : 
                   darkCount > lightCount ? 'Dark' : null;
     return {
@@ -546,14 +634,19 @@ export function resignGame(state: GameState, resigningPlayer: Player): GameState
 }
 
 /**
- * Create a hash of the board state for repetition detection
+ * End the game on time: the player whose clock ran out loses
  */
-export function createBoardHash(state: GameState): string {
-  return JSON.stringify({
-    board: state.board,
-    current: state.current,
-    phase: state.phase
-  });
+export function flagTimeout(state: GameState, timedOutPlayer: Player): GameState {
+  const winner = timedOutPlayer === 'Light' ? 'Dark' : 'Light';
+  
+  return {
+    ...state,
+    winner,
+    winReason: {
+      type: 'timeout',
+      timedOutPlayer
+    }
+  };
 }
 
 /**
@@ -619,8 +712,8 @@ export function detectStalemate(state: GameState): GameState {
  */
 export function countStones(state: GameState, player: Player): number {
   let count = 0;
-  for (let r = 0; r < BOARD_SIZE; r++) {
-    for (let c = 0; c < BOARD_SIZE; c++) {
+  for (let r = 0; r < state.rules.size; r++) {
+    for (let c = 0; c < state.rules.size; c++) {
       if (state.board[r][c] === player) {
         count++;
       }
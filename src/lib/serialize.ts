@@ -1,6 +1,8 @@
 // FILE: src/lib/serialize.ts
 
 import { GameState, GameSettings } from './types';
+import { RULE_SETS, DEFAULT_BOARD_SIZE } from './rules';
+import { hashPosition } from './zobrist';
 
 const GAME_STORAGE_KEY = 'seejeh-game-state';
 const SETTINGS_STORAGE_KEY = 'seejeh-settings';
@@ -24,7 +26,27 @@ export function loadGameState(): GameState | null {
   try {
     const serialized = localStorage.getItem(GAME_STORAGE_KEY);
     if (serialized) {
-      return JSON.parse(serialized);
+      const state = JSON.parse(serialized);
+      // Games saved before board sizes were configurable are always 7x7
+      if (state.rules === undefined) {
+        state.rules = RULE_SETS[DEFAULT_BOARD_SIZE];
+      }
+      // Older saves carried a single JSON board hash instead of Zobrist history
+      if (state.hash === undefined) {
+        delete state.lastBoardHash;
+        state.hash = hashPosition(state);
+        state.positionHistory = [state.hash];
+        state.moveRepetition = 0;
+      }
+      if (state.actionHistory === undefined) {
+        state.actionHistory = [];
+      }
+      // A clock saved while running comes back paused, without charging the
+      // time the game was closed; the store restarts it
+      if (state.clock) {
+        state.clock.runningSince = null;
+      }
+      return state;
     }
   } catch (error) {
     console.warn('Failed to load game state:', error);
@@ -67,6 +89,28 @@ export function loadSettings(): GameSettings | null {
       if (settings.capturePreviewsEnabled === undefined) {
         settings.capturePreviewsEnabled = true;
       }
+      if (settings.boardSize === undefined) {
+        settings.boardSize = DEFAULT_BOARD_SIZE;
+      }
+      if (settings.undoPolicy === undefined) {
+        settings.undoPolicy = 'unlimited';
+        settings.undoLimit = 3;
+      }
+      if (settings.timeControl === undefined) {
+        settings.timeControl = 'off';
+      }
+      if (settings.evalBarEnabled === undefined) {
+        settings.evalBarEnabled = false;
+      }
+      if (settings.threatOverlayEnabled === undefined) {
+        settings.threatOverlayEnabled = false;
+      }
+      if (settings.coachEnabled === undefined) {
+        settings.coachEnabled = false;
+      }
+      if (settings.hintLines === undefined) {
+        settings.hintLines = 3;
+      }
       return settings;
     }
   } catch (error) {
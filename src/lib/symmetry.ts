@@ -0,0 +1,57 @@
+// FILE: src/lib/symmetry.ts
+
+import { GameState, Cell } from './types';
+
+/**
+ * The eight symmetries of a square board: four rotations and four
+ * reflections. Rules treat every direction alike, so two positions related
+ * by a symmetry are equally good and the search only needs one of them.
+ */
+
+export type Symmetry = (cell: Cell, size: number) => Cell;
+
+export const SYMMETRIES: Symmetry[] = [
+  ({ r, c }) => ({ r, c }),
+  ({ r, c }, size) => ({ r: c, c: size - 1 - r }),
+  ({ r, c }, size) => ({ r: size - 1 - r, c: size - 1 - c }),
+  ({ r, c }, size) => ({ r: size - 1 - c, c: r }),
+  ({ r, c }, size) => ({ r, c: size - 1 - c }),
+  ({ r, c }, size) => ({ r: size - 1 - r, c }),
+  ({ r, c }) => ({ r: c, c: r }),
+  ({ r, c }, size) => ({ r: size - 1 - c, c: size - 1 - r })
+];
+
+/**
+ * The symmetries that map `board` onto itself. The identity is always one.
+ */
+export function boardSymmetries(board: GameState['board']): Symmetry[] {
+  const size = board.length;
+  return SYMMETRIES.filter(symmetry => {
+    for (let r = 0; r < size; r++) {
+      for (let c = 0; c < size; c++) {
+        const image = symmetry({ r, c }, size);
+        if (board[image.r][image.c] !== board[r][c]) return false;
+      }
+    }
+    return true;
+  });
+}
+
+/**
+ * A key shared by a set of cells and all its images under `symmetries`,
+ * ignoring the order of the cells
+ */
+export function canonicalKey(cells: Cell[], size: number, symmetries: Symmetry[]): string {
+  let best: string | null = null;
+  for (const symmetry of symmetries) {
+    const key = cells
+      .map(cell => symmetry(cell, size))
+      .map(cell => cell.r * size + cell.c)
+      .sort((a, b) => a - b)
+      .join(',');
+    if (best === null || key < best) {
+      best = key;
+    }
+  }
+  return best ?? '';
+}
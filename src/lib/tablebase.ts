@@ -0,0 +1,394 @@
+// FILE: src/lib/tablebase.ts
+
+import { GameState, Player, RuleSet, BoardSize } from './types';
+import { initialState, countStones } from './rules';
+import { applyAction, legalActions } from './actions';
+import { hashPosition } from './zobrist';
+
+/**
+ * Endgame tablebases: every movement position with a given number of stones
+ * per side, solved by retrograde analysis.
+ *
+ * Solving starts from the end. Pass d finds the positions whose side to move
+ * wins or loses in exactly d turns: a win if some turn leads to a position
+ * lost in fewer, a loss if every turn leads to a position won in fewer.
+ * Turns that capture or remove a stone leave the table for one with less
+ * material, which is solved first. Positions never resolved are draws. A
+ * turn is a move plus any chain capture or blockade removal, expanded with
+ * the rules engine itself; the repetition history is ignored, as usual for
+ * tablebases.
+ *
+ * A table stores one signed byte per position and side to move: 0 for a
+ * draw, +d when the side to move wins in d turns (theirs and the
+ * opponent's), -d when it loses in d.
+ */
+
+export interface TablebaseSpec {
+  rules: RuleSet;
+  blockadeOneRemoval: boolean; // Whether a blockaded player removes a stone or passes
+}
+
+export interface Tablebase {
+  size: BoardSize;
+  winThreshold: number;
+  blockadeOneRemoval: boolean;
+  light: number; // Stones per side
+  dark: number;
+  values: Int8Array;
+}
+
+/**
+ * The tablebase verdict for the side to move
+ */
+export interface TablebaseResult {
+  result: 'win' | 'loss' | 'draw';
+  turns: number; // Turns of both sides until the game ends, 0 for a draw
+  moves: number; // Turns of the winning side, as in "win in N"
+}
+
+/**
+ * A tablebase as stored on disk, with the values base64 encoded
+ */
+export interface TablebaseFile {
+  version: 1;
+  size: BoardSize;
+  winThreshold: number;
+  blockadeOneRemoval: boolean;
+  light: number;
+  dark: number;
+  values: string;
+}
+
+// Longest distance a signed byte can hold
+const MAX_DISTANCE = 127;
+
+const binomials: number[][] = [];
+
+function binomial(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  while (binomials.length <= n) {
+    const m = binomials.length;
+    const row = [1];
+    for (let j = 1; j <= m; j++) {
+      row.push(j === m ? 1 : binomials[m - 1][j - 1] + binomials[m - 1][j]);
+    }
+    binomials.push(row);
+  }
+  return binomials[n][k];
+}
+
+/**
+ * Rank of a sorted set of distinct numbers among all sets of its size
+ * (combinatorial number system)
+ */
+function rankSet(items: number[]): number {
+  let rank = 0;
+  for (let i = 0; i < items.length; i++) {
+    rank += binomial(items[i], i + 1);
+  }
+  return rank;
+}
+
+function unrankSet(rank: number, count: number): number[] {
+  const items: number[] = new Array(count);
+  for (let i = count; i >= 1; i--) {
+    let item = i - 1;
+    while (binomial(item + 1, i) <= rank) item++;
+    items[i - 1] = item;
+    rank -= binomial(item, i);
+  }
+  return items;
+}
+
+/**
+ * Number of positions in a table: stone placements times the side to move
+ */
+export function tablebaseSize(size: number, light: number, dark: number): number {
+  const cells = size * size;
+  return binomial(cells, light) * binomial(cells - light, dark) * 2;
+}
+
+function tableKey(size: number, winThreshold: number, blockadeOneRemoval: boolean, light: number, dark: number): string {
+  return `${size}/${winThreshold}/${blockadeOneRemoval ? 'b' : '-'}/${light}v${dark}`;
+}
+
+function keyOf(table: Tablebase): string {
+  return tableKey(table.size, table.winThreshold, table.blockadeOneRemoval, table.light, table.dark);
+}
+
+/**
+ * Index of a board and side to move within its table. Light's cells are
+ * ranked among all cells, Dark's among the cells Light leaves free.
+ */
+function positionIndex(board: (Player | null)[][], current: Player, dark: number): number {
+  const size = board.length;
+  const lightCells: number[] = [];
+  const darkCells: number[] = [];
+  let free = 0;
+  for (let cell = 0; cell < size * size; cell++) {
+    const stone = board[Math.floor(cell / size)][cell % size];
+    if (stone === 'Light') {
+      lightCells.push(cell);
+    } else {
+      if (stone === 'Dark') darkCells.push(free);
+      free++;
+    }
+  }
+  const darkSets = binomial(free, dark);
+  return (rankSet(lightCells) * darkSets + rankSet(darkCells)) * 2 + (current === 'Light' ? 0 : 1);
+}
+
+function positionAt(template: GameState, index: number, light: number, dark: number): GameState {
+  const size = template.rules.size;
+  const cells = size * size;
+  const darkSets = binomial(cells - light, dark);
+  const placement = Math.floor(index / 2);
+  const lightCells = new Set(unrankSet(Math.floor(placement / darkSets), light));
+  const darkFree = new Set(unrankSet(placement % darkSets, dark));
+
+  const board: (Player | null)[][] = Array.from({ length: size }, () => Array<Player | null>(size).fill(null));
+  let free = 0;
+  for (let cell = 0; cell < cells; cell++) {
+    const row = Math.floor(cell / size);
+    if (lightCells.has(cell)) {
+      board[row][cell % size] = 'Light';
+    } else {
+      if (darkFree.has(free)) board[row][cell % size] = 'Dark';
+      free++;
+    }
+  }
+
+  const state: GameState = { ...template, board, current: index % 2 === 0 ? 'Light' : 'Dark' };
+  state.hash = hashPosition(state);
+  state.positionHistory = [state.hash];
+  return state;
+}
+
+/**
+ * Every position a turn can end in: the turn goes on through chain steps
+ * and blockade removals until the other side is to move or the game is over
+ */
+function turnEnds(state: GameState): GameState[] {
+  const ends: GameState[] = [];
+  for (const action of legalActions(state)) {
+    const next = applyAction(state, action);
+    if (next.winner === undefined && next.current === state.current) {
+      ends.push(...turnEnds(next));
+    } else {
+      ends.push(next);
+    }
+  }
+  return ends;
+}
+
+/**
+ * Solve the table for `light` against `dark` stones. Tables with less
+ * material that its captures lead into must be in `solved`.
+ */
+export function generateTablebase(
+  spec: TablebaseSpec,
+  light: number,
+  dark: number,
+  solved: Tablebase[] = []
+): Tablebase {
+  const { rules, blockadeOneRemoval } = spec;
+  if (light <= rules.winThreshold || dark <= rules.winThreshold) {
+    throw new Error('Both sides need more stones than the win threshold');
+  }
+
+  const count = tablebaseSize(rules.size, light, dark);
+  const smaller = new Map(solved.map(table => [keyOf(table), table]));
+  const template: GameState = {
+    ...initialState(rules.size, { blockadeOneRemoval }),
+    rules,
+    phase: 'movement',
+    stonesToPlace: { Light: 0, Dark: 0 }
+  };
+
+  // Turns that end the game or leave the table are scored once up front;
+  // the rest are kept as indices into this table
+  const exitWin = new Int16Array(count); // Fastest win through an exit, 0 if none
+  const exitLoss = new Int16Array(count); // Slowest loss through an exit, -1 if an exit is not lost
+  const starts = new Int32Array(count + 1);
+  const successors: number[] = [];
+
+  for (let index = 0; index < count; index++) {
+    starts[index] = successors.length;
+    const state = positionAt(template, index, light, dark);
+    const mover = state.current;
+    let win = 0;
+    let loss = 0;
+
+    for (const end of turnEnds(state)) {
+      // For the side to move after the turn; a game won on the spot is a
+      // loss in 0 turns for the other side
+      let outcome: TablebaseResult['result'];
+      let distance = 0;
+      if (end.winner !== undefined) {
+        outcome = end.winner === null ? 'draw' : end.winner === mover ? 'loss' : 'win';
+      } else {
+        const endLight = countStones(end, 'Light');
+        const endDark = countStones(end, 'Dark');
+        if (endLight === light && endDark === dark) {
+          successors.push(positionIndex(end.board, end.current, dark));
+          continue;
+        }
+        const table = smaller.get(tableKey(rules.size, rules.winThreshold, blockadeOneRemoval, endLight, endDark));
+        if (!table) {
+          throw new Error(`Tablebase ${endLight}v${endDark} must be generated first`);
+        }
+        const value = table.values[positionIndex(end.board, end.current, endDark)];
+        outcome = value > 0 ? 'win' : value < 0 ? 'loss' : 'draw';
+        distance = Math.abs(value);
+      }
+
+      if (outcome === 'loss') {
+        win = win === 0 ? distance + 1 : Math.min(win, distance + 1);
+      } else if (outcome === 'win') {
+        if (loss >= 0) loss = Math.max(loss, distance + 1);
+      } else {
+        loss = -1;
+      }
+    }
+
+    exitWin[index] = win;
+    exitLoss[index] = loss;
+  }
+  starts[count] = successors.length;
+
+  const values = new Int8Array(count);
+  for (let distance = 1; ; distance++) {
+    let resolved = 0;
+
+    for (let index = 0; index < count; index++) {
+      if (values[index] !== 0) continue;
+      const first = starts[index];
+      const last = starts[index + 1];
+      // Every exit sets one of the two, so this position has no turns at all
+      if (first === last && exitWin[index] === 0 && exitLoss[index] === 0) continue;
+
+      // Values set in this pass are at `distance` and are not used until the next
+      let wins = exitWin[index] !== 0 && exitWin[index] <= distance;
+      let loses = !wins && exitLoss[index] >= 0 && exitLoss[index] <= distance;
+      for (let i = first; i < last && !wins; i++) {
+        const value = values[successors[i]];
+        if (value < 0 && -value < distance) wins = true;
+        if (!(value > 0 && value < distance)) loses = false;
+      }
+
+      if (wins || loses) {
+        if (distance > MAX_DISTANCE) {
+          throw new Error('Distance to the end is too long for the tablebase format');
+        }
+        values[index] = wins ? distance : -distance;
+        resolved++;
+      }
+    }
+
+    if (resolved === 0) break;
+  }
+
+  return { size: rules.size, winThreshold: rules.winThreshold, blockadeOneRemoval, light, dark, values };
+}
+
+/**
+ * Solve every table up to `maxLight` against `maxDark` stones, smallest
+ * material first so each one can use those before it
+ */
+export function generateTablebases(
+  spec: TablebaseSpec,
+  maxLight: number,
+  maxDark: number,
+  onTable?: (table: Tablebase) => void
+): Tablebase[] {
+  const threshold = spec.rules.winThreshold;
+  const materials: [number, number][] = [];
+  for (let light = threshold + 1; light <= maxLight; light++) {
+    for (let dark = threshold + 1; dark <= maxDark; dark++) {
+      materials.push([light, dark]);
+    }
+  }
+  materials.sort((a, b) => a[0] + a[1] - (b[0] + b[1]));
+
+  const tables: Tablebase[] = [];
+  for (const [light, dark] of materials) {
+    const table = generateTablebase(spec, light, dark, tables);
+    tables.push(table);
+    onTable?.(table);
+  }
+  return tables;
+}
+
+export function encodeTablebase(table: Tablebase): TablebaseFile {
+  const bytes = new Uint8Array(table.values.buffer, table.values.byteOffset, table.values.length);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return {
+    version: 1,
+    size: table.size,
+    winThreshold: table.winThreshold,
+    blockadeOneRemoval: table.blockadeOneRemoval,
+    light: table.light,
+    dark: table.dark,
+    values: btoa(binary)
+  };
+}
+
+export function decodeTablebase(file: TablebaseFile): Tablebase {
+  if (file.version !== 1) {
+    throw new Error(`Unsupported tablebase version ${file.version}`);
+  }
+  const binary = atob(file.values);
+  const values = new Int8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    values[i] = (binary.charCodeAt(i) << 24) >> 24;
+  }
+  if (values.length !== tablebaseSize(file.size, file.light, file.dark)) {
+    throw new Error(`Tablebase ${file.light}v${file.dark} has the wrong number of positions`);
+  }
+  const { size, winThreshold, blockadeOneRemoval, light, dark } = file;
+  return { size, winThreshold, blockadeOneRemoval, light, dark, values };
+}
+
+const loaded = new Map<string, Tablebase>();
+
+/**
+ * Make a table available to `probeTablebase`
+ */
+export function registerTablebase(table: Tablebase): void {
+  loaded.set(keyOf(table), table);
+}
+
+export function clearTablebases(): void {
+  loaded.clear();
+}
+
+// Tables written by `npm run tablebase` are bundled and loaded at startup
+const bundled = import.meta.glob<TablebaseFile>('../tablebases/*.json', { eager: true, import: 'default' });
+for (const file of Object.values(bundled)) {
+  registerTablebase(decodeTablebase(file));
+}
+
+/**
+ * Look a position up in the loaded tables. Only movement positions at the
+ * start of a turn are covered; anything else gives null.
+ */
+export function probeTablebase(state: GameState): TablebaseResult | null {
+  if (loaded.size === 0 || state.phase !== 'movement' || state.winner !== undefined) {
+    return null;
+  }
+
+  const light = countStones(state, 'Light');
+  const dark = countStones(state, 'Dark');
+  const table = loaded.get(tableKey(state.rules.size, state.rules.winThreshold, state.variant.blockadeOneRemoval, light, dark));
+  if (!table) return null;
+
+  const value = table.values[positionIndex(state.board, state.current, dark)];
+  if (value === 0) {
+    return { result: 'draw', turns: 0, moves: 0 };
+  }
+  const turns = Math.abs(value);
+  return { result: value > 0 ? 'win' : 'loss', turns, moves: Math.ceil(turns / 2) };
+}
@@ -0,0 +1,169 @@
+// FILE: src/lib/threats.ts
+
+import { GameState, Player, Cell } from './types';
+import { applyMove, applyChainStep, movesFor, previewCaptures } from './rules';
+
+/**
+ * Capture threats: the captures each player could make if it were their
+ * move, read from the position as it stands.
+ *
+ * The player on move threatens what they can take this turn; their opponent
+ * threatens what they could take if the turn were handed over now, which is
+ * what the player on move has to defend against. A capture that opens a
+ * chain is followed through the capturing steps that continue it, keeping
+ * the continuation that takes the most stones, so a threat lists every stone
+ * its chain would remove. Moves the variant rules forbid are skipped.
+ *
+ * Coach mode reads the same threats before and after a human's move to warn
+ * about stones the move leaves open and captures it passes up.
+ */
+
+export interface CaptureThreat {
+  attacker: Player;
+  from: Cell; // The stone that moves
+  path: Cell[]; // Its destination, then each further step of the chain
+  captured: Cell[]; // Every stone taken along the way
+}
+
+export interface ThreatReport {
+  threats: Record<Player, CaptureThreat[]>; // Keyed by the player who would capture, most stones first
+  endangered: Record<Player, Cell[]>; // Each player's stones the opponent could capture
+}
+
+export interface BlunderCheck {
+  hung: Cell[]; // The mover's stones open to capture after the move that were safe before it
+  missed: CaptureThreat | null; // The biggest capture passed up by a move that takes nothing
+}
+
+/**
+ * The stones a list of threats would capture, each once
+ */
+function capturedCells(threats: CaptureThreat[]): Cell[] {
+  const cells = new Map<string, Cell>();
+  for (const threat of threats) {
+    for (const cell of threat.captured) {
+      cells.set(`${cell.r},${cell.c}`, cell);
+    }
+  }
+  return [...cells.values()];
+}
+
+/**
+ * The capturing continuation of a chain from `origin` that takes the most
+ * stones; empty when no further step captures
+ */
+function longestChain(state: GameState, origin: Cell): { path: Cell[]; captured: Cell[] } {
+  let best: { path: Cell[]; captured: Cell[] } = { path: [], captured: [] };
+  if (state.winner !== undefined) return best;
+
+  const stepping: GameState = { ...state, phase: 'movement' };
+  for (const to of movesFor(stepping, origin)) {
+    const captured = previewCaptures(stepping, origin, to);
+    if (captured.length === 0) continue;
+
+    let next: GameState;
+    try {
+      next = applyChainStep(state, to);
+    } catch (error) {
+      continue;
+    }
+    const rest = longestChain(next, to);
+    if (captured.length + rest.captured.length > best.captured.length) {
+      best = { path: [to, ...rest.path], captured: [...captured, ...rest.captured] };
+    }
+  }
+  return best;
+}
+
+/**
+ * Every capture `attacker` could make with their next move, chains included
+ */
+export function findCaptureThreats(state: GameState, attacker: Player): CaptureThreat[] {
+  if (state.phase === 'placement' || state.winner !== undefined) return [];
+
+  // A chain in progress can only go on from the stone that started it
+  if (state.phase === 'chain' && state.current === attacker) {
+    if (!state.chainOrigin) return [];
+    const chain = longestChain(state, state.chainOrigin);
+    return chain.captured.length > 0
+      ? [{ attacker, from: state.chainOrigin, path: chain.path, captured: chain.captured }]
+      : [];
+  }
+
+  const position: GameState = { ...state, current: attacker, phase: 'movement', chainOrigin: undefined };
+  const threats: CaptureThreat[] = [];
+
+  for (let r = 0; r < state.rules.size; r++) {
+    for (let c = 0; c < state.rules.size; c++) {
+      if (state.board[r][c] !== attacker) continue;
+      const from: Cell = { r, c };
+
+      for (const to of movesFor(position, from)) {
+        const captured = previewCaptures(position, from, to);
+        if (captured.length === 0) continue;
+
+        let after: GameState;
+        try {
+          after = applyMove(position, from, to);
+        } catch (error) {
+          continue;
+        }
+        const rest = longestChain(after, to);
+        threats.push({
+          attacker,
+          from,
+          path: [to, ...rest.path],
+          captured: [...captured, ...rest.captured]
+        });
+      }
+    }
+  }
+
+  return threats.sort((a, b) => b.captured.length - a.captured.length);
+}
+
+/**
+ * Capture threats for both players and the stones each stands to lose
+ */
+export function detectThreats(state: GameState): ThreatReport {
+  const threats = {
+    Light: findCaptureThreats(state, 'Light'),
+    Dark: findCaptureThreats(state, 'Dark')
+  };
+
+  return {
+    threats,
+    endangered: { Light: capturedCells(threats.Dark), Dark: capturedCells(threats.Light) }
+  };
+}
+
+/**
+ * What a move by the player on move gives away: stones it leaves open to
+ * capture and a capture it passes up. Null when it gives away neither, or
+ * when the move is illegal or ends the game.
+ */
+export function checkForBlunder(state: GameState, from: Cell, to: Cell): BlunderCheck | null {
+  if (state.phase !== 'movement' || state.winner !== undefined) return null;
+
+  let after: GameState;
+  try {
+    after = applyMove(state, from, to);
+  } catch (error) {
+    return null;
+  }
+  // A capture is never a blunder here: its chain can still defend what it leaves open
+  if (after.winner !== undefined || after.capturedLastMove.length > 0) return null;
+
+  const player = state.current;
+  const opponent = player === 'Light' ? 'Dark' : 'Light';
+
+  // The moved stone counts as the same stone on its new cell
+  const endangered = new Set(capturedCells(findCaptureThreats(state, opponent)).map(cell =>
+    cell.r === from.r && cell.c === from.c ? `${to.r},${to.c}` : `${cell.r},${cell.c}`
+  ));
+  const hung = capturedCells(findCaptureThreats(after, opponent))
+    .filter(cell => !endangered.has(`${cell.r},${cell.c}`));
+  const missed = findCaptureThreats(state, player)[0] ?? null;
+
+  return hung.length > 0 || missed ? { hung, missed } : null;
+}
@@ -0,0 +1,188 @@
+// FILE: src/lib/tuning.ts
+
+import { GameState, AIDifficulty, AIEngine, BoardSize } from './types';
+import { initialState } from './rules';
+import { applyAction } from './actions';
+import { EvaluationWeights, EvaluationTerm, EVALUATION_TERMS, evaluationFeatures } from './evaluation';
+import { playArenaGame, randomOpening, ArenaEngine } from './arena';
+import { createRandom } from './random';
+
+/**
+ * Texel-style tuning of the evaluation weights.
+ *
+ * Self-play games are sampled for quiet movement positions, each labelled
+ * with how the game ended for Light. The weights are then fitted so that a
+ * logistic of the evaluation predicts those results as closely as possible
+ * (least squares), by a local search that nudges one weight at a time.
+ *
+ * Every evaluation term is linear in its weight, so each position is reduced
+ * to its feature values once and the fit never touches the rules engine.
+ *
+ * The stone count weight stays as it is and anchors the scale: the other
+ * weights are fitted relative to it, so they cannot all grow together and
+ * dwarf the `captures` weight, which the static evaluation does not use.
+ */
+
+export interface TrainingPosition {
+  features: Record<EvaluationTerm, number>; // From Light's point of view
+  result: number; // 1 if Light won, 0 if Dark won, 0.5 for a draw
+}
+
+export interface SelfPlayOptions {
+  games: number;
+  difficulty: AIDifficulty;
+  engine?: AIEngine;
+  weights?: EvaluationWeights;
+  seed?: number;
+  boardSize?: BoardSize;
+  openingPlies?: number;
+  maxPlies?: number;
+}
+
+export interface TuningOptions {
+  step?: number; // First change tried on each weight
+  minStep?: number; // The search stops once the step has shrunk below this
+  maxPasses?: number; // Upper bound on passes over all weights
+}
+
+export interface TuningResult {
+  weights: EvaluationWeights;
+  scale: number; // Evaluation difference worth one logistic unit
+  initialError: number;
+  finalError: number;
+  passes: number;
+}
+
+const DEFAULT_SEED = 1;
+const DEFAULT_OPENING_PLIES = 8;
+const DEFAULT_STEP = 1;
+const DEFAULT_MIN_STEP = 0.05;
+const DEFAULT_MAX_PASSES = 200;
+// Held fixed so the fitted weights keep the magnitude of the hand-set ones
+const ANCHOR_TERM: EvaluationTerm = 'stoneCount';
+
+/**
+ * Play self-play games and collect every movement position from them that is
+ * not in the middle of a chain, labelled with the game's result
+ */
+export function generateTrainingSet(options: SelfPlayOptions): TrainingPosition[] {
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+  const size = options.boardSize ?? 7;
+  const player: ArenaEngine = {
+    name: options.difficulty,
+    difficulty: options.difficulty,
+    engine: options.engine,
+    weights: options.weights
+  };
+  const positions: TrainingPosition[] = [];
+
+  for (let game = 0; game < options.games; game++) {
+    const opening = randomOpening(size, options.openingPlies ?? DEFAULT_OPENING_PLIES, random);
+    const end = playArenaGame(opening, { Light: player, Dark: player }, random, options.maxPlies);
+    const result = end.winner === 'Light' ? 1 : end.winner === 'Dark' ? 0 : 0.5;
+
+    let state: GameState = initialState(size);
+    for (const action of end.actionHistory) {
+      state = applyAction(state, action);
+      if (state.phase === 'movement' && state.winner === undefined) {
+        positions.push({ features: evaluationFeatures(state, 'Light'), result });
+      }
+    }
+  }
+
+  return positions;
+}
+
+function evaluate(features: Record<EvaluationTerm, number>, weights: EvaluationWeights): number {
+  let score = 0;
+  for (const term of EVALUATION_TERMS) {
+    score += features[term] * weights[term];
+  }
+  return score;
+}
+
+/**
+ * Mean squared difference between the results and the winning chances the
+ * evaluation predicts
+ */
+export function predictionError(positions: TrainingPosition[], weights: EvaluationWeights, scale: number): number {
+  if (positions.length === 0) return 0;
+
+  let total = 0;
+  for (const position of positions) {
+    const predicted = 1 / (1 + Math.exp(-evaluate(position.features, weights) / scale));
+    total += (position.result - predicted) ** 2;
+  }
+  return total / positions.length;
+}
+
+/**
+ * The logistic scale that best fits `weights` to the results. Weights and
+ * scale can grow together without changing the fit, so the scale is fixed
+ * before tuning and the weights keep their current magnitude.
+ */
+export function fitScale(positions: TrainingPosition[], weights: EvaluationWeights): number {
+  // Golden section search over log(scale), from 1 to 10000
+  let low = 0;
+  let high = Math.log(10000);
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  const error = (logScale: number) => predictionError(positions, weights, Math.exp(logScale));
+
+  for (let i = 0; i < 60; i++) {
+    const a = high - ratio * (high - low);
+    const b = low + ratio * (high - low);
+    if (error(a) < error(b)) {
+      high = b;
+    } else {
+      low = a;
+    }
+  }
+  return Math.exp((low + high) / 2);
+}
+
+/**
+ * Fit the evaluation weights to the training positions, starting from
+ * `initial`. The stone count weight and weights the static evaluation does
+ * not use are left alone.
+ */
+export function tuneWeights(
+  positions: TrainingPosition[],
+  initial: EvaluationWeights,
+  options: TuningOptions = {}
+): TuningResult {
+  const minStep = options.minStep ?? DEFAULT_MIN_STEP;
+  const maxPasses = options.maxPasses ?? DEFAULT_MAX_PASSES;
+  const scale = fitScale(positions, initial);
+  const initialError = predictionError(positions, initial, scale);
+
+  let weights = { ...initial };
+  let error = initialError;
+  let step = options.step ?? DEFAULT_STEP;
+  let passes = 0;
+
+  while (step >= minStep && passes < maxPasses) {
+    passes++;
+    let improved = false;
+
+    for (const term of EVALUATION_TERMS) {
+      if (term === ANCHOR_TERM) continue;
+      for (const delta of [step, -step]) {
+        const candidate = { ...weights, [term]: weights[term] + delta };
+        const candidateError = predictionError(positions, candidate, scale);
+        if (candidateError < error) {
+          weights = candidate;
+          error = candidateError;
+          improved = true;
+          break;
+        }
+      }
+    }
+
+    // Settle with finer changes once no weight moves
+    if (!improved) {
+      step /= 2;
+    }
+  }
+
+  return { weights, scale, initialError, finalError: error, passes };
+}
@@ -9,6 +9,15 @@ export interface Cell {
 
 export type Phase = 'placement' | 'movement' | 'chain';
 
+export type BoardSize = 5 | 7 | 9;
+
+export interface RuleSet {
+  size: BoardSize;
+  stonesPerPlayer: number; // Every non-center cell is filled during placement
+  winThreshold: number; // A player reduced to this many stones loses
+  repetitionLimit: number; // The same position occurring this many times is a draw
+}
+
 export interface VariantFlags {
   firstMoveMustEnterCenter: boolean;
   antiShuttle: boolean;
@@ -22,6 +31,18 @@ export interface MoveRecord {
   timestamp: number;
 }
 
+export type GameAction =
+  | { type: 'place'; cells: Cell[] } // One or two stones of the current placement turn
+  | { type: 'move'; from: Cell; to: Cell }
+  | { type: 'chainStep'; to: Cell }
+  | { type: 'endChain' }
+  | { type: 'pass' }
+  | { type: 'removeBlockade'; cell: Cell }
+  | { type: 'offerStalemate' }
+  | { type: 'rejectStalemate' }
+  | { type: 'resign'; player: Player }
+  | { type: 'timeout'; player: Player }; // Issued by the clock, never chosen by a player
+
 export type WinReason = 
   | { type: 'stoneCount'; loserStoneCount: number; threshold: number; loser: Player }
   | { type: 'resignation'; resignedPlayer: Player }
@@ -29,6 +50,7 @@ export type WinReason =
   | { type: 'timeout'; timedOutPlayer: Player };
 
 export interface GameState {
+  rules: RuleSet;
   board: (Player | null)[][];
   current: Player;
   phase: Phase;
@@ -36,6 +58,7 @@ export interface GameState {
   lastMover?: Player;
   chainOrigin?: Cell;
   moveHistory: MoveRecord[];
+  actionHistory: GameAction[]; // Every action applied through applyAction, for replay
   variant: VariantFlags;
   winner?: Player | null; // null indicates draw
   winReason?: WinReason;
@@ -45,8 +68,27 @@ export interface GameState {
     Light: boolean;
     Dark: boolean;
   };
-  moveRepetition: number; // Counter for repeated board positions
-  lastBoardHash?: string; // Hash of board state for repetition detection
+  hash: number; // Zobrist hash of the current position
+  positionHistory: number[]; // Hashes of positions since the last irreversible move
+  moveRepetition: number; // Times the current position occurred before
+  startPosition?: string; // Position string the game was set up from; undefined for the standard start
+  clock?: ClockState; // Undefined for untimed games
+  seed?: number; // Seeds the AI's random choices so a replay repeats them; undefined for unseeded games
+}
+
+export type TimeControlPreset = 'off' | 'blitz' | 'rapid' | 'classical' | 'bronstein';
+
+export interface TimeControl {
+  initial: number; // ms per player
+  increment: number; // Fischer increment in ms, added after each turn
+  delay: number; // Bronstein delay in ms, the free part of each turn
+}
+
+export interface ClockState {
+  control: TimeControl;
+  remaining: Record<Player, number>; // ms left at the start of the current turn
+  turnElapsed: number; // ms the side to move has used while the clock ran
+  runningSince: number | null; // Timestamp the clock was last started, null while paused
 }
 
 export interface CaptureResult {
@@ -55,10 +97,14 @@ export interface CaptureResult {
 
 export type Language = 'en' | 'ar';
 export type AIDifficulty = 'beginner' | 'easy' | 'medium' | 'hard';
+export type AIEngine = 'minimax' | 'mcts';
+
+export type UndoPolicy = 'unlimited' | 'limited' | 'disabled';
 
 export interface PlayerConfig {
   type: 'human' | 'ai';
   difficulty?: AIDifficulty;
+  engine?: AIEngine; // Alpha-beta when unset
 }
 
 // GitHub User Types
@@ -76,8 +122,8 @@ export interface GameResult {
   timestamp: number;
   winner: Player | null; // null for draws
   winReason?: WinReason;
-  opponent: 'AI' | 'Guest'; // Since we're AI-only now
-  aiDifficulty?: AIDifficulty;
+  opponent: 'AI' | 'Guest'; // Guest for two people sharing the device
+  aiDifficulty?: AIDifficulty; // The AI opponent's difficulty
   duration: number; // in seconds
   totalMoves: number;
   playerColor: Player;
@@ -86,6 +132,12 @@ export interface GameResult {
     dark: number;
   };
   variant: VariantFlags;
+  boardSize?: BoardSize;
+  usedUndo?: boolean; // Player took back at least one move
+  timeControl?: TimeControlPreset; // Undefined for untimed games
+  seed?: number; // The game's random seed, for replaying the AI's choices
+  record?: string; // The game as an .sgn record, for reviewing it later
+  coached?: boolean; // Played with coach warnings; left out of the ranked stats
 }
 
 // User Stats Types
@@ -99,6 +151,8 @@ export interface PlayerStats {
   averageMovesPerGame: number;
   bestWinStreak: number;
   currentWinStreak: number;
+  timeoutWins: number; // Wins on the opponent's time
+  timeoutLosses: number;
   favoriteColor: Player;
   difficultyStats: Record<AIDifficulty, {
     games: number;
@@ -106,6 +160,7 @@ export interface PlayerStats {
     winRate: number;
   }>;
   recentGames: GameResult[];
+  coachedGames?: number; // Games played with coach warnings, not counted in the figures above
 }
 
 // Auth State
@@ -120,16 +175,38 @@ export interface AuthState {
 export interface GameSettings {
   language: Language;
   variant: VariantFlags;
+  boardSize: BoardSize;
   aiDifficulty: AIDifficulty;
   players: {
     Light: PlayerConfig;
     Dark: PlayerConfig;
   };
   hintsEnabled: boolean;
+  hintLines: number; // Candidate moves the hints panel shows, each with its expected line
   soundEnabled: boolean;
   soundVolume: number;
   capturePreviewsEnabled: boolean;
+  evalBarEnabled: boolean; // Show the engine's view of the position next to the board
+  threatOverlayEnabled: boolean; // Mark stones either side could capture next move
+  coachEnabled: boolean; // Warn before a move that hangs stones or passes up a capture
   moveAnalysisEnabled: boolean;
+  undoPolicy: UndoPolicy;
+  undoLimit: number; // Undos allowed per game when undoPolicy is 'limited'
+  timeControl: TimeControlPreset;
+}
+
+export interface GameRecord {
+  version: number;
+  headers: Record<string, string>; // Every header as written, including unknown ones
+  players: Record<Player, PlayerConfig>;
+  aiDifficulty?: AIDifficulty;
+  boardSize: BoardSize;
+  variant: VariantFlags;
+  date?: string; // YYYY.MM.DD
+  timeControl?: TimeControl; // Timed games only
+  moves: string[]; // One notation token per turn
+  actions: GameAction[];
+  state: GameState; // Final position after replaying the moves
 }
 
 export interface GameSession {
@@ -141,6 +218,7 @@ export interface GameSession {
 // Move Analysis Types
 export interface MoveAnalysis {
   move: AIMove;
+  notation: string; // The move in compact notation, e.g. `c3-c4x`
   score: number;
   reasoning: string[];
   factors: {
@@ -154,7 +232,7 @@ export interface MoveAnalysis {
 }
 
 export interface AIMove {
-  type: 'placement' | 'movement';
+  type: 'placement' | 'movement' | 'endChain'; // Ending a chain names the capturing stone as its one cell
   cells: Cell[];
   from?: Cell;
   to?: Cell;
@@ -0,0 +1,124 @@
+// FILE: src/lib/zobrist.ts
+
+import { GameState, Player, Cell, Phase, BoardSize } from './types';
+
+/**
+ * Zobrist position hashing.
+ *
+ * Every (cell, player) pair and every piece of turn metadata gets a fixed
+ * random key; a position's hash is the XOR of the keys that apply to it.
+ * Because XOR is its own inverse, rules functions update the hash in O(1)
+ * per changed cell instead of re-serializing the board.
+ *
+ * Hashes are 53-bit integers (two XOR-ed halves packed into a safe JS number)
+ * so they can be used directly as Map keys and survive JSON round trips.
+ */
+
+const TWO_32 = 0x100000000;
+const HIGH_MASK = 0x1fffff; // 21 bits, so high * 2^32 + low stays below 2^53
+
+interface ZobristTable {
+  stones: Record<Player, number[]>;
+  darkToMove: number;
+  phase: Record<Phase, number>;
+  chainOrigin: number[];
+  secondPlacement: number;
+}
+
+const tables = new Map<number, ZobristTable>();
+
+/**
+ * XOR two 53-bit hashes
+ */
+export function xorHash(a: number, b: number): number {
+  const high = (Math.floor(a / TWO_32) ^ Math.floor(b / TWO_32)) & HIGH_MASK;
+  const low = ((a >>> 0) ^ (b >>> 0)) >>> 0;
+  return high * TWO_32 + low;
+}
+
+/**
+ * Build the key table for a board size. Keys come from a fixed-seed generator
+ * so hashes are identical across sessions and saved games.
+ */
+function getTable(size: number): ZobristTable {
+  const existing = tables.get(size);
+  if (existing) return existing;
+
+  // mulberry32
+  let seed = 0x5ee7e4 + size;
+  const next32 = () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = seed;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+  const nextKey = () => (next32() & HIGH_MASK) * TWO_32 + next32();
+  const cellKeys = () => Array.from({ length: size * size }, nextKey);
+
+  const table: ZobristTable = {
+    stones: { Light: cellKeys(), Dark: cellKeys() },
+    darkToMove: nextKey(),
+    phase: { placement: nextKey(), movement: nextKey(), chain: nextKey() },
+    chainOrigin: cellKeys(),
+    secondPlacement: nextKey()
+  };
+  tables.set(size, table);
+  return table;
+}
+
+/**
+ * Hash contribution of everything except the stones: side to move, phase,
+ * chain origin and whether the second stone of a placement turn is pending
+ */
+function metaKey(state: Pick<GameState, 'rules' | 'current' | 'phase' | 'chainOrigin' | 'placementCount'>): number {
+  const { size } = state.rules;
+  const table = getTable(size);
+  let key = table.phase[state.phase];
+  if (state.current === 'Dark') {
+    key = xorHash(key, table.darkToMove);
+  }
+  if (state.phase === 'chain' && state.chainOrigin) {
+    key = xorHash(key, table.chainOrigin[state.chainOrigin.r * size + state.chainOrigin.c]);
+  }
+  if (state.phase === 'placement' && state.placementCount === 1) {
+    key = xorHash(key, table.secondPlacement);
+  }
+  return key;
+}
+
+/**
+ * Compute a position hash from scratch
+ */
+export function hashPosition(state: Pick<GameState, 'rules' | 'board' | 'current' | 'phase' | 'chainOrigin' | 'placementCount'>): number {
+  const { size } = state.rules;
+  const table = getTable(size);
+  let hash = metaKey(state);
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      const player = state.board[r][c];
+      if (player) {
+        hash = xorHash(hash, table.stones[player][r * size + c]);
+      }
+    }
+  }
+  return hash;
+}
+
+/**
+ * Add or remove a stone from a hash (the same call does both)
+ */
+export function toggleStone(hash: number, size: BoardSize, cell: Cell, player: Player): number {
+  return xorHash(hash, getTable(size).stones[player][cell.r * size + cell.c]);
+}
+
+/**
+ * Swap the turn metadata of `before` for that of `after`
+ */
+export function updateMetaHash(
+  hash: number,
+  before: Pick<GameState, 'rules' | 'current' | 'phase' | 'chainOrigin' | 'placementCount'>,
+  after: Pick<GameState, 'rules' | 'current' | 'phase' | 'chainOrigin' | 'placementCount'>
+): number {
+  return xorHash(xorHash(hash, metaKey(before)), metaKey(after));
+}
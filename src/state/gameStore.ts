@@ -1,27 +1,56 @@
 // FILE: src/state/gameStore.ts
 
 import { create } from 'zustand';
-import { GameState, Language, GameSettings, Cell, Player, AIDifficulty, GameSession, GameResult } from '../lib/types';
+import { GameState, GameAction, Language, GameSettings, Cell, AIDifficulty, AIEngine, Player, PlayerConfig, BoardSize, UndoPolicy, GameSession, GameResult, TimeControlPreset } from '../lib/types';
 import { 
-  initialState7x7, 
-  applyPlacement, 
-  applyMove, 
-  applyChainStep, 
-  endChain,
-  invokeBlockadeIfAny,
+  initialState, 
   hasAnyLegalMove,
-  isCenter,
   countStones,
-  previewCaptures,
-  offerStalemate,
-  rejectStalemate,
-  resignGame,
-  detectStalemate
+  previewCaptures
 } from '../lib/rules';
+import { applyAction, replay } from '../lib/actions';
+import { parseMoveList } from '../lib/notation';
+import { attachClock, createClock, applyClock, startClock, pauseClock, flaggedPlayer, timeControlPreset } from '../lib/clock';
 import { saveGameState, loadGameState, saveSettings, loadSettings } from '../lib/serialize';
-import { getBestAIMove, isAITurn, getOptimalMove, getTopMoves, shouldAIAcceptStalemate, shouldAIOfferStalemate, analyzeAIMove, getLastAIMoveAnalysis } from '../lib/ai';
+import { exportGameRecord, importGameRecord } from '../lib/gameRecord';
+import { formatPosition, parsePosition, startingPosition } from '../lib/position';
+import { isAITurn, isSpectating, playerDifficulty, shouldAIAcceptStalemate, shouldAIOfferStalemate, SearchProgress, AISearchResult, ScoredMove, MAX_HINT_LINES } from '../lib/ai';
+import { aiClient, isSearchCancelled } from '../lib/aiClient';
 import { soundSystem } from '../lib/soundSystem';
+import { createRandom, createSeed, deriveSeed } from '../lib/random';
 import { MoveAnalysis } from '../lib/types';
+import { GameReview } from '../lib/review';
+import { checkForBlunder, BlunderCheck } from '../lib/threats';
+
+/**
+ * A post-game review being searched or shown
+ */
+export interface GameReviewState {
+  start: GameState;
+  actions: GameAction[];
+  progress: number; // Share of positions searched, 0-1
+  review: GameReview | null; // Null until the search finishes
+  selected: number | null; // Position shown on the board: 0 for the start, n after the nth reviewed move
+  position: GameState | null; // That position, replayed
+}
+
+/**
+ * A move the coach stopped before it was played
+ */
+export interface CoachWarning extends BlunderCheck {
+  from: Cell;
+  to: Cell;
+}
+
+/**
+ * A step of a hint's line previewed on the board
+ */
+export interface HintPreview {
+  line: number; // Index into topMoves
+  step: number; // Index into that hint's pv
+  before: GameState; // The position the step is played from
+  position: GameState; // The position after it
+}
 
 interface GameStore {
   // Game state
@@ -38,6 +67,12 @@ interface GameStore {
   toastMessage: string | null;
   blockadeRemovalMode: boolean;
   aiThinking: boolean;
+  aiProgress: SearchProgress | null; // Search progress while the AI thinks
+  lastSearch: AISearchResult | null; // Depth, nodes and expected line of the AI's last search
+  
+  // AI-vs-AI spectator state
+  spectatorPaused: boolean;
+  spectatorSpeed: number; // Multiplies how fast the AI moves while spectating
   
   // Preview state
   hoveredMove: Cell | null;
@@ -45,21 +80,41 @@ interface GameStore {
   
   // Hint system
   showHints: boolean;
-  currentHint: { move: any; score: number; description: string } | null;
-  topMoves: Array<{ move: any; score: number; description: string }>;
+  currentHint: ScoredMove | null;
+  topMoves: ScoredMove[];
   hintsEnabled: boolean;
   hoveredHintIndex: number | null;
+  hintPreview: HintPreview | null;
+  hintsLoading: boolean;
   
   // Move analysis system
   showMoveAnalysis: boolean;
   lastAIAnalysis: MoveAnalysis | null;
   
+  // Post-game review, null when closed
+  gameReview: GameReviewState | null;
+  
+  // Undo/redo timeline
+  undoStack: GameState[];
+  redoStack: GameState[];
+  undosUsed: number;
+  
+  // Coach mode: the move awaiting confirmation, and whether the coach has
+  // looked over any move this game
+  coachWarning: CoachWarning | null;
+  coachUsed: boolean;
+  
+  // Position editor draft, null when not editing
+  editorState: GameState | null;
+  
   // Actions
-  newGame: () => void;
+  newGame: (seed?: number) => void; // A fresh random seed unless one is given, to replay a game
   loadSavedGame: () => void;
+  exportGame: () => string | null;
+  importGame: (text: string) => boolean;
   selectCell: (cell: Cell) => void;
   placeStone: (cell: Cell) => void;
-  moveStone: (from: Cell, to: Cell) => void;
+  moveStone: (from: Cell, to: Cell, confirmed?: boolean) => void; // Confirmed moves skip the coach
   chainStep: (to: Cell) => void;
   endChainCapture: () => void;
   endTurn: () => void;
@@ -70,21 +125,56 @@ interface GameStore {
   rejectStalemate: () => void;
   resignGame: () => void;
   
+  // Clock
+  setTimeControl: (preset: TimeControlPreset) => void;
+  syncClock: () => void;
+  checkClock: () => void;
+  
+  // Undo actions
+  pushUndoState: (previous: GameState) => void;
+  canUndo: () => boolean;
+  undo: () => void;
+  redo: () => void;
+  setUndoPolicy: (policy: UndoPolicy) => void;
+  setUndoLimit: (limit: number) => void;
+  
+  // Position editor actions
+  openEditor: () => void;
+  closeEditor: () => void;
+  editCell: (cell: Cell) => void;
+  updateEditor: (changes: Partial<Pick<GameState, 'current' | 'phase'>>) => void;
+  clearEditor: () => void;
+  loadPosition: (text: string) => boolean;
+  playFromEditor: (opponent: 'ai' | 'human') => void;
+  
   // AI actions
   makeAIMove: () => Promise<void>;
   checkForAITurn: () => void;
+  cancelAISearch: () => void;
+  
+  // Spectator actions
+  setSpectatorPaused: (paused: boolean) => void;
+  stepSpectator: () => void;
+  setSpectatorSpeed: (speed: number) => void;
   
   // Hint actions
   toggleHints: () => void;
-  getHint: () => void;
+  getHint: () => Promise<void>;
   clearHints: () => void;
   setHoveredHintIndex: (index: number | null) => void;
+  setHintPreview: (line: number | null, step?: number) => void;
+  setHintLines: (count: number) => void;
   
   // Move analysis actions
   setShowMoveAnalysis: (show: boolean) => void;
   setMoveAnalysisEnabled: (enabled: boolean) => void;
   updateAIAnalysis: (analysis: MoveAnalysis | null) => void;
   
+  // Post-game review actions
+  reviewGame: (record?: string) => Promise<void>; // The current game, or a stored game's .sgn record
+  closeReview: () => void;
+  showReviewPosition: (index: number | null) => void; // Null returns to the summary
+  
   // Preview actions
   setHoveredMove: (cell: Cell | null) => void;
   updatePreviewCaptures: () => void;
@@ -92,6 +182,9 @@ interface GameStore {
   // UI actions
   setLanguage: (language: Language) => void;
   setAIDifficulty: (difficulty: AIDifficulty) => void;
+  setAIEngine: (player: Player, engine: AIEngine) => void;
+  setPlayerConfig: (player: Player, changes: Partial<PlayerConfig>) => void;
+  setBoardSize: (size: BoardSize) => void;
   toggleVariant: (variant: keyof GameSettings['variant']) => void;
   setShowAbout: (show: boolean) => void;
   setShowSettings: (show: boolean) => void;
@@ -100,6 +193,11 @@ interface GameStore {
   showToast: (message: string) => void;
   clearToast: () => void;
   setCapturePreviewsEnabled: (enabled: boolean) => void;
+  setEvalBarEnabled: (enabled: boolean) => void;
+  setThreatOverlayEnabled: (enabled: boolean) => void;
+  setCoachEnabled: (enabled: boolean) => void;
+  confirmCoachMove: () => void;
+  dismissCoachWarning: () => void;
   
   // Sound actions
   setSoundEnabled: (enabled: boolean) => void;
@@ -110,6 +208,70 @@ interface GameStore {
   endGameSession: () => Promise<void>;
 }
 
+/**
+ * Keep an editor draft playable as stones are added and removed: during
+ * placement the stones left to place and the stones placed this turn follow
+ * from the board, afterwards both are zero
+ */
+function syncEditorDraft(draft: GameState): GameState {
+  const { stonesPerPlayer } = draft.rules;
+  const light = countStones(draft, 'Light');
+  const dark = countStones(draft, 'Dark');
+  const synced: GameState = { ...draft, chainOrigin: undefined };
+  
+  if (draft.phase === 'placement') {
+    synced.stonesToPlace = {
+      Light: Math.max(0, stonesPerPlayer - light),
+      Dark: Math.max(0, stonesPerPlayer - dark)
+    };
+    // Light places first, so a one-stone lead means a turn is half done
+    synced.placementCount = light - dark === 1 ? 1 : 0;
+  } else {
+    synced.phase = 'movement';
+    synced.stonesToPlace = { Light: 0, Dark: 0 };
+    synced.placementCount = 0;
+  }
+  return synced;
+}
+
+/**
+ * Apply an action and charge the mover's clock for it
+ */
+function applyTimedAction(state: GameState, action: GameAction): GameState {
+  return applyClock(state, applyAction(state, action), Date.now());
+}
+
+/**
+ * Undo timeline snapshots keep the clock they had when recorded; going back
+ * restores that time and leaves the clock stopped until `syncClock` runs
+ */
+function withStoppedClock(state: GameState): GameState {
+  return state.clock ? { ...state, clock: { ...state.clock, runningSince: null } } : state;
+}
+
+// Bumped whenever running AI work becomes stale, so late results are dropped
+let aiGeneration = 0;
+
+// Ticks while a clock runs so a flag falls even if nobody moves
+let clockTimer: ReturnType<typeof setInterval> | null = null;
+const CLOCK_TICK_MS = 250;
+
+// Aborts the running review when it is closed or replaced
+let reviewAbort: AbortController | null = null;
+
+// Seed stream for the AI's thinking pause, kept apart from its move choices
+const THINKING_DELAY_STREAM = 1;
+
+/**
+ * The side to move is blocked and must give up a stone before continuing
+ */
+function needsBlockadeRemoval(state: GameState): boolean {
+  return state.phase === 'movement' &&
+    state.variant.blockadeOneRemoval &&
+    state.winner === undefined &&
+    !hasAnyLegalMove(state, state.current);
+}
+
 const defaultSettings: GameSettings = {
   language: 'en',
   aiDifficulty: 'beginner',
@@ -122,15 +284,23 @@ const defaultSettings: GameSettings = {
     antiShuttle: false,
     blockadeOneRemoval: true
   },
+  boardSize: 7,
   hintsEnabled: false,
+  hintLines: 3,
   soundEnabled: true,
   soundVolume: 0.5,
   capturePreviewsEnabled: true,
-  moveAnalysisEnabled: true
+  evalBarEnabled: false,
+  threatOverlayEnabled: false,
+  coachEnabled: false,
+  moveAnalysisEnabled: true,
+  undoPolicy: 'unlimited',
+  undoLimit: 3,
+  timeControl: 'off'
 };
 
 export const useGameStore = create<GameStore>((set, get) => ({
-  gameState: initialState7x7(),
+  gameState: { ...initialState((loadSettings() || defaultSettings).boardSize), seed: createSeed() },
   selectedCell: null,
   currentSession: null,
   settings: loadSettings() || defaultSettings,
@@ -141,6 +311,10 @@ export const useGameStore = create<GameStore>((set, get) => ({
   toastMessage: null,
   blockadeRemovalMode: false,
   aiThinking: false,
+  aiProgress: null,
+  lastSearch: null,
+  spectatorPaused: false,
+  spectatorSpeed: 1,
   
   // Preview state
   hoveredMove: null,
@@ -152,20 +326,40 @@ export const useGameStore = create<GameStore>((set, get) => ({
   topMoves: [],
   hintsEnabled: (loadSettings() || defaultSettings).hintsEnabled,
   hoveredHintIndex: null,
+  hintPreview: null,
+  hintsLoading: false,
   
   // Move analysis system
   showMoveAnalysis: false,
   lastAIAnalysis: null,
+  
+  gameReview: null,
+  
+  // Undo/redo timeline
+  undoStack: [],
+  redoStack: [],
+  undosUsed: 0,
+  
+  // Coach mode
+  coachWarning: null,
+  coachUsed: false,
+  
+  // Position editor
+  editorState: null,
 
-  newGame: () => {
+  newGame: (seed?: number) => {
     const { settings, endGameSession } = get();
+    get().cancelAISearch();
     
     // End current session if any
     if (get().currentSession) {
       endGameSession();
     }
     
-    const newState = initialState7x7(settings.variant);
+    const newState = attachClock(
+      { ...initialState(settings.boardSize, settings.variant), seed: seed ?? createSeed() },
+      settings.timeControl
+    );
     set({ 
       gameState: newState, 
       selectedCell: null,
@@ -175,8 +369,16 @@ export const useGameStore = create<GameStore>((set, get) => ({
       currentHint: null,
       topMoves: [],
       hoveredHintIndex: null,
+      hintPreview: null,
       previewCaptures: [],
-      hoveredMove: null
+      hoveredMove: null,
+      undoStack: [],
+      redoStack: [],
+      undosUsed: 0,
+      coachWarning: null,
+      coachUsed: false,
+      editorState: null,
+      lastSearch: null
     });
     saveGameState(newState);
     
@@ -193,13 +395,19 @@ export const useGameStore = create<GameStore>((set, get) => ({
   loadSavedGame: () => {
     const saved = loadGameState();
     if (saved) {
+      get().cancelAISearch();
       set({ 
         gameState: saved, 
         selectedCell: null,
-        blockadeRemovalMode: !hasAnyLegalMove(saved, saved.current),
+        blockadeRemovalMode: needsBlockadeRemoval(saved),
         aiThinking: false,
         previewCaptures: [],
-        hoveredMove: null
+        hoveredMove: null,
+        undoStack: [],
+        redoStack: [],
+        undosUsed: 0,
+        coachWarning: null,
+        coachUsed: false
       });
       
       // Check if it's AI's turn after loading
@@ -207,6 +415,64 @@ export const useGameStore = create<GameStore>((set, get) => ({
     }
   },
 
+  exportGame: () => {
+    const { gameState, settings } = get();
+    
+    try {
+      return exportGameRecord(gameState, settings);
+    } catch (error) {
+      get().showToast((error as Error).message);
+      soundSystem.play('invalid');
+      return null;
+    }
+  },
+
+  importGame: (text: string) => {
+    try {
+      // Validate before touching the current game
+      const record = importGameRecord(text);
+      get().cancelAISearch();
+      
+      if (get().currentSession) {
+        get().endGameSession();
+      }
+      
+      // The record keeps the time control but not the time left, so the clock restarts full
+      const gameState: GameState = record.timeControl
+        ? { ...record.state, clock: createClock(record.timeControl) }
+        : record.state;
+      
+      set({ 
+        gameState, 
+        selectedCell: null,
+        blockadeRemovalMode: needsBlockadeRemoval(gameState),
+        aiThinking: false,
+        showHints: false,
+        currentHint: null,
+        topMoves: [],
+        hoveredHintIndex: null,
+        hintPreview: null,
+        previewCaptures: [],
+        hoveredMove: null,
+        undoStack: [],
+        redoStack: [],
+        undosUsed: 0,
+        coachWarning: null,
+        coachUsed: false,
+        editorState: null
+      });
+      saveGameState(gameState);
+      get().showToast(`Imported game with ${record.moves.length} moves`);
+      
+      setTimeout(() => get().checkForAITurn(), 100);
+      return true;
+    } catch (error) {
+      get().showToast(`Could not import game: ${(error as Error).message}`);
+      soundSystem.play('invalid');
+      return false;
+    }
+  },
+
   selectCell: (cell: Cell) => {
     const { gameState, selectedCell, settings, aiThinking } = get();
     
@@ -274,56 +540,18 @@ export const useGameStore = create<GameStore>((set, get) => ({
     const { gameState } = get();
     
     try {
-      // Validate the placement first
-      if (gameState.board[cell.r][cell.c] !== null) {
-        throw new Error('Cell already occupied');
-      }
+      const placedBy = gameState.current;
+      const newState = applyTimedAction(gameState, { type: 'place', cells: [cell] });
+      get().pushUndoState(gameState);
       
-      if (isCenter(cell)) {
-        throw new Error('Cannot place in center during placement phase');
-      }
+      set({ gameState: newState });
+      saveGameState(newState);
       
-      if (gameState.placementCount === 0) {
-        // First stone of the turn - just place it and increment counter
-        const newState = { ...gameState };
-        newState.board = gameState.board.map(row => [...row]);
-        newState.board[cell.r][cell.c] = gameState.current;
-        newState.placementCount = 1;
-        newState.stonesToPlace = {
-          ...gameState.stonesToPlace,
-          [gameState.current]: gameState.stonesToPlace[gameState.current] - 1
-        };
-        
-        set({ gameState: newState });
-        saveGameState(newState);
-        
-        // Play placement sound
-        soundSystem.play('place');
-      } else if (gameState.placementCount === 1) {
-        // Second stone - place it and end turn
-        const currentPlayer = gameState.current;
-        const newState = { ...gameState };
-        newState.board = gameState.board.map(row => [...row]);
-        newState.board[cell.r][cell.c] = currentPlayer;
-        newState.placementCount = 0;
-        newState.current = currentPlayer === 'Light' ? 'Dark' : 'Light';
-        newState.stonesToPlace = {
-          ...gameState.stonesToPlace,
-          [currentPlayer]: gameState.stonesToPlace[currentPlayer] - 1
-        };
-        
-        // Check if placement phase is complete
-        if (newState.stonesToPlace.Light <= 0 && newState.stonesToPlace.Dark <= 0) {
-          newState.phase = 'movement';
-        }
-        
-        set({ gameState: newState });
-        saveGameState(newState);
-        
-        // Play placement sound
-        soundSystem.play('place');
-        
-        // Check for AI turn after placement
+      // Play placement sound
+      soundSystem.play('place');
+      
+      // Second stone ends the turn - check for AI turn after placement
+      if (newState.current !== placedBy) {
         setTimeout(() => get().checkForAITurn(), 300);
       }
     } catch (error) {
@@ -332,11 +560,22 @@ export const useGameStore = create<GameStore>((set, get) => ({
     }
   },
 
-  moveStone: (from: Cell, to: Cell) => {
-    const { gameState, currentSession } = get();
+  moveStone: (from: Cell, to: Cell, confirmed: boolean = false) => {
+    const { gameState, currentSession, settings } = get();
+    
+    // The coach looks over human moves before they are played
+    if (settings.coachEnabled && !isAITurn(gameState, settings.players)) {
+      set({ coachUsed: true });
+      const check = confirmed ? null : checkForBlunder(gameState, from, to);
+      if (check) {
+        set({ coachWarning: { ...check, from, to } });
+        return;
+      }
+    }
     
     try {
-      const newState = applyMove(gameState, from, to);
+      const newState = applyTimedAction(gameState, { type: 'move', from, to });
+      get().pushUndoState(gameState);
       
       // Update session move count
       if (currentSession) {
@@ -348,9 +587,6 @@ export const useGameStore = create<GameStore>((set, get) => ({
         });
       }
 
-      // Check for blockade after turn change
-      const needsBlockadeResolution = !hasAnyLegalMove(newState, newState.current);
-
       // If entering chain capture mode, set selectedCell to chainOrigin
       // so the player can see valid moves for continuing the chain
       const newSelectedCell = newState.phase === 'chain' && newState.chainOrigin
@@ -360,7 +596,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
       set({
         gameState: newState,
         selectedCell: newSelectedCell,
-        blockadeRemovalMode: needsBlockadeResolution && !newState.winner
+        blockadeRemovalMode: needsBlockadeRemoval(newState)
       });
       saveGameState(newState);
 
@@ -392,7 +628,8 @@ export const useGameStore = create<GameStore>((set, get) => ({
     const { gameState, currentSession } = get();
     
     try {
-      const newState = applyChainStep(gameState, to);
+      const newState = applyTimedAction(gameState, { type: 'chainStep', to });
+      get().pushUndoState(gameState);
       
       // Update session move count
       if (currentSession) {
@@ -424,13 +661,13 @@ export const useGameStore = create<GameStore>((set, get) => ({
     const { gameState } = get();
     
     try {
-      const newState = endChain(gameState);
-      const needsBlockadeResolution = !hasAnyLegalMove(newState, newState.current);
+      const newState = applyTimedAction(gameState, { type: 'endChain' });
+      get().pushUndoState(gameState);
       
       set({ 
         gameState: newState, 
         selectedCell: null,
-        blockadeRemovalMode: needsBlockadeResolution && !newState.winner
+        blockadeRemovalMode: needsBlockadeRemoval(newState)
       });
       saveGameState(newState);
       
@@ -457,28 +694,15 @@ export const useGameStore = create<GameStore>((set, get) => ({
     const { gameState } = get();
     
     try {
-      // Only allow ending turn if no moves available during movement phase
-      if (gameState.phase !== 'movement' || hasAnyLegalMove(gameState, gameState.current)) {
-        get().showToast('You have available moves');
-        soundSystem.play('invalid');
-        return;
-      }
-      
-      // Switch to next player
-      const nextPlayer: Player = gameState.current === 'Light' ? 'Dark' : 'Light';
-      const newState = { 
-        ...gameState, 
-        current: nextPlayer,
-        capturedLastMove: []
-      };
+      // Only allowed when no moves are available during movement phase
+      const newState = applyTimedAction(gameState, { type: 'pass' });
+      get().pushUndoState(gameState);
       
       // Check for blockade after turn change
-      const needsBlockadeResolution = !hasAnyLegalMove(newState, newState.current);
-      
       set({ 
         gameState: newState, 
         selectedCell: null,
-        blockadeRemovalMode: needsBlockadeResolution && !newState.winner
+        blockadeRemovalMode: needsBlockadeRemoval(newState)
       });
       saveGameState(newState);
       
@@ -497,16 +721,26 @@ export const useGameStore = create<GameStore>((set, get) => ({
     const { gameState } = get();
     
     try {
-      const newState = invokeBlockadeIfAny(gameState, cell);
+      const newState = applyTimedAction(gameState, { type: 'removeBlockade', cell });
+      get().pushUndoState(gameState);
+      // A side still walled in goes on removing stones
       set({ 
         gameState: newState, 
         selectedCell: null,
-        blockadeRemovalMode: false
+        blockadeRemovalMode: needsBlockadeRemoval(newState)
       });
       saveGameState(newState);
       get().showToast('Blockade stone removed');
       soundSystem.play('capture'); // Use capture sound for stone removal
       
+      // Check if game ended and end session
+      if (newState.winner !== undefined) {
+        setTimeout(() => {
+          soundSystem.play('win');
+          get().endGameSession();
+        }, 300);
+      }
+      
       // Check for AI turn after blockade resolution
       setTimeout(() => get().checkForAITurn(), 300);
     } catch (error) {
@@ -515,6 +749,223 @@ export const useGameStore = create<GameStore>((set, get) => ({
     }
   },
 
+  // Undo Actions
+  pushUndoState: (previous: GameState) => {
+    const { undoStack } = get();
+    // A new decision invalidates any undone moves
+    set({ undoStack: [...undoStack, previous], redoStack: [] });
+  },
+
+  canUndo: () => {
+    const { undoStack, undosUsed, settings, gameState } = get();
+    
+    // Undo is allowed while the AI thinks and cancels its search
+    if (gameState.winner || undoStack.length === 0) {
+      return false;
+    }
+    
+    switch (settings.undoPolicy) {
+      case 'unlimited':
+        return true;
+      case 'limited':
+        return undosUsed < settings.undoLimit;
+      case 'disabled':
+        return false;
+    }
+  },
+
+  undo: () => {
+    const { gameState, undoStack, redoStack, undosUsed, settings } = get();
+    
+    if (!get().canUndo()) {
+      return;
+    }
+    get().cancelAISearch();
+    
+    // Step back at least once, then past any AI decisions so the human
+    // lands on their own last decision point
+    const newUndoStack = [...undoStack];
+    const newRedoStack = [...redoStack];
+    let target = gameState;
+    do {
+      newRedoStack.push(target);
+      target = newUndoStack.pop()!;
+    } while (newUndoStack.length > 0 && isAITurn(target, settings.players));
+    target = withStoppedClock(target);
+    
+    set({
+      gameState: target,
+      undoStack: newUndoStack,
+      redoStack: newRedoStack,
+      undosUsed: undosUsed + 1,
+      selectedCell: target.phase === 'chain' && target.chainOrigin ? target.chainOrigin : null,
+      blockadeRemovalMode: needsBlockadeRemoval(target),
+      previewCaptures: [],
+      hoveredMove: null,
+      lastAIAnalysis: null
+    });
+    get().clearHints();
+    saveGameState(target);
+    soundSystem.play('move');
+    
+    // Only the AI's opening move can leave us on an AI turn
+    setTimeout(() => get().checkForAITurn(), 300);
+  },
+
+  redo: () => {
+    const { gameState, undoStack, redoStack, settings } = get();
+    
+    if (redoStack.length === 0) {
+      return;
+    }
+    get().cancelAISearch();
+    
+    // Replay forward to the human's next decision point, including the
+    // AI replies that were recorded before the undo
+    const newUndoStack = [...undoStack];
+    const newRedoStack = [...redoStack];
+    let target = gameState;
+    do {
+      newUndoStack.push(target);
+      target = newRedoStack.pop()!;
+    } while (newRedoStack.length > 0 && isAITurn(target, settings.players));
+    target = withStoppedClock(target);
+    
+    set({
+      gameState: target,
+      undoStack: newUndoStack,
+      redoStack: newRedoStack,
+      selectedCell: target.phase === 'chain' && target.chainOrigin ? target.chainOrigin : null,
+      blockadeRemovalMode: needsBlockadeRemoval(target),
+      previewCaptures: [],
+      hoveredMove: null
+    });
+    get().clearHints();
+    saveGameState(target);
+    soundSystem.play('move');
+    
+    setTimeout(() => get().checkForAITurn(), 300);
+  },
+
+  setUndoPolicy: (policy: UndoPolicy) => {
+    const newSettings = { ...get().settings, undoPolicy: policy };
+    set({ settings: newSettings });
+    saveSettings(newSettings);
+  },
+
+  setUndoLimit: (limit: number) => {
+    const newSettings = { ...get().settings, undoLimit: limit };
+    set({ settings: newSettings });
+    saveSettings(newSettings);
+  },
+
+  // Position editor actions
+  openEditor: () => {
+    const { gameState, aiThinking } = get();
+    if (aiThinking) return;
+    
+    set({
+      editorState: syncEditorDraft({ ...gameState, board: gameState.board.map(row => [...row]), winner: undefined, winReason: undefined }),
+      selectedCell: null,
+      previewCaptures: [],
+      hoveredMove: null,
+      showHints: false
+    });
+  },
+
+  closeEditor: () => set({ editorState: null }),
+
+  editCell: (cell: Cell) => {
+    const { editorState } = get();
+    if (!editorState) return;
+    
+    // Cycle empty -> Light -> Dark -> empty
+    const board = editorState.board.map(row => [...row]);
+    const current = board[cell.r][cell.c];
+    board[cell.r][cell.c] = current === null ? 'Light' : current === 'Light' ? 'Dark' : null;
+    set({ editorState: syncEditorDraft({ ...editorState, board }) });
+  },
+
+  updateEditor: (changes: Partial<Pick<GameState, 'current' | 'phase'>>) => {
+    const { editorState } = get();
+    if (!editorState) return;
+    set({ editorState: syncEditorDraft({ ...editorState, ...changes }) });
+  },
+
+  clearEditor: () => {
+    const { editorState } = get();
+    if (!editorState) return;
+    set({ editorState: initialState(editorState.rules.size, editorState.variant) });
+  },
+
+  loadPosition: (text: string) => {
+    try {
+      set({ editorState: parsePosition(text) });
+      return true;
+    } catch (error) {
+      get().showToast((error as Error).message);
+      soundSystem.play('invalid');
+      return false;
+    }
+  },
+
+  playFromEditor: (opponent: 'ai' | 'human') => {
+    const { editorState, settings, endGameSession } = get();
+    if (!editorState) return;
+    
+    try {
+      const startPosition = formatPosition(editorState);
+      const newState: GameState = attachClock(
+        { ...parsePosition(startPosition), startPosition, seed: createSeed() },
+        settings.timeControl
+      );
+      get().cancelAISearch();
+      
+      if (get().currentSession) {
+        endGameSession();
+      }
+      
+      const newSettings: GameSettings = {
+        ...settings,
+        players: {
+          Light: { ...settings.players.Light, type: 'human' },
+          Dark: opponent === 'ai'
+            ? { ...settings.players.Dark, type: 'ai', difficulty: playerDifficulty(settings, 'Dark') }
+            : { ...settings.players.Dark, type: 'human' }
+        }
+      };
+      set({
+        settings: newSettings,
+        gameState: newState,
+        editorState: null,
+        selectedCell: null,
+        blockadeRemovalMode: needsBlockadeRemoval(newState),
+        aiThinking: false,
+        showHints: false,
+        currentHint: null,
+        topMoves: [],
+        hoveredHintIndex: null,
+        hintPreview: null,
+        previewCaptures: [],
+        hoveredMove: null,
+        undoStack: [],
+        redoStack: [],
+        undosUsed: 0,
+        coachWarning: null,
+        coachUsed: false
+      });
+      saveSettings(newSettings);
+      saveGameState(newState);
+      
+      soundSystem.play('newGame');
+      get().startGameSession();
+      setTimeout(() => get().checkForAITurn(), 100);
+    } catch (error) {
+      get().showToast((error as Error).message);
+      soundSystem.play('invalid');
+    }
+  },
+
   // AI Actions
   makeAIMove: async () => {
     const { gameState, settings } = get();
@@ -523,84 +974,86 @@ export const useGameStore = create<GameStore>((set, get) => ({
       return;
     }
     
-    set({ aiThinking: true });
+    // New games, undo and settings changes cancel the search and bump the generation
+    const generation = aiGeneration;
+    const isStale = () => generation !== aiGeneration;
+    const difficulty = playerDifficulty(settings, gameState.current);
+    // Spectators can speed up or slow down the pauses between moves
+    const speed = isSpectating(settings.players) ? get().spectatorSpeed : 1;
+    const search = async (state: GameState) => {
+      const engine = settings.players[state.current].engine ?? 'minimax';
+      const result = await aiClient.search(state, difficulty, engine, progress => {
+        if (!isStale()) set({ aiProgress: progress });
+      });
+      if (!isStale()) set({ lastSearch: result });
+      return result;
+    };
+    
+    set({ aiThinking: true, aiProgress: null });
     
     try {
       // Add a small delay to show thinking state
-      await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 1000));
+      const delayRandom = gameState.seed === undefined
+        ? Math.random
+        : createRandom(deriveSeed(gameState.seed, gameState.actionHistory.length, THINKING_DELAY_STREAM));
+      await new Promise(resolve => setTimeout(resolve, (500 + delayRandom() * 1000) / speed));
+      if (isStale()) return;
       
       if (gameState.phase === 'placement') {
-        // Handle AI placement - need to place two stones per turn
-        if (gameState.placementCount === 0) {
-          // First stone of AI turn
-          const aiMove1 = getBestAIMove(gameState, settings.aiDifficulty);
-          if (!aiMove1 || aiMove1.type !== 'placement') {
-            set({ aiThinking: false });
-            return;
-          }
-          
-          // Place first stone
-          get().placeStone(aiMove1.cells[0]);
-          
+        // Both stones of the turn come from one search
+        const { move: aiMove } = await search(gameState);
+        if (isStale()) return;
+        if (!aiMove || aiMove.type !== 'placement') {
+          set({ aiThinking: false, aiProgress: null });
+          return;
+        }
+        
+        const [first, second] = aiMove.cells;
+        get().placeStone(first);
+        
+        if (second) {
           // Small delay before second placement
-          await new Promise(resolve => setTimeout(resolve, 300));
+          await new Promise(resolve => setTimeout(resolve, 300 / speed));
+          if (isStale()) return;
           
-          // Get current state after first placement
+          // Only place the second stone if it's still the AI's half-finished turn
           const currentState = get().gameState;
-          
-          // Only proceed with second stone if still in placement and it's still AI's turn
           if (currentState.phase === 'placement' && currentState.placementCount === 1 && 
               isAITurn(currentState, settings.players)) {
-            const aiMove2 = getBestAIMove(currentState, settings.aiDifficulty);
-            if (aiMove2 && aiMove2.type === 'placement') {
-              get().placeStone(aiMove2.cells[0]);
-            }
-          }
-        } else if (gameState.placementCount === 1) {
-          // Second stone of AI turn (fallback case)
-          const aiMove = getBestAIMove(gameState, settings.aiDifficulty);
-          if (aiMove && aiMove.type === 'placement') {
-            get().placeStone(aiMove.cells[0]);
+            get().placeStone(second);
           }
         }
       } else if (gameState.phase === 'chain') {
-        // Handle chain capture phase
-        const aiMove = getBestAIMove(gameState, settings.aiDifficulty);
+        // The search weighs every continuation against ending the chain
+        const { action } = await search(gameState);
+        if (isStale()) return;
 
-        if (!aiMove || !aiMove.from || !aiMove.to) {
-          // No more captures available, end the chain
+        if (action?.type === 'chainStep') {
+          get().chainStep(action.to);
+        } else {
           get().endChainCapture();
-          set({ aiThinking: false });
-          return;
         }
+      } else if (!hasAnyLegalMove(gameState, gameState.current)) {
+        // Blockaded: the search picks which stone to give up, or passes
+        const { action } = await search(gameState);
+        if (isStale()) return;
 
-        // Check if continuing the chain would result in another capture
-        // by simulating the move
-        const tempState = { ...gameState, phase: 'movement' as const };
-        try {
-          const simulatedState = applyMove(tempState, aiMove.from, aiMove.to);
-          if (simulatedState.capturedLastMove.length > 0) {
-            // This move would capture, so continue the chain
-            get().chainStep(aiMove.to);
-          } else {
-            // No capture would happen, end the chain instead
-            get().endChainCapture();
-          }
-        } catch {
-          // If move fails, end the chain
-          get().endChainCapture();
+        if (action?.type === 'removeBlockade') {
+          get().removeBlockadeStone(action.cell);
+        } else if (action?.type === 'pass') {
+          get().endTurn();
         }
       } else {
         // Check for stalemate decisions first
-        const humanPlayer = gameState.current === 'Light' ? 'Dark' : 'Light';
+        const opponent = gameState.current === 'Light' ? 'Dark' : 'Light';
 
-        // If human offered stalemate, decide whether to accept
-        if (gameState.stalemateOffers[humanPlayer]) {
-          const shouldAccept = shouldAIAcceptStalemate(gameState, settings.aiDifficulty);
+        // If the opponent offered stalemate, decide whether to accept
+        if (gameState.stalemateOffers[opponent]) {
+          const shouldAccept = shouldAIAcceptStalemate(gameState, difficulty);
 
           if (shouldAccept) {
             get().offerStalemate(); // Accept by offering stalemate too
-            set({ aiThinking: false });
+            set({ aiThinking: false, aiProgress: null });
             return;
           } else {
             get().rejectStalemate(); // Reject the offer
@@ -608,26 +1061,25 @@ export const useGameStore = create<GameStore>((set, get) => ({
           }
         }
 
-        // Check if AI should offer stalemate
+        // Offering does not end the turn, so the AI still moves afterwards
         if (!gameState.stalemateOffers[gameState.current] &&
-            shouldAIOfferStalemate(gameState, settings.aiDifficulty)) {
+            shouldAIOfferStalemate(gameState, difficulty)) {
           get().offerStalemate();
-          set({ aiThinking: false });
-          return;
         }
 
         // Handle AI movement
-        const aiMove = getBestAIMove(gameState, settings.aiDifficulty);
+        const { move: aiMove } = await search(get().gameState);
+        if (isStale()) return;
 
         if (!aiMove) {
-          set({ aiThinking: false });
+          set({ aiThinking: false, aiProgress: null });
           return;
         }
 
-        // Generate move analysis if enabled
-        const { settings } = get();
-        if (settings.moveAnalysisEnabled && aiMove.from && aiMove.to) {
-          const analysis = analyzeAIMove(gameState, aiMove, settings.aiDifficulty);
+        // Generate move analysis if enabled (the setting may have changed while thinking)
+        if (get().settings.moveAnalysisEnabled && aiMove.from && aiMove.to) {
+          const analysis = await aiClient.analyze(get().gameState, aiMove, difficulty);
+          if (isStale()) return;
           get().updateAIAnalysis(analysis);
         }
 
@@ -636,26 +1088,64 @@ export const useGameStore = create<GameStore>((set, get) => ({
         }
       }
       
-      set({ aiThinking: false });
+      set({ aiThinking: false, aiProgress: null });
     } catch (error) {
-      set({ aiThinking: false });
+      // Whoever cancelled the search has already reset the thinking state
+      if (isSearchCancelled(error) || isStale()) return;
+      set({ aiThinking: false, aiProgress: null });
       get().showToast('AI move failed');
       soundSystem.play('invalid');
     }
   },
 
   checkForAITurn: () => {
-    const { gameState, settings, aiThinking, blockadeRemovalMode } = get();
+    const { gameState, settings, aiThinking, editorState, spectatorPaused } = get();
+    
+    if (aiThinking || editorState || gameState.winner) {
+      return;
+    }
     
-    if (aiThinking || blockadeRemovalMode || gameState.winner) {
+    // A paused AI-vs-AI game only moves when stepped
+    if (spectatorPaused && isSpectating(settings.players)) {
       return;
     }
     
+    // A blockaded AI resolves the blockade itself
     if (isAITurn(gameState, settings.players)) {
       get().makeAIMove();
     }
   },
 
+  cancelAISearch: () => {
+    aiGeneration++;
+    aiClient.cancelAll();
+    set({ aiThinking: false, aiProgress: null, hintsLoading: false });
+  },
+
+  // Spectator Actions
+  setSpectatorPaused: (paused: boolean) => {
+    set({ spectatorPaused: paused });
+    
+    // The move being thought about still finishes after a pause
+    if (!paused) {
+      get().checkForAITurn();
+    }
+  },
+
+  stepSpectator: () => {
+    const { gameState, settings, aiThinking, editorState } = get();
+    
+    if (aiThinking || editorState || gameState.winner || !isSpectating(settings.players)) {
+      return;
+    }
+    
+    get().makeAIMove();
+  },
+
+  setSpectatorSpeed: (speed: number) => {
+    set({ spectatorSpeed: speed });
+  },
+
   // Hint Actions
   toggleHints: () => {
     const { hintsEnabled } = get();
@@ -667,28 +1157,37 @@ export const useGameStore = create<GameStore>((set, get) => ({
       showHints: false,
       currentHint: null,
       topMoves: [],
-      hoveredHintIndex: null
+      hoveredHintIndex: null,
+      hintPreview: null
     });
     saveSettings(newSettings);
   },
 
-  getHint: () => {
-    const { gameState, settings, aiThinking } = get();
+  getHint: async () => {
+    const { gameState, settings, aiThinking, hintsLoading } = get();
     
     // Don't show hints during AI turn or when AI is thinking
-    if (aiThinking || isAITurn(gameState, settings.players) || gameState.winner) {
+    if (aiThinking || hintsLoading || isAITurn(gameState, settings.players) || gameState.winner) {
       return;
     }
     
+    set({ hintsLoading: true });
     try {
-      const topMoves = getTopMoves(gameState, 3);
+      const topMoves = await aiClient.topMoves(gameState, settings.hintLines);
+      // The position changed while the hints were computed
+      if (get().gameState !== gameState) {
+        set({ hintsLoading: false });
+        return;
+      }
       const optimalMove = topMoves[0] || null;
       
       set({ 
         showHints: true,
         currentHint: optimalMove,
         topMoves,
-        hoveredHintIndex: null // Reset hover state when getting new hints
+        hoveredHintIndex: null, // Reset hover state when getting new hints
+        hintPreview: null,
+        hintsLoading: false
       });
       
       if (optimalMove) {
@@ -697,6 +1196,8 @@ export const useGameStore = create<GameStore>((set, get) => ({
         get().showToast('No moves available');
       }
     } catch (error) {
+      if (isSearchCancelled(error)) return;
+      set({ hintsLoading: false });
       get().showToast('Could not generate hint');
     }
   },
@@ -706,7 +1207,8 @@ export const useGameStore = create<GameStore>((set, get) => ({
       showHints: false,
       currentHint: null,
       topMoves: [],
-      hoveredHintIndex: null
+      hoveredHintIndex: null,
+      hintPreview: null
     });
   },
 
@@ -725,6 +1227,38 @@ export const useGameStore = create<GameStore>((set, get) => ({
     }
   },
 
+  setHintPreview: (line: number | null, step: number = 0) => {
+    const { gameState, topMoves } = get();
+    const pv = line === null ? undefined : topMoves[line]?.pv;
+    if (line === null || !pv || step < 0 || step >= pv.length) {
+      set({ hintPreview: null });
+      return;
+    }
+
+    try {
+      const before = replay(gameState, parseMoveList(gameState, pv.slice(0, step)));
+      const position = replay(before, parseMoveList(before, [pv[step]]));
+      set({ hintPreview: { line, step, before, position } });
+      get().setHoveredHintIndex(line);
+    } catch (error) {
+      // A line searched for an older position no longer applies
+      set({ hintPreview: null });
+    }
+  },
+
+  setHintLines: (count: number) => {
+    const { settings, showHints } = get();
+    const hintLines = Math.min(MAX_HINT_LINES, Math.max(1, Math.round(count)));
+    const newSettings = { ...settings, hintLines };
+    set({ settings: newSettings });
+    saveSettings(newSettings);
+
+    // Shown hints are searched again with the new number of lines
+    if (showHints && hintLines !== settings.hintLines) {
+      get().getHint();
+    }
+  },
+
   setHoveredMove: (cell: Cell | null) => {
     set({ hoveredMove: cell });
     if (cell) {
@@ -758,16 +1292,75 @@ export const useGameStore = create<GameStore>((set, get) => ({
 
   setAIDifficulty: (difficulty: AIDifficulty) => {
     const { settings } = get();
+    // The default for new AI players, and the level of every current one
+    const withDifficulty = (config: PlayerConfig) => config.type === 'ai' ? { ...config, difficulty } : config;
     const newSettings = {
       ...settings,
       aiDifficulty: difficulty,
       players: {
-        Light: { type: 'human' as const },
-        Dark: { type: 'ai' as const, difficulty }
+        Light: withDifficulty(settings.players.Light),
+        Dark: withDifficulty(settings.players.Dark)
+      }
+    };
+    set({ settings: newSettings });
+    saveSettings(newSettings);
+    
+    // A search already running used the old difficulty
+    if (get().aiThinking) {
+      get().cancelAISearch();
+      setTimeout(() => get().checkForAITurn(), 300);
+    }
+  },
+
+  setAIEngine: (player: Player, engine: AIEngine) => {
+    const { settings } = get();
+    const newSettings = {
+      ...settings,
+      players: {
+        ...settings.players,
+        [player]: { ...settings.players[player], engine }
+      }
+    };
+    set({ settings: newSettings });
+    saveSettings(newSettings);
+    
+    // A search already running used the old engine
+    if (get().aiThinking && get().gameState.current === player) {
+      get().cancelAISearch();
+      setTimeout(() => get().checkForAITurn(), 300);
+    }
+  },
+
+  setPlayerConfig: (player: Player, changes: Partial<PlayerConfig>) => {
+    const { settings } = get();
+    const newSettings = {
+      ...settings,
+      players: {
+        ...settings.players,
+        [player]: { ...settings.players[player], ...changes }
       }
     };
     set({ settings: newSettings });
     saveSettings(newSettings);
+    
+    // A search already running was for the old player
+    if (get().aiThinking && get().gameState.current === player) {
+      get().cancelAISearch();
+    }
+    // The side to move may have just been handed to the AI
+    setTimeout(() => get().checkForAITurn(), 300);
+  },
+
+  setBoardSize: (size: BoardSize) => {
+    const { settings } = get();
+    if (settings.boardSize === size) return;
+    
+    const newSettings = { ...settings, boardSize: size };
+    set({ settings: newSettings });
+    saveSettings(newSettings);
+    
+    // A different board needs a fresh game
+    get().newGame();
   },
 
   toggleVariant: (variant: keyof GameSettings['variant']) => {
@@ -818,6 +1411,44 @@ export const useGameStore = create<GameStore>((set, get) => ({
     saveSettings(newSettings);
   },
   
+  setEvalBarEnabled: (enabled: boolean) => {
+    const { settings } = get();
+    const newSettings = { ...settings, evalBarEnabled: enabled };
+    set({ settings: newSettings });
+    saveSettings(newSettings);
+  },
+  
+  setThreatOverlayEnabled: (enabled: boolean) => {
+    const { settings } = get();
+    const newSettings = { ...settings, threatOverlayEnabled: enabled };
+    set({ settings: newSettings });
+    saveSettings(newSettings);
+  },
+  
+  setCoachEnabled: (enabled: boolean) => {
+    const { settings } = get();
+    const newSettings = { ...settings, coachEnabled: enabled };
+    set({ settings: newSettings, coachWarning: null });
+    saveSettings(newSettings);
+  },
+  
+  confirmCoachMove: () => {
+    const { coachWarning } = get();
+    if (!coachWarning) return;
+    
+    set({ coachWarning: null });
+    get().moveStone(coachWarning.from, coachWarning.to, true);
+    get().clearHints();
+    set({
+      previewCaptures: [],
+      hoveredMove: null
+    });
+  },
+  
+  dismissCoachWarning: () => {
+    set({ coachWarning: null });
+  },
+  
   startGameSession: () => {
     const session: GameSession = {
       startTime: Date.now(),
@@ -828,14 +1459,15 @@ export const useGameStore = create<GameStore>((set, get) => ({
 
   // Stalemate and resignation actions
   offerStalemate: () => {
-    const { gameState, settings } = get();
+    const { gameState, settings, aiThinking } = get();
     
-    if (gameState.winner || isAITurn(gameState, settings.players)) {
+    // On an AI turn only the AI itself answers, while it is thinking
+    if (gameState.winner || (isAITurn(gameState, settings.players) && !aiThinking)) {
       return;
     }
     
     try {
-      const newState = offerStalemate(gameState);
+      const newState = applyTimedAction(gameState, { type: 'offerStalemate' });
       set({ gameState: newState, selectedCell: null });
       saveGameState(newState);
       
@@ -854,14 +1486,15 @@ export const useGameStore = create<GameStore>((set, get) => ({
   },
 
   rejectStalemate: () => {
-    const { gameState, settings } = get();
+    const { gameState, settings, aiThinking } = get();
     
-    if (gameState.winner || isAITurn(gameState, settings.players)) {
+    // On an AI turn only the AI itself answers, while it is thinking
+    if (gameState.winner || (isAITurn(gameState, settings.players) && !aiThinking)) {
       return;
     }
     
     try {
-      const newState = rejectStalemate(gameState, gameState.current);
+      const newState = applyTimedAction(gameState, { type: 'rejectStalemate' });
       set({ gameState: newState });
       saveGameState(newState);
       get().showToast('Stalemate offer rejected - game continues');
@@ -880,7 +1513,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
     }
     
     try {
-      const newState = resignGame(gameState, gameState.current);
+      const newState = applyTimedAction(gameState, { type: 'resign', player: gameState.current });
       set({ gameState: newState, selectedCell: null });
       saveGameState(newState);
       get().showToast(`${gameState.current} player resigned`);
@@ -892,6 +1525,60 @@ export const useGameStore = create<GameStore>((set, get) => ({
     }
   },
 
+  // Clock actions
+  setTimeControl: (preset: TimeControlPreset) => {
+    const newSettings = { ...get().settings, timeControl: preset };
+    set({ settings: newSettings });
+    saveSettings(newSettings);
+  },
+
+  syncClock: () => {
+    const { gameState, aiThinking, editorState } = get();
+    const clock = gameState.clock;
+    
+    // The clock stops while the AI thinks, while editing and while the tab is hidden
+    const shouldRun = clock !== undefined &&
+      gameState.winner === undefined &&
+      !aiThinking &&
+      !editorState &&
+      !(typeof document !== 'undefined' && document.hidden);
+    
+    if (clock && shouldRun && clock.runningSince === null) {
+      set({ gameState: { ...gameState, clock: startClock(clock, Date.now()) } });
+    } else if (clock && !shouldRun && clock.runningSince !== null) {
+      const paused = { ...gameState, clock: pauseClock(clock, Date.now()) };
+      set({ gameState: paused });
+      // Closing the tab hides it first, so the time used so far is kept
+      saveGameState(paused);
+    }
+    
+    if (shouldRun && !clockTimer) {
+      clockTimer = setInterval(() => get().checkClock(), CLOCK_TICK_MS);
+    } else if (!shouldRun && clockTimer) {
+      clearInterval(clockTimer);
+      clockTimer = null;
+    }
+  },
+
+  checkClock: () => {
+    const { gameState } = get();
+    const player = flaggedPlayer(gameState, Date.now());
+    if (!player) return;
+    
+    const newState = applyTimedAction(gameState, { type: 'timeout', player });
+    set({ 
+      gameState: newState, 
+      selectedCell: null,
+      blockadeRemovalMode: false,
+      previewCaptures: [],
+      hoveredMove: null
+    });
+    saveGameState(newState);
+    get().showToast(`${player} ran out of time`);
+    soundSystem.play('win');
+    get().endGameSession();
+  },
+
   endGameSession: async () => {
     const { currentSession, gameState, settings } = get();
     if (!currentSession) return;
@@ -899,23 +1586,41 @@ export const useGameStore = create<GameStore>((set, get) => ({
     const endTime = Date.now();
     const duration = Math.floor((endTime - currentSession.startTime) / 1000);
     
-    // Only save completed games (with a winner or explicit end)
-    if (gameState.winner || duration > 30) { // At least 30 seconds played
+    // The user's side, and whether they played the AI or someone at the same device
+    const playerColor: Player = settings.players.Light.type === 'human' ? 'Light' : 'Dark';
+    const opponentColor: Player = playerColor === 'Light' ? 'Dark' : 'Light';
+    const opponentIsAI = settings.players[opponentColor].type === 'ai';
+    
+    // Only save completed games (with a winner or explicit end); AI-vs-AI games were only watched
+    if ((gameState.winner || duration > 30) && !isSpectating(settings.players)) { // At least 30 seconds played
+      let record: string | undefined;
+      try {
+        record = exportGameRecord(gameState, settings);
+      } catch {
+        // Games restored from before moves were recorded cannot be reviewed
+      }
+      
       const gameResult: GameResult = {
-        id: `game_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        id: `game_${endTime}_${(gameState.seed ?? createSeed()).toString(36)}`,
         timestamp: currentSession.startTime,
         winner: gameState.winner || null,
         winReason: gameState.winReason,
-        opponent: 'AI',
-        aiDifficulty: settings.aiDifficulty,
+        opponent: opponentIsAI ? 'AI' : 'Guest',
+        aiDifficulty: opponentIsAI ? playerDifficulty(settings, opponentColor) : undefined,
         duration,
         totalMoves: gameState.moveHistory.length,
-        playerColor: 'Light', // Human is always Light in current setup
+        playerColor,
         finalScore: {
           light: countStones(gameState, 'Light'),
           dark: countStones(gameState, 'Dark')
         },
-        variant: gameState.variant
+        variant: gameState.variant,
+        boardSize: gameState.rules.size,
+        usedUndo: get().undosUsed > 0,
+        coached: get().coachUsed,
+        timeControl: gameState.clock ? timeControlPreset(gameState.clock.control) : undefined,
+        seed: gameState.seed,
+        record
       };
       
       // Save to auth store if user is logged in
@@ -952,6 +1657,79 @@ export const useGameStore = create<GameStore>((set, get) => ({
     if (analysis && settings.moveAnalysisEnabled) {
       set({ showMoveAnalysis: true });
     }
+  },
+  
+  // Post-game review actions
+  reviewGame: async (record?: string) => {
+    get().closeReview();
+    
+    let start: GameState;
+    let actions: GameAction[];
+    try {
+      if (record !== undefined) {
+        const game = importGameRecord(record);
+        start = startingPosition(game.state);
+        actions = game.actions;
+      } else {
+        const { gameState } = get();
+        start = startingPosition(gameState);
+        actions = gameState.actionHistory;
+        if (replay(start, actions).hash !== gameState.hash) {
+          throw new Error('This game was saved before moves were recorded and cannot be reviewed');
+        }
+      }
+    } catch (error) {
+      get().showToast((error as Error).message);
+      soundSystem.play('invalid');
+      return;
+    }
+    
+    const controller = new AbortController();
+    reviewAbort = controller;
+    set({ gameReview: { start, actions, progress: 0, review: null, selected: null, position: null } });
+    
+    try {
+      const review = await aiClient.review(start, actions, progress => {
+        const { gameReview } = get();
+        if (!controller.signal.aborted && gameReview) {
+          set({ gameReview: { ...gameReview, progress: progress.searched / progress.total } });
+        }
+      }, controller.signal);
+      if (!controller.signal.aborted) {
+        set({ gameReview: { start, actions, progress: 1, review, selected: null, position: null } });
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      reviewAbort = null;
+      set({ gameReview: null });
+      if (!isSearchCancelled(error)) {
+        console.error('Game review failed:', error);
+        get().showToast((error as Error).message);
+      }
+    }
+  },
+  
+  closeReview: () => {
+    reviewAbort?.abort();
+    reviewAbort = null;
+    set({ gameReview: null });
+  },
+  
+  showReviewPosition: (index: number | null) => {
+    const { gameReview } = get();
+    if (!gameReview?.review) return;
+    
+    if (index === null) {
+      set({ gameReview: { ...gameReview, selected: null, position: null } });
+      return;
+    }
+    
+    // A position runs up to the first action of the next reviewed move
+    const { moves } = gameReview.review;
+    const selected = Math.max(0, Math.min(moves.length, index));
+    const end = moves[selected]?.actionIndex ?? gameReview.actions.length;
+    const position = replay(gameReview.start, gameReview.actions.slice(0, end));
+    set({ gameReview: { ...gameReview, selected, position } });
   }
 }));
 
@@ -963,4 +1741,17 @@ const initializeSoundSystem = () => {
 };
 
 // Initialize on first load
-initializeSoundSystem();
\ No newline at end of file
+initializeSoundSystem();
+
+// Start and stop the clock as the game, the AI and the editor change
+useGameStore.subscribe((state, previous) => {
+  if (state.gameState !== previous.gameState ||
+      state.aiThinking !== previous.aiThinking ||
+      state.editorState !== previous.editorState) {
+    state.syncClock();
+  }
+});
+
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', () => useGameStore.getState().syncClock());
+}
\ No newline at end of file
@@ -0,0 +1,175 @@
+// FILE: src/tests/actions.spec.ts
+
+import { describe, it, expect } from 'vitest';
+import { initialState7x7, applyPlacement } from '../lib/rules';
+import { applyAction, legalActions, replay, turnActions } from '../lib/actions';
+import { boardSymmetries, canonicalKey, SYMMETRIES } from '../lib/symmetry';
+import { hashPosition } from '../lib/zobrist';
+import { GameAction, GameState } from '../lib/types';
+
+/**
+ * Empty movement-phase board with the given stones
+ */
+function movementPosition(stones: Array<[number, number, 'Light' | 'Dark']>): GameState {
+  const state = initialState7x7();
+  state.phase = 'movement';
+  state.stonesToPlace = { Light: 0, Dark: 0 };
+  for (const [r, c, player] of stones) {
+    state.board[r][c] = player;
+  }
+  state.hash = hashPosition(state);
+  state.positionHistory = [state.hash];
+  return state;
+}
+
+describe('Game Actions', () => {
+  it('should list every non-center empty cell during placement', () => {
+    const actions = legalActions(initialState7x7());
+    expect(actions).toHaveLength(48);
+    expect(actions.every(a => a.type === 'place')).toBe(true);
+    expect(actions).not.toContainEqual({ type: 'place', cells: [{ r: 3, c: 3 }] });
+  });
+
+  it('should apply a placement pair and record it', () => {
+    const state = applyAction(initialState7x7(), {
+      type: 'place',
+      cells: [{ r: 0, c: 0 }, { r: 0, c: 1 }]
+    });
+    expect(state.board[0][0]).toBe('Light');
+    expect(state.board[0][1]).toBe('Light');
+    expect(state.current).toBe('Dark');
+    expect(state.actionHistory).toHaveLength(1);
+  });
+
+  it('should reject both stones of a pair on the same cell', () => {
+    const state = initialState7x7();
+    expect(() => applyAction(state, { type: 'place', cells: [{ r: 0, c: 0 }, { r: 0, c: 0 }] }))
+      .toThrow('Cannot place both stones on the same cell');
+    expect(state.board[0][0]).toBeNull();
+    expect(state.stonesToPlace.Light).toBe(24);
+  });
+
+  it('should reject actions that do not fit the phase', () => {
+    const state = initialState7x7({ blockadeOneRemoval: false });
+    expect(() => applyAction(state, { type: 'move', from: { r: 0, c: 0 }, to: { r: 0, c: 1 } }))
+      .toThrow('Still in placement phase');
+    expect(() => applyAction(state, { type: 'place', cells: [] })).toThrow('Must place one or two stones');
+    expect(() => applyAction(state, { type: 'removeBlockade', cell: { r: 0, c: 0 } }))
+      .toThrow('Blockade removal is disabled');
+  });
+
+  it('should offer chain steps and ending the chain after a capture', () => {
+    const state = movementPosition([
+      [2, 0, 'Light'],
+      [2, 1, 'Dark'],
+      [2, 3, 'Light'],
+      [1, 3, 'Dark'],
+      ...[0, 1, 2, 3, 4, 5, 6].map(c => [0, c, 'Light'] as [number, number, 'Light']),
+      ...[0, 1, 2, 3, 4, 5, 6].map(c => [6, c, 'Dark'] as [number, number, 'Dark'])
+    ]);
+    const afterCapture = applyAction(state, { type: 'move', from: { r: 2, c: 3 }, to: { r: 2, c: 2 } });
+    expect(afterCapture.phase).toBe('chain');
+
+    const actions = legalActions(afterCapture);
+    expect(actions).toContainEqual({ type: 'endChain' });
+    expect(actions.filter(a => a.type === 'chainStep').length).toBeGreaterThan(0);
+    expect(() => applyAction(afterCapture, { type: 'move', from: { r: 2, c: 0 }, to: { r: 3, c: 0 } }))
+      .toThrow('Must continue or end the chain capture');
+  });
+
+  it('should offer a pass or blockade removal when blocked', () => {
+    const state = movementPosition([
+      [0, 0, 'Light'],
+      [0, 1, 'Dark'],
+      [1, 0, 'Dark'],
+      [5, 5, 'Dark']
+    ]);
+    expect(legalActions(state)).toEqual([{ type: 'removeBlockade', cell: { r: 0, c: 0 } }]);
+
+    state.variant = { ...state.variant, blockadeOneRemoval: false };
+    expect(legalActions(state)).toEqual([{ type: 'pass' }]);
+  });
+
+  it('should refuse actions once the game is over', () => {
+    const state = applyAction(initialState7x7(), { type: 'resign', player: 'Light' });
+    expect(state.winner).toBe('Dark');
+    expect(legalActions(state)).toEqual([]);
+    expect(() => applyAction(state, { type: 'place', cells: [{ r: 0, c: 0 }] })).toThrow('Game is already over');
+  });
+});
+
+describe('Turn Actions', () => {
+  it('should pair the stones of a placement turn', () => {
+    const state = applyPlacement(initialState7x7(), { r: 0, c: 0 }, { r: 0, c: 1 });
+    const actions = turnActions(state);
+
+    // 46 empty cells and no symmetry left to prune
+    expect(actions).toHaveLength(46 * 45 / 2);
+    expect(actions.every(a => a.type === 'place' && a.cells.length === 2)).toBe(true);
+    expect(() => applyAction(state, actions[0])).not.toThrow();
+  });
+
+  it('should keep one placement pair per symmetry class', () => {
+    const state = initialState7x7();
+    const actions = turnActions(state);
+    const symmetries = boardSymmetries(state.board);
+    const keys = actions.map(a => a.type === 'place' ? canonicalKey(a.cells, 7, symmetries) : '');
+
+    expect(symmetries).toHaveLength(8);
+    expect(new Set(keys).size).toBe(actions.length);
+
+    // Every pair on the empty board is a rotation or reflection of one listed
+    const cells = legalActions(state).map(a => a.type === 'place' ? a.cells[0] : { r: 0, c: 0 });
+    const allKeys = new Set<string>();
+    for (let i = 0; i < cells.length; i++) {
+      for (let j = i + 1; j < cells.length; j++) {
+        allKeys.add(canonicalKey([cells[i], cells[j]], 7, SYMMETRIES));
+      }
+    }
+    expect(actions.length).toBe(allKeys.size);
+    expect(actions).toHaveLength(162); // Down from 1128 pairs
+  });
+
+  it('should place single stones when only one is left for the turn', () => {
+    const halfTurn = applyAction(initialState7x7(), { type: 'place', cells: [{ r: 0, c: 0 }] });
+    const lastStone = initialState7x7();
+    lastStone.stonesToPlace = { Light: 1, Dark: 1 };
+
+    expect(turnActions(halfTurn).every(a => a.type === 'place' && a.cells.length === 1)).toBe(true);
+    expect(turnActions(lastStone).every(a => a.type === 'place' && a.cells.length === 1)).toBe(true);
+    // The empty board's 48 placement cells fall into 9 symmetry classes
+    expect(turnActions(lastStone)).toHaveLength(9);
+  });
+
+  it('should match the legal actions outside placement', () => {
+    const state = movementPosition([[3, 3, 'Light'], [0, 0, 'Dark']]);
+    expect(turnActions(state)).toEqual(legalActions(state));
+  });
+});
+
+describe('Replay', () => {
+  it('should reproduce a game deterministically from its action history', () => {
+    let state = initialState7x7();
+    // Always take the first legal action until the placement phase is over
+    while (state.phase === 'placement') {
+      state = applyAction(state, legalActions(state)[0]);
+    }
+    for (let i = 0; i < 10 && state.winner === undefined; i++) {
+      state = applyAction(state, legalActions(state)[0]);
+    }
+
+    const replayed = replay(initialState7x7(), state.actionHistory);
+    expect(replayed.board).toEqual(state.board);
+    expect(replayed.hash).toBe(state.hash);
+    expect(replayed.current).toBe(state.current);
+    expect(replayed.actionHistory).toEqual(state.actionHistory);
+  });
+
+  it('should report which action was illegal', () => {
+    const actions: GameAction[] = [
+      { type: 'place', cells: [{ r: 0, c: 0 }] },
+      { type: 'place', cells: [{ r: 0, c: 0 }] }
+    ];
+    expect(() => replay(initialState7x7(), actions)).toThrow(/^Illegal action 2 \(place\)/);
+  });
+});
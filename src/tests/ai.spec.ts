@@ -1,9 +1,35 @@
 // FILE: src/tests/ai.spec.ts
 
-import { describe, it, expect } from 'vitest';
-import { getBestAIMove, isAITurn } from '../lib/ai';
-import { initialState7x7 } from '../lib/rules';
-import { GameState, AIDifficulty } from '../lib/types';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { getBestAIMove, getTopMoves, isAITurn, searchAIMove, runSearch, turnRandom } from '../lib/ai';
+import { initialState, initialState7x7 } from '../lib/rules';
+import { applyAction, replay } from '../lib/actions';
+import { startingPosition, parsePosition } from '../lib/position';
+import { parseMoveList } from '../lib/notation';
+import { useGameStore } from '../state/gameStore';
+import { soundSystem } from '../lib/soundSystem';
+import { GameState, GameAction, AIDifficulty } from '../lib/types';
+
+// Light wins at once with c2-c1, capturing b1 and leaving Dark three stones
+const WINNING_CAPTURE = 'LD3/2L2/5/3LL/DDD2 L movement 0,0 0 - b';
+// Light's chain stone in the corner is safe, but its one step, to b1, lets
+// a2-a1 capture it
+const CHAIN_INTO_TRAP = 'L1D2/D4/5/D2LL/DD1LL L chain 0,0 0 a1 b';
+// Captures for both sides, too many lines to search deep
+const EXCHANGES = 'LD3/2LD1/3L1/L4/DDDDL L movement 0,0 0 - b';
+
+/**
+ * Let the beginner AI play both sides of a seeded game on the small board
+ */
+function selfPlay(seed: number, plies: number): GameState {
+  let state: GameState = { ...initialState(5), seed };
+  for (let i = 0; i < plies && state.winner === undefined; i++) {
+    const { action } = runSearch(searchAIMove(state, 'beginner', 'minimax', { repeatable: true }));
+    if (!action) break;
+    state = applyAction(state, action);
+  }
+  return state;
+}
 
 describe('AI Engine', () => {
   describe('getBestAIMove', () => {
@@ -13,17 +39,18 @@ describe('AI Engine', () => {
       
       expect(move).not.toBeNull();
       expect(move?.type).toBe('placement');
-      expect(move?.cells).toHaveLength(1);
+      expect(move?.cells).toHaveLength(2);
     });
 
-    it('should handle first stone placement correctly', () => {
+    it('should choose both stones of a placement turn together', () => {
       const state = initialState7x7();
       state.placementCount = 0;
       const move = getBestAIMove(state, 'easy');
       
       expect(move).not.toBeNull();
       expect(move?.type).toBe('placement');
-      expect(move?.cells).toHaveLength(1);
+      expect(move?.cells).toHaveLength(2);
+      expect(move?.cells[0]).not.toEqual(move?.cells[1]);
     });
 
     it('should handle second stone placement correctly', () => {
@@ -123,4 +150,135 @@ describe('AI Engine', () => {
       expect(isAITurn(state, players)).toBe(false);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('Seeded Games', () => {
+  it('should repeat the AI\'s choices for the same seed', () => {
+    const first = selfPlay(11, 30);
+    const second = selfPlay(11, 30);
+
+    expect(second.actionHistory).toEqual(first.actionHistory);
+    expect(selfPlay(12, 30).actionHistory).not.toEqual(first.actionHistory);
+  });
+
+  it('should choose the same move again after a replay from the seed', () => {
+    const game = selfPlay(13, 12);
+    const replayed = replay(startingPosition(game), game.actionHistory);
+    const next = (state: GameState): GameAction | null => runSearch(searchAIMove(state, 'beginner', 'minimax', { repeatable: true })).action;
+
+    expect(replayed.seed).toBe(13);
+    expect(next(replayed)).toEqual(next(game));
+  });
+
+  it('should repeat a seeded search as far on a slower clock', () => {
+    const state: GameState = { ...parsePosition(EXCHANGES), seed: 5 };
+    const searchBoth = () => [
+      runSearch(searchAIMove(state, 'easy', 'minimax', { maxDepth: 20, repeatable: true })),
+      runSearch(searchAIMove(state, 'medium', 'mcts', { iterations: 500, repeatable: true }))
+    ];
+    const results = searchBoth();
+
+    // Every clock reading a second later than the last
+    let time = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => (time += 1000));
+    try {
+      expect(searchBoth()).toEqual(results);
+    } finally {
+      vi.restoreAllMocks();
+    }
+    // The node count, not the depth limit, ended the search
+    expect(results[0].depth).toBeGreaterThan(0);
+    expect(results[0].depth).toBeLessThan(20);
+  });
+
+  it('should keep the time budget for a seeded game in live play', () => {
+    const state: GameState = { ...parsePosition(EXCHANGES), seed: 5 };
+    const counted = runSearch(searchAIMove(state, 'easy', 'minimax', { maxDepth: 20, repeatable: true }));
+
+    let time = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => (time += 1000));
+    try {
+      const timed = runSearch(searchAIMove(state, 'easy', 'minimax', { maxDepth: 20 }));
+      expect(timed.depth).toBeLessThan(counted.depth);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('should fall back to Math.random without a seed', () => {
+    expect(turnRandom(initialState7x7())).toBe(Math.random);
+    expect(turnRandom({ ...initialState7x7(), seed: 1 })).not.toBe(Math.random);
+  });
+});
+
+describe('Hint Lines', () => {
+  it('should give each hint the line expected to follow it', () => {
+    const state = initialState(5);
+    const hints = getTopMoves(state, 2);
+
+    expect(hints).toHaveLength(2);
+    for (const hint of hints) {
+      expect(hint.pv.length).toBeGreaterThan(1);
+      expect(hint.depth).toBeGreaterThan(1);
+      // Every line is a legal sequence of turns from the position
+      expect(() => replay(state, parseMoveList(state, hint.pv))).not.toThrow();
+    }
+  });
+
+  it('should end the line at a winning move', () => {
+    const state = parsePosition(WINNING_CAPTURE);
+    const [best] = getTopMoves(state, 1);
+
+    expect(best.pv).toEqual(['c2-c1x']);
+    expect(best.depth).toBe(1);
+  });
+
+  it('should hint ending a chain when stepping on loses the stone', () => {
+    const state = parsePosition(CHAIN_INTO_TRAP);
+    const [best] = getTopMoves(state, 1);
+
+    expect(best.move).toEqual({ type: 'endChain', cells: [{ r: 0, c: 0 }] });
+    expect(best.pv[0]).toBe('end');
+    expect(() => replay(state, parseMoveList(state, best.pv))).not.toThrow();
+  });
+});
+
+describe('Store Hint Lines', () => {
+  beforeEach(() => {
+    soundSystem.setEnabled(false);
+    useGameStore.getState().clearHints();
+  });
+
+  it('should search the configured number of lines', async () => {
+    useGameStore.setState({ gameState: initialState(5), hintsEnabled: true });
+    useGameStore.getState().setHintLines(9);
+    expect(useGameStore.getState().settings.hintLines).toBe(5);
+
+    useGameStore.getState().setHintLines(2);
+    await useGameStore.getState().getHint();
+
+    expect(useGameStore.getState().topMoves).toHaveLength(2);
+    expect(useGameStore.getState().settings.hintLines).toBe(2);
+  });
+
+  it('should preview a step of a line', async () => {
+    const gameState = initialState(5);
+    useGameStore.setState({ gameState, hintsEnabled: true });
+    useGameStore.getState().setHintLines(1);
+    await useGameStore.getState().getHint();
+    const [hint] = useGameStore.getState().topMoves;
+
+    useGameStore.getState().setHintPreview(0, 1);
+    const preview = useGameStore.getState().hintPreview;
+    expect(preview).toMatchObject({ line: 0, step: 1 });
+    expect(preview?.before.hash).toBe(replay(gameState, parseMoveList(gameState, hint.pv.slice(0, 1))).hash);
+    expect(preview?.position.hash).toBe(replay(gameState, parseMoveList(gameState, hint.pv.slice(0, 2))).hash);
+    expect(useGameStore.getState().hoveredHintIndex).toBe(0);
+
+    useGameStore.getState().setHintPreview(0, hint.pv.length);
+    expect(useGameStore.getState().hintPreview).toBeNull();
+    useGameStore.getState().setHintPreview(0, 0);
+    useGameStore.getState().setHintPreview(null);
+    expect(useGameStore.getState().hintPreview).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+// FILE: src/tests/aiBlockade.spec.ts
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { runSearch, searchAIMove, difficultyWeights } from '../lib/ai';
+import { runEngine } from '../lib/engine';
+import { applyAction, legalActions } from '../lib/actions';
+import { hasAnyLegalMove, countStones } from '../lib/rules';
+import { parsePosition } from '../lib/position';
+import { useGameStore } from '../state/gameStore';
+import { soundSystem } from '../lib/soundSystem';
+import { AIDifficulty } from '../lib/types';
+
+// Every Light stone is walled in. Giving up d1 lets c1 or e1 step into it and
+// capture d2 against d3; no other removal wins anything.
+const BLOCKADED = 'LLLLLLL/DDDDDDD/2DLD2/3D3/7/DDDDDDD/LLLLLLL L movement 0,0 0 - b';
+const BLOCKADED_NO_REMOVAL = 'LLLLLLL/DDDDDDD/2DLD2/3D3/7/DDDDDDD/LLLLLLL L movement 0,0 0 - -';
+// A checkerboard: every empty cell Light could make is walled in by Dark, so
+// Light removes stone after stone until too few are left
+const CHECKERBOARD = 'LDLDLDL/DLDLDLD/LDLDLDL/DLD1DLD/LDLDLDL/DLDLDLD/LDLDLDL L movement 0,0 0 - b';
+
+const DIFFICULTIES: AIDifficulty[] = ['beginner', 'easy', 'medium', 'hard'];
+
+/**
+ * Run the store's timers until the AI has handed the turn over; searches
+ * resolve between timers, so advance in small steps
+ */
+async function untilDarkToMove() {
+  for (let i = 0; i < 100 && useGameStore.getState().gameState.current !== 'Dark'; i++) {
+    await vi.advanceTimersByTimeAsync(100);
+  }
+}
+
+describe('AI Blockade Resolution', () => {
+  beforeEach(() => {
+    // Never fall back to a random move, so every level searches
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should start from a blockaded position', () => {
+    const state = parsePosition(BLOCKADED);
+    expect(hasAnyLegalMove(state, 'Light')).toBe(false);
+  });
+
+  for (const difficulty of DIFFICULTIES) {
+    it(`should remove the stone that wins material on ${difficulty}`, () => {
+      const result = runSearch(searchAIMove(parsePosition(BLOCKADED), difficulty));
+
+      expect(result.action).toEqual({ type: 'removeBlockade', cell: { r: 0, c: 3 } });
+      expect(result.move).toBeNull();
+      expect(result.pv[0]).toBe('*d1');
+    });
+  }
+
+  it('should pick a legal removal when playing at random', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const result = runSearch(searchAIMove(parsePosition(BLOCKADED), 'beginner'));
+
+    expect(result.action?.type).toBe('removeBlockade');
+    expect(result.depth).toBe(0);
+  });
+
+  it('should search a blockade that needs one removal after another', () => {
+    const state = parsePosition(CHECKERBOARD);
+    const started = Date.now();
+    const result = runSearch(searchAIMove(state, 'medium'));
+
+    expect(result.action?.type).toBe('removeBlockade');
+    expect(Date.now() - started).toBeLessThan(3_000);
+
+    // Each removal costs a ply, so a depth limit alone ends the search
+    const report = runEngine(state, { budget: { maxDepth: 2, timeMs: Infinity }, weights: difficultyWeights('medium') });
+    expect(report.depth).toBe(2);
+    expect(report.pv.every(action => action.type === 'removeBlockade')).toBe(true);
+  });
+
+  it('should end the game when removals leave too few stones', () => {
+    let state = parsePosition(CHECKERBOARD);
+    let removals = 0;
+    while (state.winner === undefined) {
+      expect(state.current).toBe('Light');
+      state = applyAction(state, legalActions(state)[0]);
+      removals++;
+    }
+
+    expect(removals).toBe(countStones(parsePosition(CHECKERBOARD), 'Light') - state.rules.winThreshold);
+    expect(state.winner).toBe('Dark');
+    expect(state.winReason).toMatchObject({ type: 'stoneCount', loser: 'Light' });
+  });
+
+  it('should pass when blockade removal is off', () => {
+    const result = runSearch(searchAIMove(parsePosition(BLOCKADED_NO_REMOVAL), 'hard'));
+    expect(result.action).toEqual({ type: 'pass' });
+  });
+});
+
+describe('Blockaded AI In The Store', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+    soundSystem.setEnabled(false);
+    const { settings } = useGameStore.getState();
+    useGameStore.setState({
+      settings: {
+        ...settings,
+        players: { Light: { type: 'ai', difficulty: 'medium' }, Dark: { type: 'human' } },
+        aiDifficulty: 'medium',
+        moveAnalysisEnabled: false,
+        timeControl: 'off'
+      },
+      undoStack: [],
+      redoStack: [],
+      aiThinking: false,
+      editorState: null
+    });
+  });
+
+  afterEach(() => {
+    useGameStore.getState().cancelAISearch();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should remove a stone and carry on instead of stalling', async () => {
+    useGameStore.setState({ gameState: parsePosition(BLOCKADED), blockadeRemovalMode: true });
+    useGameStore.getState().checkForAITurn();
+    // The removal and the move that follows are two AI decisions
+    await untilDarkToMove();
+
+    const { gameState, blockadeRemovalMode } = useGameStore.getState();
+    expect(blockadeRemovalMode).toBe(false);
+    expect(gameState.actionHistory[0]).toEqual({ type: 'removeBlockade', cell: { r: 0, c: 3 } });
+    expect(countStones(gameState, 'Dark')).toBeLessThan(17); // d2 was captured
+  });
+
+  it('should pass when it cannot remove a stone', async () => {
+    useGameStore.setState({ gameState: parsePosition(BLOCKADED_NO_REMOVAL), blockadeRemovalMode: false });
+    useGameStore.getState().checkForAITurn();
+    await untilDarkToMove();
+
+    expect(useGameStore.getState().gameState.actionHistory).toEqual([{ type: 'pass' }]);
+  });
+});
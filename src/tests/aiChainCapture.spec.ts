@@ -154,11 +154,10 @@ describe('AI Chain Capture Handling', () => {
       expect(move).not.toBeNull();
       expect(move?.type).toBe('placement');
       expect(move?.cells).toBeDefined();
-      expect(move?.cells.length).toBe(1);
+      expect(move?.cells.length).toBe(2);
 
       // Should not place in center
-      const cell = move?.cells[0];
-      if (cell) {
+      for (const cell of move?.cells ?? []) {
         expect(cell.r !== 3 || cell.c !== 3).toBe(true);
       }
     });
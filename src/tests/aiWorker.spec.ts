@@ -0,0 +1,240 @@
+// FILE: src/tests/aiWorker.spec.ts
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { initialState, initialState7x7, applyPlacement } from '../lib/rules';
+import { getBestAIMove, runSearch, searchAIMove, searchBestAIMove, SearchProgress } from '../lib/ai';
+import { AIJobRunner, AIRequest, AIResponse } from '../lib/aiProtocol';
+import { aiClient, isSearchCancelled, AIClient } from '../lib/aiClient';
+import { useGameStore } from '../state/gameStore';
+import { soundSystem } from '../lib/soundSystem';
+import { parsePosition } from '../lib/position';
+import { GameState } from '../lib/types';
+
+const MIDGAME = 'LLLLLLL/7/L6/7/1D5/7/DDDDDDD L movement 0,0 0 - b';
+
+function movementState(): GameState {
+  return parsePosition(MIDGAME);
+}
+
+function collect(pause: () => Promise<void> = () => Promise.resolve()) {
+  const responses: AIResponse[] = [];
+  const runner = new AIJobRunner(response => responses.push(response), pause);
+  return { runner, responses };
+}
+
+async function flush() {
+  for (let i = 0; i < 200; i++) await Promise.resolve();
+}
+
+describe('Incremental Search', () => {
+  it('should yield once per finished depth and return the deepest result', () => {
+    const state = movementState();
+    const progress: SearchProgress[] = [];
+    const search = searchAIMove(state, 'medium');
+    let step = search.next();
+    while (!step.done) {
+      progress.push(step.value);
+      step = search.next();
+    }
+
+    expect(progress.length).toBeGreaterThan(0);
+    expect(progress.map(p => p.depth)).toEqual(progress.map((_, i) => i + 1));
+    expect(step.value.depth).toBeGreaterThanOrEqual(progress[progress.length - 1].depth!);
+    expect(step.value.nodes).toBeGreaterThan(0);
+    expect(step.value.pv.length).toBeGreaterThan(0);
+    expect(step.value.move?.type).toBe('movement');
+  });
+
+  it('should return the same move through the plain search helpers', () => {
+    const state = movementState();
+    const move = runSearch(searchBestAIMove(state, 'medium'));
+    expect(move?.type).toBe('movement');
+    expect(getBestAIMove(state, 'medium')?.type).toBe('movement');
+  });
+});
+
+describe('AI Worker Protocol', () => {
+  it('should report progress before the result', async () => {
+    const { runner, responses } = collect();
+    runner.handle({ type: 'search', id: 1, state: movementState(), difficulty: 'medium', engine: 'minimax' });
+    await flush();
+
+    const types = responses.map(response => response.type);
+    expect(types[0]).toBe('progress');
+    expect(types[types.length - 1]).toBe('result');
+    expect(types.filter(type => type === 'result')).toHaveLength(1);
+    expect(responses.every(response => response.id === 1)).toBe(true);
+  });
+
+  it('should stop a cancelled search without answering', async () => {
+    let release: () => void = () => {};
+    const { runner, responses } = collect(() => new Promise(resolve => { release = resolve; }));
+    runner.handle({ type: 'search', id: 7, state: movementState(), difficulty: 'hard', engine: 'minimax' });
+    expect(responses).toHaveLength(1);
+
+    runner.handle({ type: 'cancel', id: 7 });
+    release();
+    await flush();
+
+    expect(responses.map(response => response.type)).toEqual(['progress']);
+  });
+
+  it('should forget cancels for jobs that are not running', async () => {
+    const { runner, responses } = collect();
+    runner.handle({ type: 'cancel', id: 8 });
+    runner.handle({ type: 'topMoves', id: 8, state: movementState(), count: 1 });
+    await flush();
+
+    expect(responses.map(response => response.type)).toContain('result');
+  });
+
+  it('should answer hints and analysis requests', async () => {
+    const { runner, responses } = collect();
+    const state = movementState();
+    const requests: AIRequest[] = [
+      { type: 'topMoves', id: 2, state, count: 2 },
+      { type: 'analyze', id: 3, state, move: getBestAIMove(state, 'hard')!, difficulty: 'hard' }
+    ];
+    requests.forEach(request => runner.handle(request));
+    await flush();
+
+    const resultFor = (id: number) => {
+      const response = responses.find(r => r.id === id && r.type === 'result');
+      return response?.type === 'result' ? response.result : null;
+    };
+    const hints = resultFor(2);
+    const analysis = resultFor(3);
+    expect(hints?.type === 'topMoves' ? hints.moves : []).toHaveLength(2);
+    expect(analysis?.type === 'analyze' ? analysis.analysis.notation : '').toMatch(/^[a-g]\d-[a-g]\d/);
+  });
+
+  it('should report errors for the failing request', async () => {
+    const { runner, responses } = collect();
+    const state = { ...movementState(), winner: 'Light' as const };
+    runner.handle({ type: 'analyze', id: 4, state, move: { type: 'movement', cells: [], from: { r: 2, c: 0 }, to: { r: 3, c: 0 } }, difficulty: 'easy' });
+    await flush();
+
+    expect(responses).toEqual([{ type: 'error', id: 4, message: 'Game is already over' }]);
+  });
+});
+
+describe('AI Client', () => {
+  it('should reject cancelled requests', async () => {
+    const pending = aiClient.search(movementState(), 'hard', 'minimax');
+    aiClient.cancelAll();
+
+    const error = await pending.catch(error => error);
+    expect(isSearchCancelled(error)).toBe(true);
+  });
+
+  it('should stop listening for an abort once a request settles', async () => {
+    const controller = new AbortController();
+    const removed = vi.spyOn(controller.signal, 'removeEventListener');
+    await new AIClient().review(initialState(5), [], undefined, controller.signal);
+
+    expect(removed).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  it('should finish requests on the main thread when the worker fails', async () => {
+    const workers: Array<{ onerror: ((event: ErrorEvent) => void) | null }> = [];
+    vi.stubGlobal('Worker', class {
+      onmessage = null;
+      onerror = null;
+      constructor() {
+        workers.push(this);
+      }
+      postMessage() {}
+      terminate() {}
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const pending = new AIClient().topMoves(movementState(), 1);
+      expect(workers).toHaveLength(1);
+      workers[0].onerror?.({ message: 'failed to load' } as ErrorEvent);
+
+      expect(await pending).toHaveLength(1);
+    } finally {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    }
+  });
+});
+
+describe('Cancelling The AI From The Store', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    soundSystem.setEnabled(false);
+    const { settings } = useGameStore.getState();
+    useGameStore.setState({
+      settings: {
+        ...settings,
+        players: { Light: { type: 'human' }, Dark: { type: 'ai', difficulty: 'easy' } },
+        aiDifficulty: 'easy',
+        timeControl: 'off'
+      },
+      gameState: applyPlacement(initialState7x7(), { r: 0, c: 0 }, { r: 0, c: 1 }),
+      undoStack: [initialState7x7()],
+      redoStack: [],
+      undosUsed: 0,
+      aiThinking: false,
+      editorState: null
+    });
+  });
+
+  afterEach(() => {
+    useGameStore.getState().cancelAISearch();
+    vi.useRealTimers();
+  });
+
+  it('should play the AI move through the client', async () => {
+    const moving = useGameStore.getState().makeAIMove();
+    expect(useGameStore.getState().aiThinking).toBe(true);
+    await vi.advanceTimersByTimeAsync(3_000);
+    await moving;
+
+    const { gameState, aiThinking } = useGameStore.getState();
+    expect(aiThinking).toBe(false);
+    expect(gameState.current).toBe('Light');
+    expect(gameState.stonesToPlace.Dark).toBe(22);
+  });
+
+  it('should let the search decide how a chain capture ends', async () => {
+    const { settings } = useGameStore.getState();
+    useGameStore.setState({
+      settings: { ...settings, players: { ...settings.players, Dark: { type: 'ai', difficulty: 'medium' } } },
+      gameState: parsePosition('DDDDDDD/7/7/3D3/7/LLLLLLL/LLLLLLL D chain 0,0 0 d4 b')
+    });
+    const moving = useGameStore.getState().makeAIMove();
+    await vi.advanceTimersByTimeAsync(3_000);
+    await moving;
+
+    const { gameState, lastSearch } = useGameStore.getState();
+    expect(lastSearch?.depth).toBeGreaterThan(0);
+    expect(gameState.phase).toBe('movement');
+    expect(gameState.current).toBe('Light');
+  });
+
+  it('should drop the search when a new game starts', async () => {
+    const moving = useGameStore.getState().makeAIMove();
+    useGameStore.getState().newGame();
+    await vi.advanceTimersByTimeAsync(3_000);
+    await moving;
+
+    const { gameState, aiThinking } = useGameStore.getState();
+    expect(aiThinking).toBe(false);
+    expect(gameState.stonesToPlace).toEqual({ Light: 24, Dark: 24 });
+  });
+
+  it('should allow undo while the AI thinks', async () => {
+    const moving = useGameStore.getState().makeAIMove();
+    expect(useGameStore.getState().canUndo()).toBe(true);
+    useGameStore.getState().undo();
+    await vi.advanceTimersByTimeAsync(3_000);
+    await moving;
+
+    const { gameState, aiThinking } = useGameStore.getState();
+    expect(aiThinking).toBe(false);
+    expect(gameState.board[0][0]).toBe(null);
+    expect(gameState.stonesToPlace.Dark).toBe(24);
+  });
+});
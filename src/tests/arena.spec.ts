@@ -0,0 +1,117 @@
+// FILE: src/tests/arena.spec.ts
+
+import { describe, it, expect } from 'vitest';
+import { runArena, randomOpening, playArenaGame, eloDifference, ArenaEngine } from '../lib/arena';
+import { createRandom } from '../lib/random';
+import { countStones } from '../lib/rules';
+
+const BEGINNER: ArenaEngine = { name: 'beginner', difficulty: 'beginner' };
+// Playout counts rather than time limits, so the games take the same work on any machine
+const BEGINNER_MCTS: ArenaEngine = {
+  name: 'beginner mcts',
+  difficulty: 'beginner',
+  engine: 'mcts',
+  budget: { iterations: 20, timeMs: Infinity }
+};
+
+describe('Seeded Random', () => {
+  it('should repeat the same sequence for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const values = Array.from({ length: 5 }, () => a());
+
+    expect(Array.from({ length: 5 }, () => b())).toEqual(values);
+    expect(createRandom(43)()).not.toBe(values[0]);
+    for (const value of values) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('Elo Difference', () => {
+  it('should be zero for an even score', () => {
+    expect(eloDifference(5, 10, 5).elo).toBeCloseTo(0);
+  });
+
+  it('should match the logistic rating curve', () => {
+    // A 75% score is about 191 Elo
+    expect(eloDifference(3, 0, 1).elo).toBeCloseTo(190.85, 1);
+    expect(eloDifference(1, 0, 3).elo).toBeCloseTo(-190.85, 1);
+  });
+
+  it('should narrow the error bars as games are added', () => {
+    const few = eloDifference(6, 2, 4);
+    const many = eloDifference(60, 20, 40);
+
+    expect(many.elo).toBeCloseTo(few.elo);
+    expect(many.margin).toBeLessThan(few.margin);
+    expect(many.margin).toBeGreaterThan(0);
+  });
+
+  it('should report a clean sweep as unbounded', () => {
+    expect(eloDifference(4, 0, 0).elo).toBe(Infinity);
+    expect(eloDifference(0, 0, 4).elo).toBe(-Infinity);
+    expect(eloDifference(0, 0, 0).margin).toBe(Infinity);
+  });
+});
+
+describe('Arena Games', () => {
+  it('should place the requested number of opening stones', () => {
+    const state = randomOpening(7, 4, createRandom(1));
+
+    expect(state.actionHistory).toHaveLength(4);
+    expect(countStones(state, 'Light')).toBe(2);
+    expect(countStones(state, 'Dark')).toBe(2);
+    expect(state.current).toBe('Light');
+  });
+
+  it('should play a game to the end', () => {
+    const random = createRandom(2);
+    const end = playArenaGame(randomOpening(5, 4, random), { Light: BEGINNER, Dark: BEGINNER_MCTS }, random);
+
+    expect(end.winner).not.toBeUndefined();
+    expect(end.actionHistory.length).toBeGreaterThan(4);
+  });
+
+  it('should stop at the ply limit', () => {
+    const random = createRandom(3);
+    const end = playArenaGame(randomOpening(7, 0, random), { Light: BEGINNER, Dark: BEGINNER }, random, 6);
+
+    expect(end.winner).toBeUndefined();
+    expect(end.actionHistory).toHaveLength(6);
+  });
+});
+
+describe('Arena Matches', () => {
+  it('should alternate colors over a shared opening', () => {
+    const report = runArena(BEGINNER, BEGINNER_MCTS, { games: 4, seed: 7, boardSize: 5 });
+
+    expect(report.games.map(game => game.light)).toEqual(['beginner', 'beginner mcts', 'beginner', 'beginner mcts']);
+    expect(report.games[1].actions.slice(0, 4)).toEqual(report.games[0].actions.slice(0, 4));
+    expect(report.games[2].actions.slice(0, 4)).not.toEqual(report.games[0].actions.slice(0, 4));
+  });
+
+  it('should total the results and game lengths', () => {
+    const played: number[] = [];
+    const report = runArena(BEGINNER, BEGINNER_MCTS, {
+      games: 4,
+      seed: 8,
+      boardSize: 5,
+      onGame: (_game, index) => played.push(index)
+    });
+
+    expect(played).toEqual([0, 1, 2, 3]);
+    expect(report.wins + report.draws + report.losses).toBe(4);
+    expect(report.averagePlies).toBeCloseTo(report.games.reduce((sum, game) => sum + game.plies, 0) / 4);
+    expect(report.elo).toBe(eloDifference(report.wins, report.draws, report.losses).elo);
+  });
+
+  it('should be repeatable with the same seed', () => {
+    const options = { games: 2, seed: 9, boardSize: 5 as const };
+    const first = runArena(BEGINNER, BEGINNER, options);
+    const second = runArena(BEGINNER, BEGINNER, options);
+
+    expect(second.games.map(game => game.actions)).toEqual(first.games.map(game => game.actions));
+  });
+});
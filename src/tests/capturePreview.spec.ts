@@ -17,10 +17,19 @@ describe('Capture Preview Setting', () => {
         antiShuttle: false,
         blockadeOneRemoval: true
       },
+      boardSize: 7,
       hintsEnabled: false,
+      hintLines: 3,
       soundEnabled: true,
       soundVolume: 0.5,
-      capturePreviewsEnabled: true
+      capturePreviewsEnabled: true,
+      evalBarEnabled: false,
+      threatOverlayEnabled: false,
+      coachEnabled: false,
+      moveAnalysisEnabled: true,
+      undoPolicy: 'unlimited',
+      undoLimit: 3,
+      timeControl: 'off'
     };
 
     expect(defaultSettings.capturePreviewsEnabled).toBe(true);
@@ -39,10 +48,19 @@ describe('Capture Preview Setting', () => {
         antiShuttle: false,
         blockadeOneRemoval: true
       },
+      boardSize: 7,
       hintsEnabled: false,
+      hintLines: 3,
       soundEnabled: true,
       soundVolume: 0.5,
-      capturePreviewsEnabled: false
+      capturePreviewsEnabled: false,
+      evalBarEnabled: false,
+      threatOverlayEnabled: false,
+      coachEnabled: false,
+      moveAnalysisEnabled: true,
+      undoPolicy: 'unlimited',
+      undoLimit: 3,
+      timeControl: 'off'
     };
 
     expect(settings.capturePreviewsEnabled).toBe(false);
@@ -0,0 +1,223 @@
+// FILE: src/tests/clock.spec.ts
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { initialState7x7 } from '../lib/rules';
+import { applyAction } from '../lib/actions';
+import {
+  TIME_CONTROLS,
+  attachClock,
+  createClock,
+  startClock,
+  pauseClock,
+  applyClock,
+  timeLeft,
+  flaggedPlayer,
+  formatClockTime,
+  timeControlPreset
+} from '../lib/clock';
+import { calculateStats } from '../lib/auth';
+import { formatMoveList } from '../lib/notation';
+import { saveGameState, loadGameState } from '../lib/serialize';
+import { GameAction, GameResult, GameState } from '../lib/types';
+import { useGameStore } from '../state/gameStore';
+import { soundSystem } from '../lib/soundSystem';
+
+function timedMove(state: GameState, action: GameAction, now: number): GameState {
+  return applyClock(state, applyAction(state, action), now);
+}
+
+describe('Clock Arithmetic', () => {
+  it('should charge only the side to move', () => {
+    const clock = startClock(createClock(TIME_CONTROLS.rapid!), 1_000);
+    expect(timeLeft(clock, 'Light', 'Light', 6_000)).toBe(600_000 - 5_000);
+    expect(timeLeft(clock, 'Dark', 'Light', 6_000)).toBe(600_000);
+  });
+
+  it('should not count time while paused', () => {
+    let clock = startClock(createClock(TIME_CONTROLS.rapid!), 0);
+    clock = pauseClock(clock, 4_000);
+    expect(timeLeft(clock, 'Light', 'Light', 60_000)).toBe(596_000);
+
+    clock = startClock(clock, 60_000);
+    expect(timeLeft(clock, 'Light', 'Light', 61_000)).toBe(595_000);
+  });
+
+  it('should add the Fischer increment once the turn passes', () => {
+    let state = attachClock(initialState7x7(), 'blitz');
+    state = { ...state, clock: startClock(state.clock!, 0) };
+
+    // The first stone keeps the turn, the second completes it
+    state = timedMove(state, { type: 'place', cells: [{ r: 0, c: 0 }] }, 4_000);
+    expect(state.clock!.remaining.Light).toBe(180_000);
+    state = timedMove(state, { type: 'place', cells: [{ r: 0, c: 1 }] }, 10_000);
+
+    expect(state.clock!.remaining.Light).toBe(180_000 - 10_000 + 2_000);
+    expect(state.clock!.turnElapsed).toBe(0);
+    expect(state.clock!.runningSince).toBe(10_000);
+  });
+
+  it('should give back up to the Bronstein delay', () => {
+    let state = attachClock(initialState7x7(), 'bronstein');
+    state = { ...state, clock: startClock(state.clock!, 0) };
+    state = timedMove(state, { type: 'place', cells: [{ r: 0, c: 0 }, { r: 0, c: 1 }] }, 2_000);
+    expect(state.clock!.remaining.Light).toBe(300_000);
+
+    state = timedMove(state, { type: 'place', cells: [{ r: 6, c: 6 }, { r: 6, c: 5 }] }, 10_000);
+    expect(state.clock!.remaining.Dark).toBe(300_000 - 5_000);
+  });
+
+  it('should stop when the game ends', () => {
+    let state = attachClock(initialState7x7(), 'blitz');
+    state = { ...state, clock: startClock(state.clock!, 0) };
+    state = timedMove(state, { type: 'resign', player: 'Light' }, 5_000);
+
+    expect(state.clock!.runningSince).toBe(null);
+    expect(flaggedPlayer(state, 1_000_000)).toBe(null);
+  });
+
+  it('should flag the side to move at zero', () => {
+    let state = attachClock(initialState7x7(), 'blitz');
+    state = { ...state, clock: startClock(state.clock!, 0) };
+    expect(flaggedPlayer(state, 179_999)).toBe(null);
+    expect(flaggedPlayer(state, 180_000)).toBe('Light');
+  });
+
+  it('should format clock readings', () => {
+    expect(formatClockTime(600_000)).toBe('10:00');
+    expect(formatClockTime(61_500)).toBe('1:02');
+    expect(formatClockTime(9_870)).toBe('9.8');
+    expect(formatClockTime(0)).toBe('0.0');
+  });
+
+  it('should find the preset of a clock', () => {
+    expect(timeControlPreset(TIME_CONTROLS.bronstein!)).toBe('bronstein');
+    expect(timeControlPreset({ initial: 1_000, increment: 0, delay: 0 })).toBe(undefined);
+  });
+});
+
+describe('Timeouts', () => {
+  it('should end the game for the player who ran out of time', () => {
+    const state = applyAction(initialState7x7(), { type: 'timeout', player: 'Light' });
+    expect(state.winner).toBe('Dark');
+    expect(state.winReason).toEqual({ type: 'timeout', timedOutPlayer: 'Light' });
+    expect(formatMoveList(initialState7x7(), state.actionHistory)).toEqual(['timeout']);
+  });
+
+  it('should count timeout wins and losses in the stats', () => {
+    const base = {
+      timestamp: 0,
+      opponent: 'AI',
+      duration: 60,
+      totalMoves: 10,
+      playerColor: 'Light',
+      finalScore: { light: 20, dark: 20 },
+      variant: initialState7x7().variant
+    } as const;
+    const games: GameResult[] = [
+      { ...base, id: 'a', winner: 'Light', winReason: { type: 'timeout', timedOutPlayer: 'Dark' } },
+      { ...base, id: 'b', winner: 'Dark', winReason: { type: 'timeout', timedOutPlayer: 'Light' } },
+      { ...base, id: 'c', winner: 'Dark', winReason: { type: 'resignation', resignedPlayer: 'Light' } }
+    ];
+
+    const stats = calculateStats(games);
+    expect(stats.timeoutWins).toBe(1);
+    expect(stats.timeoutLosses).toBe(1);
+    expect(stats.losses).toBe(2);
+  });
+});
+
+describe('Clock In The Store', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    soundSystem.setEnabled(false);
+    const { settings } = useGameStore.getState();
+    useGameStore.setState({
+      settings: {
+        ...settings,
+        players: { Light: { type: 'human' }, Dark: { type: 'human' } },
+        timeControl: 'blitz'
+      },
+      editorState: null,
+      aiThinking: false,
+      currentSession: null
+    });
+    useGameStore.getState().newGame();
+  });
+
+  afterEach(() => {
+    // Drop the clock so its timer stops before the next test
+    useGameStore.setState({ gameState: initialState7x7() });
+    vi.useRealTimers();
+  });
+
+  it('should start a timed game with a running clock', () => {
+    const { gameState } = useGameStore.getState();
+    expect(gameState.clock!.remaining).toEqual({ Light: 180_000, Dark: 180_000 });
+    expect(gameState.clock!.runningSince).toBe(Date.now());
+  });
+
+  it('should flag a player who does not move', () => {
+    vi.advanceTimersByTime(180_000 + 250);
+
+    const { gameState, toastMessage } = useGameStore.getState();
+    expect(gameState.winner).toBe('Dark');
+    expect(gameState.winReason).toEqual({ type: 'timeout', timedOutPlayer: 'Light' });
+    expect(gameState.clock!.runningSince).toBe(null);
+    expect(toastMessage).toBe('Light ran out of time');
+  });
+
+  it('should charge each move and hand the clock over', () => {
+    vi.advanceTimersByTime(3_000);
+    useGameStore.getState().placeStone({ r: 0, c: 0 });
+    useGameStore.getState().placeStone({ r: 0, c: 1 });
+
+    const { clock } = useGameStore.getState().gameState;
+    expect(clock!.remaining.Light).toBe(180_000 - 3_000 + 2_000);
+    vi.advanceTimersByTime(1_000);
+    expect(timeLeft(clock!, 'Dark', 'Dark', Date.now())).toBe(179_000);
+  });
+
+  it('should pause while the AI thinks', () => {
+    vi.advanceTimersByTime(1_000);
+    useGameStore.setState({ aiThinking: true });
+    vi.advanceTimersByTime(200_000);
+
+    const { gameState } = useGameStore.getState();
+    expect(gameState.winner).toBe(undefined);
+    expect(gameState.clock!.runningSince).toBe(null);
+    expect(timeLeft(gameState.clock!, 'Light', 'Light', Date.now())).toBe(179_000);
+
+    useGameStore.setState({ aiThinking: false });
+    expect(useGameStore.getState().gameState.clock!.runningSince).toBe(Date.now());
+  });
+
+  it('should pause while the tab is hidden', () => {
+    const hidden = vi.spyOn(document, 'hidden', 'get').mockReturnValue(true);
+    document.dispatchEvent(new Event('visibilitychange'));
+    vi.advanceTimersByTime(200_000);
+    expect(useGameStore.getState().gameState.winner).toBe(undefined);
+
+    hidden.mockReturnValue(false);
+    document.dispatchEvent(new Event('visibilitychange'));
+    expect(useGameStore.getState().gameState.clock!.runningSince).toBe(Date.now());
+    hidden.mockRestore();
+  });
+
+  it('should survive saving and loading', () => {
+    vi.advanceTimersByTime(5_000);
+    useGameStore.getState().placeStone({ r: 0, c: 0 });
+    useGameStore.getState().placeStone({ r: 0, c: 1 });
+    saveGameState(useGameStore.getState().gameState);
+
+    const loaded = loadGameState()!;
+    expect(loaded.clock!.remaining.Light).toBe(177_000);
+    // Time the game was closed is not charged
+    expect(loaded.clock!.runningSince).toBe(null);
+
+    vi.advanceTimersByTime(60_000);
+    useGameStore.getState().loadSavedGame();
+    const { clock } = useGameStore.getState().gameState;
+    expect(clock!.runningSince).toBe(Date.now());
+    expect(timeLeft(clock!, 'Dark', 'Dark', Date.now())).toBe(180_000);
+  });
+});
@@ -0,0 +1,158 @@
+// FILE: src/tests/engine.spec.ts
+
+import { describe, it, expect } from 'vitest';
+import { iterativeDeepening, runEngine, quiescence, EngineReport, TranspositionTable, WIN_SCORE } from '../lib/engine';
+import { applyAction, legalActions, turnActions } from '../lib/actions';
+import { initialState } from '../lib/rules';
+import { parsePosition } from '../lib/position';
+import { EvaluationWeights, evaluatePosition } from '../lib/evaluation';
+
+const WEIGHTS: EvaluationWeights = {
+  stoneCount: 12,
+  centerControl: 2,
+  mobility: 1,
+  captures: 25,
+  positioning: 1,
+  safety: 1
+};
+
+// Light captures d3 by moving e2-e3; Dark still has plenty of stones
+const CAPTURE = 'LLLLLLL/4L2/2LD3/7/7/DDDDDDD/DDDDDDD L movement 0,0 0 - b';
+// The same capture leaves Dark on seven stones, which loses
+const WINNING_CAPTURE = 'LLLLLLL/4L2/2LD3/7/7/7/DDDDDDD L movement 0,0 0 - b';
+const MIDGAME = 'LLLLLLL/7/L6/7/1D5/7/DDDDDDD L movement 0,0 0 - b';
+// e2-e3 captures d3, then the chain step to e4 captures e5
+const DOUBLE_CAPTURE = 'LLLLLLL/4L2/2LD3/DD5/4D2/4L2/DDDDDDD L movement 0,0 0 - b';
+// A chain capture with nothing left to capture, standing on the center
+const CHAIN_ON_CENTER = 'LLLLLLL/7/7/3L3/7/DDDDDDD/DDDDDDD L chain 0,0 0 d4 b';
+
+// A clock that never moves, so only the depth limit ends the search
+const frozen = () => 0;
+
+function drain(search: Generator<EngineReport, EngineReport, void>) {
+  const reports: EngineReport[] = [];
+  let step = search.next();
+  while (!step.done) {
+    reports.push(step.value);
+    step = search.next();
+  }
+  return { reports, final: step.value };
+}
+
+describe('Iterative Deepening Engine', () => {
+  it('should find a capturing move', () => {
+    const state = parsePosition(CAPTURE);
+    const report = runEngine(state, { budget: { maxDepth: 3, timeMs: 1000 }, weights: WEIGHTS, now: frozen });
+
+    expect(report.best).toEqual({ type: 'move', from: { r: 1, c: 4 }, to: { r: 2, c: 4 } });
+  });
+
+  it('should report depth, nodes and a legal principal variation', () => {
+    const state = parsePosition(MIDGAME);
+    const report = runEngine(state, { budget: { maxDepth: 4, timeMs: 1000 }, weights: WEIGHTS, now: frozen });
+
+    expect(report.depth).toBe(4);
+    expect(report.nodes).toBeGreaterThan(legalActions(state).length);
+    expect(report.pv[0]).toEqual(report.best);
+    expect(report.pv.length).toBeGreaterThan(1);
+
+    let position = state;
+    for (const action of report.pv) {
+      expect(legalActions(position)).toContainEqual(action);
+      position = applyAction(position, action);
+    }
+  });
+
+  it('should yield after each finished iteration', () => {
+    const state = parsePosition(MIDGAME);
+    const { reports, final } = drain(iterativeDeepening(state, {
+      budget: { maxDepth: 3, timeMs: 1000 },
+      weights: WEIGHTS,
+      now: frozen
+    }));
+
+    expect(reports.map(report => report.depth)).toEqual([1, 2]);
+    expect(final.depth).toBe(3);
+    expect(final.nodes).toBeGreaterThan(reports[1].nodes);
+  });
+
+  it('should stop when the time budget runs out', () => {
+    const state = parsePosition(MIDGAME);
+    let time = 0;
+    const report = runEngine(state, {
+      budget: { maxDepth: 30, timeMs: 50 },
+      weights: WEIGHTS,
+      now: () => time++
+    });
+
+    expect(report.depth).toBeGreaterThanOrEqual(1);
+    expect(report.depth).toBeLessThan(30);
+    expect(report.best).not.toBeNull();
+  });
+
+  it('should keep to the time budget in the first iteration', () => {
+    // Every placement pair is a root move, more nodes than one clock check apart
+    const state = initialState(9);
+    let time = 0;
+    const report = runEngine(state, {
+      budget: { maxDepth: 4, timeMs: 10 },
+      weights: WEIGHTS,
+      now: () => (time += 20)
+    });
+
+    expect(report.depth).toBe(0);
+    expect(report.nodes).toBeLessThan(2 * 256);
+    expect(report.best).not.toBeNull();
+    expect(report.pv).toEqual([report.best]);
+    expect(turnActions(state).map(action => JSON.stringify(action))).toContain(JSON.stringify(report.best));
+  });
+
+  it('should stop early on a forced win', () => {
+    const state = parsePosition(WINNING_CAPTURE);
+    const report = runEngine(state, { budget: { maxDepth: 6, timeMs: 1000 }, weights: WEIGHTS, now: frozen });
+
+    expect(report.score).toBe(WIN_SCORE - 1);
+    expect(report.depth).toBe(1);
+    expect(report.pv).toHaveLength(1);
+  });
+
+  it('should reuse a transposition table between searches', () => {
+    const state = parsePosition(MIDGAME);
+    const table: TranspositionTable = new Map();
+    const options = { budget: { maxDepth: 3, timeMs: 1000 }, weights: WEIGHTS, table, now: frozen };
+
+    const first = runEngine(state, options);
+    const second = runEngine(state, options);
+
+    expect(table.size).toBeGreaterThan(0);
+    expect(second.best).toEqual(first.best);
+    expect(second.score).toBe(first.score);
+    expect(second.nodes).toBeLessThan(first.nodes);
+  });
+
+  it('should search a chain capture to its end as one move', () => {
+    const state = parsePosition(DOUBLE_CAPTURE);
+    const report = runEngine(state, { budget: { maxDepth: 1, timeMs: 1000 }, weights: WEIGHTS, now: frozen });
+
+    expect(report.depth).toBe(1);
+    expect(report.best).toEqual({ type: 'move', from: { r: 1, c: 4 }, to: { r: 2, c: 4 } });
+    expect(report.pv[1]).toEqual({ type: 'chainStep', to: { r: 3, c: 4 } });
+  });
+
+  it('should end a chain capture when stepping on is worse', () => {
+    const state = parsePosition(CHAIN_ON_CENTER);
+    const centerWeights = { ...WEIGHTS, centerControl: 50, mobility: 0, positioning: 0, safety: 0 };
+    const report = runEngine(state, { budget: { maxDepth: 2, timeMs: 1000 }, weights: centerWeights, now: frozen });
+
+    expect(report.best).toEqual({ type: 'endChain' });
+  });
+
+  it('should resolve pending captures before evaluating', () => {
+    const state = parsePosition(DOUBLE_CAPTURE);
+    const context = { player: 'Light' as const, evaluate: (quiet: typeof state) => evaluatePosition(quiet, 'Light', WEIGHTS) };
+    const settled = quiescence(state, context, -Infinity, Infinity, 0);
+
+    // Both captures are found past the horizon
+    expect(settled).toBeGreaterThanOrEqual(context.evaluate(state) + 2 * WEIGHTS.stoneCount);
+  });
+});
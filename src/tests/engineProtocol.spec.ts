@@ -0,0 +1,180 @@
+// FILE: src/tests/engineProtocol.spec.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  EngineCommand,
+  EngineMessage,
+  EngineSession,
+  formatEngineCommand,
+  parseEngineCommand,
+  formatEngineMessage,
+  parseEngineMessage,
+  positionCommand,
+  commandPosition
+} from '../lib/engineProtocol';
+import { EngineClient } from '../lib/engineClient';
+import { runArena, runArenaAsync, ArenaBot, ArenaEngine } from '../lib/arena';
+import { initialState, initialState7x7 } from '../lib/rules';
+import { replay } from '../lib/actions';
+import { parseMoveList } from '../lib/notation';
+import { parsePosition } from '../lib/position';
+
+const MIDGAME = 'LLLLLLL/7/L6/7/1D5/7/DDDDDDD D movement 0,0 0 - b';
+
+/**
+ * A client talking to the built-in engine in this thread
+ */
+function connect(): { client: EngineClient; session: EngineSession; lines: string[] } {
+  const lines: string[] = [];
+  let client: EngineClient;
+  const session = new EngineSession({
+    write: line => {
+      lines.push(line);
+      client.receive(line);
+    },
+    pause: () => new Promise(resolve => setTimeout(resolve, 0))
+  });
+  client = new EngineClient(line => session.receive(line));
+  return { client, session, lines };
+}
+
+describe('Engine Protocol Lines', () => {
+  it('should round-trip every command', () => {
+    const commands: EngineCommand[] = [
+      { type: 'seejeh' },
+      { type: 'isready' },
+      { type: 'setoption', name: 'Difficulty', value: 'hard' },
+      { type: 'newgame' },
+      { type: 'position', position: null, moves: [] },
+      { type: 'position', position: MIDGAME, moves: ['c7-c6', 'b1-b2'] },
+      { type: 'go', movetime: 500, depth: 4 },
+      { type: 'go' },
+      { type: 'stop' },
+      { type: 'quit' }
+    ];
+
+    for (const command of commands) {
+      expect(parseEngineCommand(formatEngineCommand(command))).toEqual(command);
+    }
+  });
+
+  it('should round-trip every engine message', () => {
+    const messages: EngineMessage[] = [
+      { type: 'id', field: 'name', value: 'My Bot 2' },
+      { type: 'option', option: { name: 'Engine', default: 'mcts', values: ['minimax', 'mcts'] } },
+      { type: 'seejehok' },
+      { type: 'readyok' },
+      { type: 'info', info: { depth: 3, score: -12, nodes: 400, time: 25, pv: ['c7-c6', 'b1-b2'] } },
+      { type: 'info', info: { string: 'thinking hard' } },
+      { type: 'bestmove', moves: ['c3-c4x', 'end'] },
+      { type: 'bestmove', moves: [] }
+    ];
+
+    for (const message of messages) {
+      expect(parseEngineMessage(formatEngineMessage(message))).toEqual(message);
+    }
+  });
+
+  it('should ignore unknown lines and reject bad arguments', () => {
+    expect(parseEngineCommand('')).toBeNull();
+    expect(parseEngineCommand('ponderhit')).toBeNull();
+    expect(parseEngineMessage('> npm run engine')).toBeNull();
+    expect(() => parseEngineCommand('go movetime soon')).toThrow('Invalid go argument');
+    expect(() => parseEngineCommand('position fen x')).toThrow('Expected "position startpos"');
+  });
+
+  it('should describe a game by its start and moves', () => {
+    const start = initialState(5);
+    const state = replay(start, parseMoveList(start, ['a1,b1', 'e5,d5']));
+
+    const command = positionCommand(state);
+    expect(command).toMatchObject({ position: '5/5/5/5/5 L placement 12,12 0 - b', moves: ['a1,b1', 'e5,d5'] });
+    expect(positionCommand(parsePosition(MIDGAME))).toMatchObject({ position: MIDGAME, moves: [] });
+    expect(commandPosition(command as Extract<EngineCommand, { type: 'position' }>).hash).toBe(state.hash);
+    expect(commandPosition({ type: 'position', position: null, moves: [] }).hash).toBe(initialState7x7().hash);
+  });
+});
+
+describe('Engine Session', () => {
+  it('should identify itself and its options', async () => {
+    const { client } = connect();
+    const identity = await client.start();
+
+    expect(identity.name).toBe('Seejeh');
+    expect(identity.options.map(option => option.name)).toEqual(['Difficulty', 'Engine']);
+    await expect(client.isReady()).resolves.toBeUndefined();
+  });
+
+  it('should answer with a legal move and its search', async () => {
+    const { client } = connect();
+    const state = parsePosition(MIDGAME);
+    const infos: number[] = [];
+    const move = await client.go(state, { depth: 2 }, info => infos.push(info.depth ?? 0));
+
+    expect(move.actions.length).toBeGreaterThan(0);
+    expect(() => replay(state, move.actions)).not.toThrow();
+    expect(move.info.depth).toBe(2);
+    expect(move.info.pv?.[0]).toBe(move.moves[0]);
+    expect(infos).toContain(1);
+  });
+
+  it('should report bad commands without stopping', async () => {
+    const { client, session, lines } = connect();
+    session.receive('setoption name Difficulty value impossible');
+    session.receive('position pos nonsense');
+
+    expect(lines[0]).toMatch(/^info string Unknown option/);
+    expect(lines[1]).toMatch(/^info string Invalid position/);
+    await expect(client.isReady()).resolves.toBeUndefined();
+  });
+
+  it('should answer early when stopped', async () => {
+    const { client } = connect();
+    client.setOption('Difficulty', 'hard');
+    const pending = client.go(parsePosition(MIDGAME), { movetime: 60_000 });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    client.stop();
+
+    const move = await pending;
+    expect(move.actions.length).toBeGreaterThan(0);
+  });
+
+  it('should reject an illegal answer', async () => {
+    const client = new EngineClient(line => {
+      if (line.startsWith('go')) client.receive('bestmove a1-a2');
+    });
+
+    await expect(client.go(initialState7x7())).rejects.toThrow('illegal move "a1-a2"');
+  });
+});
+
+describe('Arena With Bots', () => {
+  const BEGINNER: ArenaEngine = { name: 'beginner', difficulty: 'beginner' };
+
+  it('should play the same match as the synchronous arena', async () => {
+    const options = { games: 2, seed: 9, boardSize: 5 as const };
+    const report = await runArenaAsync(BEGINNER, BEGINNER, options);
+
+    expect(report.games.map(game => game.actions)).toEqual(runArena(BEGINNER, BEGINNER, options).games.map(game => game.actions));
+  });
+
+  it('should drive a protocol engine through whole games', async () => {
+    const { client } = connect();
+    await client.start();
+    client.setOption('Difficulty', 'beginner');
+    let newGames = 0;
+    const bot: ArenaBot = {
+      name: 'protocol',
+      newGame: () => {
+        newGames++;
+        client.newGame();
+      },
+      play: async state => (await client.go(state, { depth: 1 })).actions
+    };
+
+    const report = await runArenaAsync(bot, BEGINNER, { games: 2, seed: 3, boardSize: 5, maxPlies: 60 });
+    expect(newGames).toBe(2);
+    expect(report.games.map(game => game.light)).toEqual(['protocol', 'beginner']);
+    expect(report.games.every(game => game.plies > 4)).toBe(true);
+  });
+});
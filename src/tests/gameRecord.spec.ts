@@ -0,0 +1,154 @@
+// FILE: src/tests/gameRecord.spec.ts
+
+import { describe, it, expect } from 'vitest';
+import { initialState, initialState7x7 } from '../lib/rules';
+import { applyAction, legalActions } from '../lib/actions';
+import { exportGameRecord, importGameRecord, formatTimeControl, parseTimeControl } from '../lib/gameRecord';
+import { attachClock, TIME_CONTROLS } from '../lib/clock';
+import { GameSettings, GameState } from '../lib/types';
+
+const settings = {
+  aiDifficulty: 'medium',
+  players: {
+    Light: { type: 'human' },
+    Dark: { type: 'ai', difficulty: 'medium' }
+  }
+} as GameSettings;
+
+/**
+ * Play a deterministic game, optionally until it is over
+ */
+function playGame(start: GameState, plies: number): GameState {
+  let state = start;
+  for (let i = 0; i < plies && state.winner === undefined; i++) {
+    const actions = legalActions(state);
+    state = applyAction(state, actions[(i * 5) % actions.length]);
+  }
+  return state;
+}
+
+const RECORD = `[Game "Seejeh"]
+[Version "1"]
+[BoardSize "5"]
+[Variant "blockadeOneRemoval"]
+[Result "*"]
+
+1. a1,b1 2. e5,d5 {opening}
+`;
+
+describe('Game Records', () => {
+  it('should write headers and numbered moves', () => {
+    let state = initialState7x7();
+    state = applyAction(state, { type: 'place', cells: [{ r: 0, c: 0 }, { r: 1, c: 1 }] });
+    const text = exportGameRecord(state, settings, new Date(2026, 9, 19));
+
+    expect(text).toContain('[Game "Seejeh"]');
+    expect(text).toContain('[Version "1"]');
+    expect(text).toContain('[Date "2026.10.19"]');
+    expect(text).toContain('[Dark "ai"]');
+    expect(text).toContain('[AIDifficulty "medium"]');
+    expect(text).toContain('[Variant "blockadeOneRemoval"]');
+    expect(text).toContain('[Result "*"]');
+    expect(text).toContain('1. a1,b2 *');
+  });
+
+  it('should round-trip a finished game', () => {
+    const state = playGame(initialState(5, { antiShuttle: true }), 400);
+    const record = importGameRecord(exportGameRecord(state, settings));
+
+    expect(record.boardSize).toBe(5);
+    expect(record.variant.antiShuttle).toBe(true);
+    expect(record.players.Dark).toEqual({ type: 'ai' });
+    expect(record.state.board).toEqual(state.board);
+    expect(record.state.hash).toBe(state.hash);
+    expect(record.state.winner).toBe(state.winner);
+    expect(record.state.winReason).toEqual(state.winReason);
+  });
+
+  it('should carry the game\'s seed', () => {
+    const state = playGame({ ...initialState7x7(), seed: 3735928559 }, 6);
+    const text = exportGameRecord(state, settings);
+
+    expect(text).toContain('[Seed "3735928559"]');
+    expect(importGameRecord(text).state.seed).toBe(3735928559);
+    expect(importGameRecord(RECORD).state.seed).toBeUndefined();
+    expect(() => importGameRecord(RECORD.replace('[Result', '[Seed "-1"]\n[Result')))
+      .toThrow('Invalid Seed header "-1"');
+  });
+
+  it('should carry the time control', () => {
+    const state = attachClock(playGame(initialState7x7(), 6), 'bronstein');
+    const text = exportGameRecord(state, settings);
+
+    expect(text).toContain('[TimeControl "300d3"]');
+    expect(importGameRecord(text).timeControl).toEqual(TIME_CONTROLS.bronstein);
+    expect(importGameRecord(RECORD).timeControl).toBeUndefined();
+  });
+
+  it('should read time controls back as they were written', () => {
+    for (const control of [TIME_CONTROLS.blitz!, TIME_CONTROLS.bronstein!, { initial: 90_500, increment: 0, delay: 0 }]) {
+      expect(parseTimeControl(formatTimeControl(control))).toEqual(control);
+    }
+    for (const text of ['180', '180+', '0+2', '3m+2s', '180+2+1']) {
+      expect(() => parseTimeControl(text)).toThrow(`Invalid TimeControl header "${text}"`);
+    }
+    expect(() => importGameRecord(RECORD.replace('[Result', '[TimeControl "blitz"]\n[Result')))
+      .toThrow('Invalid TimeControl header "blitz": expected seconds as 180+2 or 300d3');
+  });
+
+  it('should check the size and variant headers against a starting position', () => {
+    const record = RECORD.replace('[Result', '[Position "LD3/2L2/5/3LL/DDD2 L movement 0,0 0 - b"]\n[Result')
+      .replace('1. a1,b1 2. e5,d5 {opening}', '1. d4-d3');
+
+    expect(importGameRecord(record).state.board[2][3]).toBe('Light');
+    expect(() => importGameRecord(record.replace('[BoardSize "5"]', '[BoardSize "7"]')))
+      .toThrow('BoardSize header "7" does not match the Position header, which is 5x5');
+    expect(() => importGameRecord(record.replace('[Variant "blockadeOneRemoval"]', '[Variant "antiShuttle"]')))
+      .toThrow('Variant header "antiShuttle" does not match the Position header, which has "blockadeOneRemoval"');
+  });
+
+  it('should reject moves the notation gets wrong', () => {
+    expect(() => importGameRecord(RECORD.replace('1. a1,b1', '1. a1,a1')))
+      .toThrow('Move 1 "a1,a1": Invalid move notation "a1,a1": both stones on the same cell');
+
+    const capture = RECORD.replace('[Result', '[Position "LD3/2L2/5/3LL/DDD2 L movement 0,0 0 - b"]\n[Result')
+      .replace('1. a1,b1 2. e5,d5 {opening}', '1. d4-d3x');
+    expect(() => importGameRecord(capture))
+      .toThrow('Move 1 "d4-d3x": Invalid move notation "d4-d3x": the move captures nothing, so it cannot end in x');
+  });
+
+  it('should import a hand-written record with comments', () => {
+    const record = importGameRecord(RECORD);
+    expect(record.moves).toEqual(['a1,b1', 'e5,d5']);
+    expect(record.state.board[0][0]).toBe('Light');
+    expect(record.state.board[4][3]).toBe('Dark');
+    expect(record.state.current).toBe('Light');
+  });
+
+  it('should reject records from other games and versions', () => {
+    expect(() => importGameRecord('[Event "Chess"]\n\n1. e4 e5')).toThrow('Not a Seejeh game record');
+    expect(() => importGameRecord(RECORD.replace('[Version "1"]', '[Version "2"]')))
+      .toThrow('Unsupported game record version "2" (expected 1)');
+  });
+
+  it('should point at bad headers', () => {
+    expect(() => importGameRecord(RECORD.replace('[BoardSize "5"]', '[BoardSize 5]')))
+      .toThrow('Line 3: malformed header [BoardSize 5]');
+    expect(() => importGameRecord(RECORD.replace('blockadeOneRemoval', 'noCenter')))
+      .toThrow('Unknown variant flag "noCenter" in Variant header');
+  });
+
+  it('should name the illegal move instead of loading a corrupted board', () => {
+    expect(() => importGameRecord(RECORD.replace('e5,d5', 'e5,a1')))
+      .toThrow(/^Move 2 "e5,a1": /);
+    expect(() => importGameRecord(RECORD.replace('e5,d5', 'e5,f9')))
+      .toThrow('Move 2 "e5,f9": Coordinate "f9" is off the 5x5 board');
+  });
+
+  it('should check the result against the replayed moves', () => {
+    expect(() => importGameRecord(RECORD.replace('[Result "*"]', '[Result "1-0"]')))
+      .toThrow('Result header "1-0" does not match the moves, which end *');
+    expect(() => importGameRecord(`${RECORD}0-1\n`))
+      .toThrow('Move text ends with "0-1" but the Result header is "*"');
+  });
+});
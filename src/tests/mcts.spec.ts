@@ -0,0 +1,149 @@
+// FILE: src/tests/mcts.spec.ts
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { monteCarloSearch, runMonteCarlo } from '../lib/mcts';
+import { getBestAIMove } from '../lib/ai';
+import { applyAction, legalActions } from '../lib/actions';
+import { initialState7x7 } from '../lib/rules';
+import { parsePosition } from '../lib/position';
+import { EvaluationWeights } from '../lib/evaluation';
+import { useGameStore } from '../state/gameStore';
+
+const WEIGHTS: EvaluationWeights = {
+  stoneCount: 12,
+  centerControl: 2,
+  mobility: 1,
+  captures: 25,
+  positioning: 1,
+  safety: 1
+};
+
+// Light wins at once by capturing d3 with e2-e3
+const WINNING_CAPTURE = 'LLLLLLL/4L2/2LD3/7/7/7/DDDDDDD L movement 0,0 0 - b';
+const MIDGAME = 'LLLLLLL/7/L6/7/1D5/7/DDDDDDD L movement 0,0 0 - b';
+
+// Small linear congruential generator so runs are repeatable
+function seeded(seed: number): () => number {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+}
+
+const frozen = () => 0;
+
+describe('Monte Carlo Tree Search', () => {
+  it('should find a winning capture', () => {
+    const state = parsePosition(WINNING_CAPTURE);
+    const report = runMonteCarlo(state, {
+      budget: { iterations: 1500, timeMs: 1000 },
+      weights: WEIGHTS,
+      random: seeded(1),
+      now: frozen
+    });
+
+    expect(report.best).toEqual({ type: 'move', from: { r: 1, c: 4 }, to: { r: 2, c: 4 } });
+    expect(report.winRate).toBeGreaterThan(0.9);
+  });
+
+  it('should stop at the iteration budget and report a legal line', () => {
+    const state = parsePosition(MIDGAME);
+    const report = runMonteCarlo(state, {
+      budget: { iterations: 500, timeMs: 1000 },
+      weights: WEIGHTS,
+      random: seeded(2),
+      now: frozen
+    });
+
+    expect(report.iterations).toBe(500);
+    expect(report.pv[0]).toEqual(report.best);
+
+    let position = state;
+    for (const action of report.pv) {
+      expect(legalActions(position)).toContainEqual(action);
+      position = applyAction(position, action);
+    }
+  });
+
+  it('should be repeatable with the same random source', () => {
+    const state = parsePosition(MIDGAME);
+    const options = () => ({
+      budget: { iterations: 300, timeMs: 1000 },
+      weights: WEIGHTS,
+      random: seeded(3),
+      now: frozen
+    });
+
+    expect(runMonteCarlo(state, options())).toEqual(runMonteCarlo(state, options()));
+  });
+
+  it('should yield progress and stop when the time budget runs out', () => {
+    const state = parsePosition(MIDGAME);
+    let time = 0;
+    const search = monteCarloSearch(state, {
+      budget: { iterations: 100000, timeMs: 5 },
+      weights: WEIGHTS,
+      random: seeded(4),
+      now: () => time++
+    });
+
+    let reports = 0;
+    let step = search.next();
+    while (!step.done) {
+      reports++;
+      step = search.next();
+    }
+
+    expect(step.value.iterations).toBeLessThan(100000);
+    expect(step.value.iterations).toBe(reports * 100 + 100);
+  });
+
+  it('should score blockade removals by what they allow', () => {
+    // Only giving up d1 lets Light capture next
+    const state = parsePosition('LLLLLLL/DDDDDDD/2DLD2/3D3/7/DDDDDDD/LLLLLLL L movement 0,0 0 - b');
+    const report = runMonteCarlo(state, {
+      budget: { iterations: 3000, timeMs: 1000 },
+      weights: WEIGHTS,
+      random: seeded(5),
+      now: frozen
+    });
+
+    expect(report.best).toEqual({ type: 'removeBlockade', cell: { r: 0, c: 3 } });
+  });
+
+  it('should choose a legal placement pair through the AI interface', () => {
+    const state = initialState7x7();
+    const move = getBestAIMove(state, 'hard', 'mcts');
+
+    expect(move?.type).toBe('placement');
+    expect(move?.cells).toHaveLength(2);
+    expect(() => applyAction(state, { type: 'place', cells: move!.cells })).not.toThrow();
+  });
+});
+
+describe('Choosing The Engine', () => {
+  beforeEach(() => {
+    const { settings } = useGameStore.getState();
+    useGameStore.setState({
+      settings: {
+        ...settings,
+        players: { Light: { type: 'human' }, Dark: { type: 'ai', difficulty: 'easy' } }
+      }
+    });
+  });
+
+  it('should store the engine per player', () => {
+    useGameStore.getState().setAIEngine('Dark', 'mcts');
+
+    const { players } = useGameStore.getState().settings;
+    expect(players.Dark).toEqual({ type: 'ai', difficulty: 'easy', engine: 'mcts' });
+    expect(players.Light.engine).toBeUndefined();
+  });
+
+  it('should keep the engine when the difficulty changes', () => {
+    useGameStore.getState().setAIEngine('Dark', 'mcts');
+    useGameStore.getState().setAIDifficulty('hard');
+
+    expect(useGameStore.getState().settings.players.Dark).toEqual({ type: 'ai', difficulty: 'hard', engine: 'mcts' });
+  });
+});
@@ -0,0 +1,140 @@
+// FILE: src/tests/notation.spec.ts
+
+import { describe, it, expect } from 'vitest';
+import { initialState, initialState7x7 } from '../lib/rules';
+import { applyAction, legalActions, replay } from '../lib/actions';
+import { formatCell, parseCell, formatAction, parseAction, formatMoveList, parseMoveList } from '../lib/notation';
+import { hashPosition } from '../lib/zobrist';
+import { GameAction, GameState } from '../lib/types';
+
+/**
+ * Movement-phase position where Light can capture twice in a row:
+ * c3-c4 captures b4 (against a4), then c4-c5 captures c6 (against c7)
+ */
+function chainPosition(): GameState {
+  const state = initialState7x7();
+  state.phase = 'movement';
+  state.stonesToPlace = { Light: 0, Dark: 0 };
+  for (let c = 0; c < 7; c++) {
+    state.board[0][c] = 'Light';
+    state.board[6][c] = 'Dark';
+  }
+  state.board[3][0] = 'Light';
+  state.board[2][2] = 'Light';
+  state.board[3][1] = 'Dark';
+  state.board[5][2] = 'Dark';
+  state.board[6][2] = 'Light';
+  state.board[5][4] = 'Dark';
+  state.board[5][5] = 'Dark';
+  state.board[5][6] = 'Dark';
+  state.hash = hashPosition(state);
+  state.positionHistory = [state.hash];
+  return state;
+}
+
+describe('Move Notation', () => {
+  it('should format and parse coordinates', () => {
+    expect(formatCell({ r: 0, c: 0 })).toBe('a1');
+    expect(formatCell({ r: 3, c: 3 })).toBe('d4');
+    expect(parseCell('c3', 7)).toEqual({ r: 2, c: 2 });
+    expect(parseCell('I9', 9)).toEqual({ r: 8, c: 8 });
+  });
+
+  it('should reject coordinates off the board', () => {
+    expect(() => parseCell('f5', 5)).toThrow('Coordinate "f5" is off the 5x5 board');
+    expect(() => parseCell('z1', 7)).toThrow('Invalid coordinate "z1"');
+  });
+
+  it('should format placements, moves and captures', () => {
+    const state = chainPosition();
+    expect(formatAction(initialState7x7(), { type: 'place', cells: [{ r: 0, c: 0 }, { r: 1, c: 1 }] })).toBe('a1,b2');
+    expect(formatAction(state, { type: 'move', from: { r: 2, c: 2 }, to: { r: 2, c: 3 } })).toBe('c3-d3');
+    expect(formatAction(state, { type: 'move', from: { r: 2, c: 2 }, to: { r: 3, c: 2 } })).toBe('c3-c4x');
+    expect(formatAction(state, { type: 'removeBlockade', cell: { r: 0, c: 0 } })).toBe('*a1');
+  });
+
+  it('should round-trip every legal action', () => {
+    const positions = [initialState7x7(), chainPosition(), initialState(5)];
+    const afterCapture = applyAction(chainPosition(), { type: 'move', from: { r: 2, c: 2 }, to: { r: 3, c: 2 } });
+    positions.push(afterCapture);
+
+    for (const state of positions) {
+      for (const action of legalActions(state)) {
+        expect(parseAction(state, formatAction(state, action))).toEqual(action);
+      }
+    }
+  });
+
+  it('should parse a move during a chain as a chain step', () => {
+    const state = applyAction(chainPosition(), { type: 'move', from: { r: 2, c: 2 }, to: { r: 3, c: 2 } });
+    expect(state.phase).toBe('chain');
+    expect(parseAction(state, 'c4-c5x')).toEqual({ type: 'chainStep', to: { r: 4, c: 2 } });
+    expect(() => parseAction(state, 'a4-a5')).toThrow('chain must continue from c4');
+  });
+
+  it('should reject capture marks that do not match the move', () => {
+    const state = chainPosition();
+    expect(() => parseAction(state, 'c3-c4')).toThrow('Invalid move notation "c3-c4": the move captures, so it must end in x');
+    expect(() => parseAction(state, 'c3-d3x')).toThrow('Invalid move notation "c3-d3x": the move captures nothing, so it cannot end in x');
+
+    const chain = applyAction(state, { type: 'move', from: { r: 2, c: 2 }, to: { r: 3, c: 2 } });
+    expect(() => parseAction(chain, 'c4-c5')).toThrow('the move captures, so it must end in x');
+  });
+
+  it('should reject both stones of a placement on one cell', () => {
+    expect(() => parseAction(initialState7x7(), 'a1,a1'))
+      .toThrow('Invalid move notation "a1,a1": both stones on the same cell');
+  });
+});
+
+describe('Move Lists', () => {
+  it('should merge placement pairs and chain continuations into one token per turn', () => {
+    const actions: GameAction[] = [
+      { type: 'move', from: { r: 2, c: 2 }, to: { r: 3, c: 2 } },
+      { type: 'chainStep', to: { r: 4, c: 2 } },
+      { type: 'endChain' },
+      { type: 'move', from: { r: 5, c: 6 }, to: { r: 4, c: 6 } }
+    ];
+    expect(formatMoveList(chainPosition(), actions)).toEqual(['c3-c4x-c5x', 'g6-g5']);
+
+    const placement: GameAction[] = [
+      { type: 'place', cells: [{ r: 0, c: 0 }] },
+      { type: 'place', cells: [{ r: 1, c: 1 }] },
+      { type: 'place', cells: [{ r: 6, c: 6 }] }
+    ];
+    expect(formatMoveList(initialState7x7(), placement)).toEqual(['a1,b2', 'g7']);
+  });
+
+  it('should parse a move list back to the same position', () => {
+    const actions = parseMoveList(chainPosition(), '1. c3-c4x-c5x 2. g6-g5');
+    expect(actions).toHaveLength(4);
+    expect(actions[2]).toEqual({ type: 'endChain' });
+
+    const expected = replay(chainPosition(), [
+      { type: 'move', from: { r: 2, c: 2 }, to: { r: 3, c: 2 } },
+      { type: 'chainStep', to: { r: 4, c: 2 } },
+      { type: 'endChain' },
+      { type: 'move', from: { r: 5, c: 6 }, to: { r: 4, c: 6 } }
+    ]);
+    expect(replay(chainPosition(), actions).hash).toBe(expected.hash);
+  });
+
+  it('should reproduce a whole game through its notation', () => {
+    let state = initialState7x7();
+    for (let i = 0; i < 80 && state.winner === undefined; i++) {
+      const actions = legalActions(state);
+      state = applyAction(state, actions[(i * 7) % actions.length]);
+    }
+
+    const moves = formatMoveList(initialState7x7(), state.actionHistory);
+    const parsed = parseMoveList(initialState7x7(), moves.join(' '));
+    const replayed = replay(initialState7x7(), parsed);
+    expect(replayed.board).toEqual(state.board);
+    expect(replayed.hash).toBe(state.hash);
+  });
+
+  it('should name the move that failed to parse', () => {
+    expect(() => parseMoveList(initialState7x7(), 'a1,b2 a1,c3'))
+      .toThrow(/^Move 2 "a1,c3": /);
+  });
+});
@@ -0,0 +1,158 @@
+// FILE: src/tests/position.spec.ts
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { initialState, initialState7x7 } from '../lib/rules';
+import { applyAction, legalActions } from '../lib/actions';
+import { formatPosition, parsePosition, startingPosition } from '../lib/position';
+import { exportGameRecord, importGameRecord } from '../lib/gameRecord';
+import { formatMoveList } from '../lib/notation';
+import { GameSettings, GameState } from '../lib/types';
+import { useGameStore } from '../state/gameStore';
+import { soundSystem } from '../lib/soundSystem';
+
+const MIDGAME = 'LLLLLLL/7/L6/7/1D5/7/DDDDDDD L movement 0,0 0 - b';
+
+function play(state: GameState, plies: number): GameState {
+  for (let i = 0; i < plies && state.winner === undefined; i++) {
+    const actions = legalActions(state);
+    state = applyAction(state, actions[(i * 3) % actions.length]);
+  }
+  return state;
+}
+
+describe('Position Strings', () => {
+  it('should describe the initial position', () => {
+    expect(formatPosition(initialState7x7())).toBe('7/7/7/7/7/7/7 L placement 24,24 0 - b');
+    expect(formatPosition(initialState(5, { antiShuttle: true }))).toBe('5/5/5/5/5 L placement 12,12 0 - sb');
+  });
+
+  it('should round-trip positions from every phase', () => {
+    const halfTurn = applyAction(initialState7x7(), { type: 'place', cells: [{ r: 0, c: 0 }] });
+    const movement = play(initialState7x7(), 60);
+
+    for (const state of [halfTurn, movement]) {
+      const parsed = parsePosition(formatPosition(state));
+      expect(parsed.board).toEqual(state.board);
+      expect(parsed.current).toBe(state.current);
+      expect(parsed.phase).toBe(state.phase);
+      expect(parsed.stonesToPlace).toEqual(state.stonesToPlace);
+      expect(parsed.placementCount).toBe(state.placementCount);
+      expect(parsed.hash).toBe(state.hash);
+    }
+  });
+
+  it('should keep the capturing stone of a chain', () => {
+    const state = parsePosition('LLLLLLL/7/2L4/LD5/7/D6/DDDDDDD L movement 0,0 0 - b');
+    const chain = applyAction(state, { type: 'move', from: { r: 2, c: 2 }, to: { r: 3, c: 2 } });
+    expect(chain.phase).toBe('chain');
+    expect(formatPosition(chain)).toBe('LLLLLLL/7/7/L1L4/7/D6/DDDDDDD L chain 0,0 0 c4 b');
+    expect(parsePosition(formatPosition(chain)).chainOrigin).toEqual({ r: 3, c: 2 });
+  });
+
+  it('should reject malformed strings', () => {
+    expect(() => parsePosition('7/7/7 L placement')).toThrow('Position must have 7 fields, found 3');
+    expect(() => parsePosition('7/7/7/7/7/7 L placement 24,24 0 - b')).toThrow('Board must have 5, 7 or 9 rows, found 6');
+    expect(() => parsePosition('7/7/7/7/7/7/6 L placement 24,24 0 - b')).toThrow('Row 7 has 6 cells, expected 7');
+    expect(() => parsePosition('7/7/7/7/7/7/7 L placement 24,24 0 - bx')).toThrow('Unknown variant flag "x"');
+  });
+
+  it('should reject a stone on the center during placement', () => {
+    expect(() => parsePosition('7/7/7/3L3/7/7/7 D placement 23,24 0 - b'))
+      .toThrow('The center must stay empty during placement');
+  });
+
+  it('should reject more stones than were ever placed', () => {
+    expect(() => parsePosition('LLLLLLL/7/7/7/7/7/DDDDDDD L placement 20,17 0 - b'))
+      .toThrow('Light has 7 stones on the board and 20 to place, more than the 24 they started with');
+    expect(() => parsePosition('LLLLLLL/7/7/7/7/7/DDDDDDD L placement 17,16 0 - b'))
+      .toThrow('Dark has placed 8 stones but 7 are on the board');
+  });
+
+  it('should reject placement counts that break the turn order', () => {
+    expect(() => parsePosition('LLL4/7/7/7/7/7/7 D placement 21,24 0 - b'))
+      .toThrow('Light has placed 3 stones and Dark 0, which cannot happen with Dark to place the first stone');
+  });
+
+  it('should reject decided games and misplaced chain stones', () => {
+    expect(() => parsePosition('LLLLLLL/L6/7/7/7/7/DDDDDDD L movement 0,0 0 - b'))
+      .toThrow('Dark has only 7 stones, so the game would already be over');
+    expect(() => parsePosition(MIDGAME.replace('movement 0,0 0 -', 'chain 0,0 0 e5')))
+      .toThrow('The capturing stone on e5 must belong to Light');
+  });
+});
+
+describe('Games From Set-Up Positions', () => {
+  const settings = {
+    aiDifficulty: 'easy',
+    players: { Light: { type: 'human' }, Dark: { type: 'ai' } }
+  } as GameSettings;
+
+  it('should replay moves from the starting position', () => {
+    let state: GameState = { ...parsePosition(MIDGAME), startPosition: MIDGAME };
+    state = applyAction(state, { type: 'move', from: { r: 2, c: 0 }, to: { r: 3, c: 0 } });
+
+    expect(startingPosition(state).board).toEqual(parsePosition(MIDGAME).board);
+    expect(formatMoveList(startingPosition(state), state.actionHistory)).toEqual(['a3-a4']);
+  });
+
+  it('should carry the starting position through a game record', () => {
+    const start: GameState = { ...parsePosition(MIDGAME), startPosition: MIDGAME };
+    const state = play(start, 20);
+    const text = exportGameRecord(state, settings);
+    expect(text).toContain(`[Position "${MIDGAME}"]`);
+
+    const record = importGameRecord(text);
+    expect(record.state.startPosition).toBe(MIDGAME);
+    expect(record.state.hash).toBe(state.hash);
+  });
+});
+
+describe('Position Editor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    soundSystem.setEnabled(false);
+    useGameStore.setState({ gameState: initialState7x7(), editorState: null, aiThinking: false });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should keep placement counts in step with edited stones', () => {
+    const { openEditor } = useGameStore.getState();
+    openEditor();
+    useGameStore.getState().editCell({ r: 0, c: 0 });
+
+    const draft = useGameStore.getState().editorState!;
+    expect(draft.board[0][0]).toBe('Light');
+    expect(draft.stonesToPlace).toEqual({ Light: 23, Dark: 24 });
+    expect(draft.placementCount).toBe(1);
+
+    // Second click turns the stone Dark, third removes it
+    useGameStore.getState().editCell({ r: 0, c: 0 });
+    expect(useGameStore.getState().editorState!.board[0][0]).toBe('Dark');
+    useGameStore.getState().editCell({ r: 0, c: 0 });
+    expect(useGameStore.getState().editorState!.board[0][0]).toBe(null);
+  });
+
+  it('should start a game from the edited position', () => {
+    useGameStore.getState().openEditor();
+    expect(useGameStore.getState().loadPosition(MIDGAME)).toBe(true);
+    useGameStore.getState().playFromEditor('human');
+
+    const { gameState, editorState, settings } = useGameStore.getState();
+    expect(editorState).toBe(null);
+    expect(gameState.startPosition).toBe(MIDGAME);
+    expect(formatPosition(gameState)).toBe(MIDGAME);
+    expect(settings.players.Dark.type).toBe('human');
+  });
+
+  it('should refuse to play an impossible position', () => {
+    useGameStore.getState().openEditor();
+    useGameStore.getState().editCell({ r: 3, c: 3 });
+    useGameStore.getState().playFromEditor('ai');
+
+    expect(useGameStore.getState().editorState).not.toBe(null);
+    expect(useGameStore.getState().toastMessage).toBe('The center must stay empty during placement');
+  });
+});
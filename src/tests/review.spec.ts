@@ -0,0 +1,164 @@
+// FILE: src/tests/review.spec.ts
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { reviewGame, winChance, positionWinChance, classifyLoss, moveAccuracy, MOVE_CLASSIFICATIONS } from '../lib/review';
+import { initialState } from '../lib/rules';
+import { replay } from '../lib/actions';
+import { parseMoveList, formatMoveList } from '../lib/notation';
+import { parsePosition } from '../lib/position';
+import { exportGameRecord } from '../lib/gameRecord';
+import { useGameStore } from '../state/gameStore';
+import { soundSystem } from '../lib/soundSystem';
+
+// Light wins at once with c2-c1, capturing b1 and leaving Dark three stones
+const WINNING_CAPTURE = 'LD3/2L2/5/3LL/DDD2 L movement 0,0 0 - b';
+
+const QUICK = { timeMs: 200, maxDepth: 3 };
+
+describe('Review Scoring', () => {
+  it('should turn scores into winning chances', () => {
+    expect(winChance(0)).toBe(50);
+    expect(winChance(10)).toBeGreaterThan(55);
+    expect(winChance(10)).toBeLessThan(65);
+    expect(winChance(-10)).toBeCloseTo(100 - winChance(10));
+    expect(winChance(100000)).toBe(100);
+  });
+
+  it('should rate positions for the evaluation bar', () => {
+    const start = parsePosition(WINNING_CAPTURE);
+    const won = replay(start, parseMoveList(start, ['c2-c1x']));
+
+    expect(positionWinChance(initialState(7))).toBe(50);
+    expect(positionWinChance(won)).toBe(100);
+    expect(positionWinChance({ ...start, current: 'Dark' })).toBeGreaterThan(0);
+    expect(positionWinChance({ ...start, winner: null })).toBe(50);
+  });
+
+  it('should label losses from best to blunder', () => {
+    expect([0, 3, 7, 15, 40].map(classifyLoss)).toEqual(MOVE_CLASSIFICATIONS);
+  });
+
+  it('should score accuracy from 100 down', () => {
+    expect(moveAccuracy(0)).toBeCloseTo(100);
+    expect(moveAccuracy(10)).toBeLessThan(moveAccuracy(5));
+    expect(moveAccuracy(100)).toBe(0);
+  });
+});
+
+describe('Game Review', () => {
+  it('should review every turn of a game', () => {
+    const start = initialState(5);
+    const moves = ['a1,b1', 'e5,d5', 'a2,b2', 'e4,d4'];
+    const review = reviewGame(start, parseMoveList(start, moves), QUICK);
+
+    expect(review.moves.map(move => move.notation)).toEqual(moves);
+    expect(review.moves.map(move => move.player)).toEqual(['Light', 'Dark', 'Light', 'Dark']);
+    expect(review.moves.map(move => move.actionIndex)).toEqual([0, 1, 2, 3]);
+    for (const player of ['Light', 'Dark'] as const) {
+      const total = Object.values(review.counts[player]).reduce((sum, count) => sum + count, 0);
+      expect(total).toBe(2);
+      expect(review.accuracy[player]).toBeGreaterThanOrEqual(0);
+      expect(review.accuracy[player]).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it('should call the winning move best', () => {
+    const start = parsePosition(WINNING_CAPTURE);
+    const review = reviewGame(start, parseMoveList(start, ['c2-c1x']), QUICK);
+
+    expect(review.moves[0]).toMatchObject({ classification: 'best', loss: 0, winChance: 100 });
+    expect(review.accuracy.Light).toBeCloseTo(100);
+    expect(review.accuracy.Dark).toBeNull();
+  });
+
+  it('should call throwing the win away a blunder', () => {
+    const start = parsePosition(WINNING_CAPTURE);
+    const review = reviewGame(start, parseMoveList(start, ['a1-a2', 'b1-c1']), QUICK);
+
+    expect(review.moves[0].classification).toBe('blunder');
+    expect(review.moves[0].best).toBe('c2-c1x');
+    expect(review.accuracy.Light).toBeLessThan(50);
+    expect(review.counts.Light.blunder).toBe(1);
+  });
+
+  it('should leave stalemate offers out of the turns', () => {
+    const start = parsePosition(WINNING_CAPTURE);
+    const actions = [{ type: 'offerStalemate' as const }, { type: 'rejectStalemate' as const }, ...parseMoveList(start, ['c2-c1x'])];
+    const review = reviewGame(start, actions, QUICK);
+
+    expect(review.moves.map(move => move.actionIndex)).toEqual([2]);
+  });
+});
+
+describe('Store Game Review', () => {
+  beforeEach(() => {
+    vi.useRealTimers();
+    soundSystem.setEnabled(false);
+    useGameStore.getState().closeReview();
+  });
+
+  it('should review the current game', async () => {
+    const start = initialState(5);
+    const gameState = replay(start, parseMoveList(start, ['a1,b1', 'e5,d5']));
+    useGameStore.setState({ gameState });
+
+    await useGameStore.getState().reviewGame();
+    const { gameReview } = useGameStore.getState();
+
+    expect(gameReview?.progress).toBe(1);
+    expect(gameReview?.review?.moves.map(move => move.notation)).toEqual(['a1,b1', 'e5,d5']);
+  });
+
+  it('should review a stored game from its record', async () => {
+    const start = initialState(5);
+    const played = replay(start, parseMoveList(start, ['a1,b1', 'e5,d5', 'a2,a3']));
+    const record = exportGameRecord(played, useGameStore.getState().settings);
+    useGameStore.setState({ gameState: initialState(7) });
+
+    await useGameStore.getState().reviewGame(record);
+
+    const review = useGameStore.getState().gameReview?.review;
+    expect(review?.moves.map(move => move.notation)).toEqual(formatMoveList(start, played.actionHistory));
+  });
+
+  it('should drop a review that is closed while it runs', async () => {
+    const start = initialState(5);
+    useGameStore.setState({ gameState: replay(start, parseMoveList(start, ['a1,b1', 'e5,d5'])) });
+
+    const pending = useGameStore.getState().reviewGame();
+    expect(useGameStore.getState().gameReview?.review).toBeNull();
+    useGameStore.getState().closeReview();
+    await pending;
+
+    expect(useGameStore.getState().gameReview).toBeNull();
+  });
+
+  it('should show reviewed positions on the board', async () => {
+    const start = initialState(5);
+    const gameState = replay(start, parseMoveList(start, ['a1,b1', 'e5,d5', 'a2,a3']));
+    useGameStore.setState({ gameState });
+    await useGameStore.getState().reviewGame();
+
+    useGameStore.getState().showReviewPosition(2);
+    expect(useGameStore.getState().gameReview?.selected).toBe(2);
+    expect(useGameStore.getState().gameReview?.position?.hash).toBe(replay(start, parseMoveList(start, ['a1,b1', 'e5,d5'])).hash);
+
+    useGameStore.getState().showReviewPosition(0);
+    expect(useGameStore.getState().gameReview?.position?.hash).toBe(start.hash);
+
+    useGameStore.getState().showReviewPosition(99);
+    expect(useGameStore.getState().gameReview?.selected).toBe(3);
+    expect(useGameStore.getState().gameReview?.position?.hash).toBe(gameState.hash);
+
+    useGameStore.getState().showReviewPosition(null);
+    expect(useGameStore.getState().gameReview).toMatchObject({ selected: null, position: null });
+    expect(useGameStore.getState().gameReview?.review).not.toBeNull();
+  });
+
+  it('should refuse a broken record', async () => {
+    await useGameStore.getState().reviewGame('not a record');
+
+    expect(useGameStore.getState().gameReview).toBeNull();
+    expect(useGameStore.getState().toastMessage).toMatch(/Not a Seejeh game record/);
+  });
+});
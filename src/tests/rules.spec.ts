@@ -2,8 +2,11 @@
 
 import { describe, it, expect } from 'vitest';
 import {
+  initialState,
   initialState7x7,
+  RULE_SETS,
   isCenter,
+  inBounds,
   placementsFor,
   movesFor,
   applyPlacement,
@@ -13,6 +16,7 @@ import {
   checkWin,
   hasAnyLegalMove
 } from '../lib/rules';
+import { parsePosition } from '../lib/position';
 import { GameState, Player } from '../lib/types';
 
 describe('Seejeh Rules Engine', () => {
@@ -34,6 +38,46 @@ describe('Seejeh Rules Engine', () => {
     });
   });
 
+  describe('Board Sizes', () => {
+    it('should create boards for every supported size', () => {
+      for (const size of [5, 7, 9] as const) {
+        const state = initialState(size);
+        expect(state.rules).toEqual(RULE_SETS[size]);
+        expect(state.board).toHaveLength(size);
+        expect(state.board[0]).toHaveLength(size);
+        expect(state.stonesToPlace.Light).toBe((size * size - 1) / 2);
+        expect(placementsFor(state, 'Light')).toHaveLength(size * size - 1);
+      }
+    });
+
+    it('should locate center and bounds from the board size', () => {
+      expect(isCenter({ r: 2, c: 2 }, 5)).toBe(true);
+      expect(isCenter({ r: 4, c: 4 }, 9)).toBe(true);
+      expect(isCenter({ r: 3, c: 3 }, 9)).toBe(false);
+      expect(inBounds({ r: 8, c: 8 }, 9)).toBe(true);
+      expect(inBounds({ r: 5, c: 0 }, 5)).toBe(false);
+    });
+
+    it('should prevent placement in the center of a 5x5 board', () => {
+      const state = initialState(5);
+
+      expect(() => {
+        applyPlacement(state, { r: 2, c: 2 }, { r: 0, c: 0 });
+      }).toThrow('Cannot place in center during placement phase');
+    });
+
+    it('should use the rule set threshold for wins', () => {
+      const state = initialState(5);
+      state.phase = 'movement';
+      state.board[0] = ['Light', 'Light', 'Light', 'Light', 'Light'];
+      state.board[4] = ['Dark', 'Dark', 'Dark', null, null];
+
+      const result = checkWin(state);
+      expect(result?.winner).toBe('Light');
+      expect(result?.reason).toMatchObject({ type: 'stoneCount', threshold: 3 });
+    });
+  });
+
   describe('Placement Phase', () => {
     it('should allow valid placements', () => {
       const state = initialState7x7();
@@ -264,6 +308,24 @@ describe('Seejeh Rules Engine', () => {
       
       expect(hasAnyLegalMove(state, 'Light')).toBe(true);
     });
+
+    it('should detect moves for the player not on turn', () => {
+      const state = initialState7x7();
+      state.phase = 'movement';
+      state.board[1][1] = 'Light';
+      state.current = 'Dark';
+      
+      expect(hasAnyLegalMove(state, 'Light')).toBe(true);
+    });
+
+    it('should not call a stalemate when only the next player is blocked', () => {
+      // Dark's a3-a2 walls in every Light stone
+      const state = parsePosition('LLLLLLL/1DDDDDD/D6/7/7/DDDDDDD/LLLLLLL D movement 0,0 0 - b');
+      const next = applyMove(state, { r: 2, c: 0 }, { r: 1, c: 0 });
+      
+      expect(next.winner).toBeUndefined();
+      expect(hasAnyLegalMove(next, 'Light')).toBe(false);
+    });
   });
 
   describe('Variant Rules', () => {
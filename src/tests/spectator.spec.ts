@@ -0,0 +1,127 @@
+// FILE: src/tests/spectator.spec.ts
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useGameStore } from '../state/gameStore';
+import { aiClient } from '../lib/aiClient';
+import { soundSystem } from '../lib/soundSystem';
+import { initialState, countStones } from '../lib/rules';
+import { parsePosition } from '../lib/position';
+import { playerDifficulty } from '../lib/ai';
+import { GameSettings, PlayerConfig } from '../lib/types';
+
+function resetStore(Light: PlayerConfig, Dark: PlayerConfig) {
+  const { settings } = useGameStore.getState();
+  useGameStore.setState({
+    settings: { ...settings, players: { Light, Dark }, aiDifficulty: 'beginner', timeControl: 'off' },
+    gameState: { ...initialState(5), seed: 5 },
+    undoStack: [],
+    redoStack: [],
+    undosUsed: 0,
+    aiThinking: false,
+    editorState: null,
+    spectatorPaused: false,
+    spectatorSpeed: 1
+  });
+}
+
+describe('Per-Player Engines', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    soundSystem.setEnabled(false);
+    resetStore({ type: 'human' }, { type: 'ai', difficulty: 'medium', engine: 'mcts' });
+  });
+
+  afterEach(() => {
+    useGameStore.getState().cancelAISearch();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should fall back to the default difficulty', () => {
+    const settings = { aiDifficulty: 'easy', players: { Light: { type: 'ai' }, Dark: { type: 'ai', difficulty: 'hard' } } } as GameSettings;
+
+    expect(playerDifficulty(settings, 'Light')).toBe('easy');
+    expect(playerDifficulty(settings, 'Dark')).toBe('hard');
+  });
+
+  it('should search with the difficulty and engine of the player to move', async () => {
+    const search = vi.spyOn(aiClient, 'search').mockResolvedValue({ action: null, move: null, score: 0, depth: 0, nodes: 0, pv: [] });
+    useGameStore.setState({ gameState: parsePosition('LLLLLLL/7/L6/7/1D5/7/DDDDDDD D movement 0,0 0 - b') });
+
+    const moving = useGameStore.getState().makeAIMove();
+    await vi.advanceTimersByTimeAsync(3_000);
+    await moving;
+
+    expect(search).toHaveBeenCalledWith(expect.anything(), 'medium', 'mcts', expect.any(Function));
+  });
+
+  it('should hand either side to the AI', () => {
+    useGameStore.getState().setPlayerConfig('Light', { type: 'ai', difficulty: 'hard' });
+    useGameStore.getState().setPlayerConfig('Dark', { type: 'human' });
+
+    const { players } = useGameStore.getState().settings;
+    expect(players.Light).toEqual({ type: 'ai', difficulty: 'hard' });
+    expect(players.Dark).toEqual({ type: 'human', difficulty: 'medium', engine: 'mcts' });
+  });
+
+  it('should keep moving after offering a stalemate', async () => {
+    resetStore({ type: 'human' }, { type: 'ai', difficulty: 'beginner' });
+    // A repeated position makes the AI offer a draw
+    const state = parsePosition('LLLLLLL/7/L6/7/1D5/7/DDDDDDD D movement 0,0 0 - b');
+    useGameStore.setState({ gameState: { ...state, moveRepetition: 1, seed: 1 } });
+
+    const moving = useGameStore.getState().makeAIMove();
+    await vi.advanceTimersByTimeAsync(3_000);
+    await moving;
+
+    const { gameState } = useGameStore.getState();
+    expect(gameState.stalemateOffers.Dark).toBe(true);
+    expect(gameState.current).toBe('Light');
+  });
+});
+
+describe('Spectator Mode', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    soundSystem.setEnabled(false);
+    resetStore({ type: 'ai', difficulty: 'beginner' }, { type: 'ai', difficulty: 'beginner' });
+  });
+
+  afterEach(() => {
+    useGameStore.getState().cancelAISearch();
+    vi.useRealTimers();
+  });
+
+  it('should let the AI play both sides', async () => {
+    useGameStore.getState().checkForAITurn();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    const { gameState } = useGameStore.getState();
+    expect(countStones(gameState, 'Light')).toBeGreaterThan(0);
+    expect(countStones(gameState, 'Dark')).toBeGreaterThan(0);
+  });
+
+  it('should hold a paused game until it is stepped', async () => {
+    useGameStore.getState().setSpectatorPaused(true);
+    useGameStore.getState().checkForAITurn();
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(useGameStore.getState().gameState.actionHistory).toHaveLength(0);
+
+    useGameStore.getState().stepSpectator();
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    const { gameState } = useGameStore.getState();
+    expect(gameState.current).toBe('Dark');
+    expect(countStones(gameState, 'Light')).toBeGreaterThan(0);
+    expect(countStones(gameState, 'Dark')).toBe(0);
+  });
+
+  it('should play faster at a higher speed', async () => {
+    useGameStore.getState().setSpectatorSpeed(4);
+    useGameStore.getState().checkForAITurn();
+    // The slowest pause at normal speed is 1.5 seconds before the first stone
+    await vi.advanceTimersByTimeAsync(400);
+
+    expect(useGameStore.getState().gameState.actionHistory.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,109 @@
+// FILE: src/tests/tablebase.spec.ts
+
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import {
+  generateTablebases,
+  generateTablebase,
+  tablebaseSize,
+  encodeTablebase,
+  decodeTablebase,
+  registerTablebase,
+  clearTablebases,
+  probeTablebase,
+  Tablebase,
+  TablebaseSpec
+} from '../lib/tablebase';
+import { tablebaseScore, WIN_SCORE } from '../lib/engine';
+import { initialState, RULE_SETS } from '../lib/rules';
+import { GameState, Player, Cell } from '../lib/types';
+
+// The built-in rule sets have no small endgames (a player is out at three
+// stones or more), so these tables use a 5x5 board played down to zero
+const SPEC: TablebaseSpec = { rules: { ...RULE_SETS[5], winThreshold: 0 }, blockadeOneRemoval: false };
+
+function position(light: Cell[], dark: Cell[], current: Player): GameState {
+  const state = initialState(5, { blockadeOneRemoval: false });
+  state.rules = SPEC.rules;
+  state.phase = 'movement';
+  state.stonesToPlace = { Light: 0, Dark: 0 };
+  state.current = current;
+  for (const cell of light) state.board[cell.r][cell.c] = 'Light';
+  for (const cell of dark) state.board[cell.r][cell.c] = 'Dark';
+  return state;
+}
+
+describe('Endgame Tablebase', () => {
+  let tables: Tablebase[];
+
+  beforeAll(() => {
+    tables = generateTablebases(SPEC, 2, 1);
+  });
+
+  afterEach(() => {
+    clearTablebases();
+  });
+
+  it('should solve each material balance up to the requested one', () => {
+    expect(tables.map(table => `${table.light}v${table.dark}`)).toEqual(['1v1', '2v1']);
+    expect(tables[1].values).toHaveLength(tablebaseSize(5, 2, 1));
+    expect(tablebaseSize(5, 2, 1)).toBe(300 * 23 * 2);
+  });
+
+  it('should reject material that has already lost', () => {
+    expect(() => generateTablebase(SPEC, 0, 1)).toThrow('more stones than the win threshold');
+  });
+
+  it('should call a lone stone against a lone stone a draw', () => {
+    tables.forEach(registerTablebase);
+    const result = probeTablebase(position([{ r: 0, c: 0 }], [{ r: 4, c: 4 }], 'Light'));
+
+    expect(result).toEqual({ result: 'draw', turns: 0, moves: 0 });
+  });
+
+  it('should find the win and loss for each side to move', () => {
+    tables.forEach(registerTablebase);
+    // Any quiet move leaves too little material, which the bigger side wins
+    const light = [{ r: 0, c: 0 }, { r: 4, c: 4 }];
+    const dark = [{ r: 2, c: 0 }];
+
+    expect(probeTablebase(position(light, dark, 'Light'))).toEqual({ result: 'win', turns: 1, moves: 1 });
+    expect(probeTablebase(position(light, dark, 'Dark'))).toEqual({ result: 'loss', turns: 1, moves: 1 });
+  });
+
+  it('should count a forced pass as a turn', () => {
+    tables.forEach(registerTablebase);
+    // Dark is walled into the corner and can only pass
+    const state = position([{ r: 0, c: 1 }, { r: 1, c: 0 }], [{ r: 0, c: 0 }], 'Dark');
+
+    expect(probeTablebase(state)).toEqual({ result: 'loss', turns: 2, moves: 1 });
+  });
+
+  it('should only answer for loaded tables and turn starts', () => {
+    const state = position([{ r: 0, c: 0 }, { r: 4, c: 4 }], [{ r: 2, c: 0 }], 'Light');
+    expect(probeTablebase(state)).toBeNull();
+
+    tables.forEach(registerTablebase);
+    expect(probeTablebase({ ...state, phase: 'chain', chainOrigin: { r: 0, c: 0 } })).toBeNull();
+    expect(probeTablebase({ ...state, rules: RULE_SETS[5] })).toBeNull();
+    expect(probeTablebase(position([{ r: 0, c: 0 }], [{ r: 2, c: 0 }, { r: 4, c: 4 }], 'Light'))).toBeNull();
+  });
+
+  it('should survive a round trip through the file format', () => {
+    const file = JSON.parse(JSON.stringify(encodeTablebase(tables[1])));
+    const decoded = decodeTablebase(file);
+
+    expect(decoded).toEqual(tables[1]);
+    expect(() => decodeTablebase({ ...file, light: 1 })).toThrow('wrong number of positions');
+  });
+
+  it('should give the search exact scores', () => {
+    tables.forEach(registerTablebase);
+    const state = position([{ r: 0, c: 1 }, { r: 1, c: 0 }], [{ r: 0, c: 0 }], 'Dark');
+
+    expect(tablebaseScore(state, 'Light', 3)).toBe(WIN_SCORE - 3 - 2);
+    expect(tablebaseScore(state, 'Dark', 3)).toBe(-(WIN_SCORE - 3 - 2));
+
+    clearTablebases();
+    expect(tablebaseScore(state, 'Light', 3)).toBeNull();
+  });
+});
@@ -0,0 +1,156 @@
+// FILE: src/tests/threats.spec.ts
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { detectThreats, findCaptureThreats, checkForBlunder } from '../lib/threats';
+import { initialState, applyMove } from '../lib/rules';
+import { parsePosition } from '../lib/position';
+import { calculateStats } from '../lib/auth';
+import { useGameStore } from '../state/gameStore';
+import { soundSystem } from '../lib/soundSystem';
+import { GameResult } from '../lib/types';
+
+// Light's c2-c1 takes b1 and chains on to d1, taking d2; Dark's b1-b2 would
+// take c2 and d5-d4 would take d3
+const CHAIN = 'LD3/2LD1/3L1/L4/DDDDL L movement 0,0 0 - b';
+
+describe('Capture Threats', () => {
+  it('should follow a capture through its chain', () => {
+    const threats = findCaptureThreats(parsePosition(CHAIN), 'Light');
+
+    expect(threats).toEqual([{
+      attacker: 'Light',
+      from: { r: 1, c: 2 },
+      path: [{ r: 0, c: 2 }, { r: 0, c: 3 }],
+      captured: [{ r: 0, c: 1 }, { r: 1, c: 3 }]
+    }]);
+  });
+
+  it('should read the threats of the player not on move', () => {
+    const threats = findCaptureThreats(parsePosition(CHAIN), 'Dark');
+
+    expect(threats.map(threat => threat.from)).toEqual([{ r: 0, c: 1 }, { r: 4, c: 3 }]);
+    expect(threats.map(threat => threat.captured)).toEqual([[{ r: 1, c: 2 }], [{ r: 2, c: 3 }]]);
+  });
+
+  it('should list each side\'s stones in danger', () => {
+    const report = detectThreats(parsePosition(CHAIN));
+
+    expect(report.endangered.Light).toEqual([{ r: 1, c: 2 }, { r: 2, c: 3 }]);
+    expect(report.endangered.Dark).toEqual([{ r: 0, c: 1 }, { r: 1, c: 3 }]);
+  });
+
+  it('should only continue a chain in progress from its stone', () => {
+    const state = applyMove(parsePosition(CHAIN), { r: 1, c: 2 }, { r: 0, c: 2 });
+    expect(state.phase).toBe('chain');
+
+    expect(findCaptureThreats(state, 'Light')).toEqual([{
+      attacker: 'Light',
+      from: { r: 0, c: 2 },
+      path: [{ r: 0, c: 3 }],
+      captured: [{ r: 1, c: 3 }]
+    }]);
+  });
+
+  it('should find no threats during placement', () => {
+    const report = detectThreats(initialState(5));
+
+    expect(report.threats).toEqual({ Light: [], Dark: [] });
+    expect(report.endangered).toEqual({ Light: [], Dark: [] });
+  });
+});
+
+describe('Blunder Check', () => {
+  it('should warn about a capture passed up', () => {
+    const check = checkForBlunder(parsePosition(CHAIN), { r: 3, c: 0 }, { r: 2, c: 0 });
+
+    expect(check?.hung).toEqual([]);
+    expect(check?.missed).toMatchObject({ from: { r: 1, c: 2 }, captured: [{ r: 0, c: 1 }, { r: 1, c: 3 }] });
+  });
+
+  it('should warn about stones left open to capture', () => {
+    const check = checkForBlunder(parsePosition(CHAIN), { r: 3, c: 0 }, { r: 3, c: 1 });
+
+    // c2 and d3 were already in danger; only the moved stone is new
+    expect(check?.hung).toEqual([{ r: 3, c: 1 }]);
+  });
+
+  it('should pass a capture and an illegal move', () => {
+    const state = parsePosition(CHAIN);
+
+    expect(checkForBlunder(state, { r: 1, c: 2 }, { r: 0, c: 2 })).toBeNull();
+    expect(checkForBlunder(state, { r: 1, c: 2 }, { r: 3, c: 3 })).toBeNull();
+  });
+});
+
+describe('Coach Mode', () => {
+  beforeEach(() => {
+    soundSystem.setEnabled(false);
+    const { settings } = useGameStore.getState();
+    useGameStore.setState({
+      gameState: parsePosition(CHAIN),
+      selectedCell: null,
+      coachWarning: null,
+      coachUsed: false,
+      settings: {
+        ...settings,
+        coachEnabled: true,
+        players: { Light: { type: 'human' }, Dark: { type: 'human' } }
+      }
+    });
+  });
+
+  it('should stop a blunder until it is confirmed', () => {
+    const before = useGameStore.getState().gameState;
+    useGameStore.getState().selectCell({ r: 3, c: 0 });
+    useGameStore.getState().selectCell({ r: 3, c: 1 });
+
+    expect(useGameStore.getState().gameState).toBe(before);
+    expect(useGameStore.getState().coachWarning).toMatchObject({ from: { r: 3, c: 0 }, to: { r: 3, c: 1 } });
+
+    useGameStore.getState().confirmCoachMove();
+    expect(useGameStore.getState().coachWarning).toBeNull();
+    expect(useGameStore.getState().gameState.board[3][1]).toBe('Light');
+    expect(useGameStore.getState().coachUsed).toBe(true);
+  });
+
+  it('should let the player reconsider', () => {
+    useGameStore.getState().selectCell({ r: 3, c: 0 });
+    useGameStore.getState().selectCell({ r: 3, c: 1 });
+    useGameStore.getState().dismissCoachWarning();
+
+    expect(useGameStore.getState().coachWarning).toBeNull();
+    expect(useGameStore.getState().gameState.board[3][0]).toBe('Light');
+    expect(useGameStore.getState().selectedCell).toEqual({ r: 3, c: 0 });
+  });
+
+  it('should play good moves without a warning', () => {
+    useGameStore.getState().selectCell({ r: 1, c: 2 });
+    useGameStore.getState().selectCell({ r: 0, c: 2 });
+
+    expect(useGameStore.getState().coachWarning).toBeNull();
+    expect(useGameStore.getState().gameState.phase).toBe('chain');
+  });
+
+  it('should leave coached games out of the ranked stats', () => {
+    const base = {
+      timestamp: 0,
+      opponent: 'AI',
+      duration: 60,
+      totalMoves: 10,
+      playerColor: 'Light',
+      finalScore: { light: 20, dark: 20 },
+      variant: initialState(7).variant
+    } as const;
+    const games: GameResult[] = [
+      { ...base, id: 'a', winner: 'Light' },
+      { ...base, id: 'b', winner: 'Light', coached: true },
+      { ...base, id: 'c', winner: 'Dark' }
+    ];
+
+    const stats = calculateStats(games);
+    expect(stats.totalGames).toBe(2);
+    expect(stats.wins).toBe(1);
+    expect(stats.winRate).toBe(0.5);
+    expect(stats.coachedGames).toBe(1);
+  });
+});
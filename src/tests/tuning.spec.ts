@@ -0,0 +1,102 @@
+// FILE: src/tests/tuning.spec.ts
+
+import { describe, it, expect } from 'vitest';
+import { generateTrainingSet, predictionError, fitScale, tuneWeights, TrainingPosition } from '../lib/tuning';
+import { EvaluationWeights, EVALUATION_TERMS, evaluatePosition, evaluationFeatures, calculateMobility } from '../lib/evaluation';
+import { difficultyWeights } from '../lib/ai';
+import { parsePosition } from '../lib/position';
+
+const MIDGAME = 'LLLLLLL/7/L6/7/1D5/7/DDDDDDD L movement 0,0 0 - b';
+
+const WEIGHTS: EvaluationWeights = {
+  stoneCount: 1,
+  centerControl: 5,
+  mobility: 1,
+  captures: 20,
+  positioning: 1,
+  safety: 1
+};
+
+function position(stoneCount: number, centerControl: number, result: number): TrainingPosition {
+  return { features: { stoneCount, centerControl, mobility: 0, positioning: 0, safety: 0 }, result };
+}
+
+// Material decides every game, while the center stone misleads
+const MATERIAL_WINS: TrainingPosition[] = [
+  ...Array.from({ length: 10 }, () => position(2, -1, 1)),
+  ...Array.from({ length: 10 }, () => position(-2, 1, 0)),
+  ...Array.from({ length: 5 }, () => position(0, 0, 0.5))
+];
+
+describe('Evaluation Features', () => {
+  it('should add up to the evaluation when weighted', () => {
+    const state = parsePosition(MIDGAME);
+    const features = evaluationFeatures(state, 'Light');
+    const weighted = EVALUATION_TERMS.reduce((sum, term) => sum + features[term] * WEIGHTS[term], 0);
+
+    expect(evaluatePosition(state, 'Light', WEIGHTS)).toBeCloseTo(weighted);
+  });
+
+  it('should be opposite for the two players', () => {
+    const state = parsePosition(MIDGAME);
+    const light = evaluationFeatures(state, 'Light');
+    const dark = evaluationFeatures(state, 'Dark');
+
+    for (const term of EVALUATION_TERMS) {
+      expect(dark[term]).toBeCloseTo(-light[term]);
+    }
+  });
+
+  it('should count the mobility of the player not on turn', () => {
+    const state = parsePosition(MIDGAME);
+    expect(calculateMobility(state, 'Dark')).toBeGreaterThan(0);
+  });
+});
+
+describe('Weight Tuning', () => {
+  it('should fit a scale that predicts the results better than a poor one', () => {
+    const weights = { ...WEIGHTS, centerControl: 0 };
+    const scale = fitScale(MATERIAL_WINS, weights);
+
+    expect(predictionError(MATERIAL_WINS, weights, scale)).toBeLessThan(predictionError(MATERIAL_WINS, weights, 1000));
+  });
+
+  it('should move the weights towards what decides games', () => {
+    const result = tuneWeights(MATERIAL_WINS, WEIGHTS);
+
+    expect(result.finalError).toBeLessThan(result.initialError);
+    expect(2 * result.weights.stoneCount).toBeGreaterThan(result.weights.centerControl);
+    expect(result.weights.captures).toBe(WEIGHTS.captures);
+  });
+
+  it('should hold the stone count weight to anchor the scale', () => {
+    // Sharper predictions fit these results better, were stone count free to grow
+    const result = tuneWeights(MATERIAL_WINS, { ...WEIGHTS, centerControl: 0 });
+
+    expect(result.weights.stoneCount).toBe(WEIGHTS.stoneCount);
+    expect(result.weights.centerControl).toBeLessThanOrEqual(0);
+  });
+
+  it('should stop after the pass limit', () => {
+    const result = tuneWeights(MATERIAL_WINS, WEIGHTS, { maxPasses: 3 });
+    expect(result.passes).toBe(3);
+  });
+
+  it('should collect labelled movement positions from self-play', () => {
+    const positions = generateTrainingSet({ games: 1, difficulty: 'beginner', seed: 4, maxPlies: 40 });
+
+    // Placement ends after 28 actions (eight single stones, then pairs) and the game is cut short at 40
+    expect(positions.length).toBeGreaterThan(0);
+    expect(positions.length).toBeLessThanOrEqual(12);
+    for (const { result } of positions) {
+      expect(result).toBe(0.5);
+    }
+  });
+
+  it('should start from the weights the AI plays with', () => {
+    const weights = difficultyWeights('medium');
+    weights.stoneCount = -1;
+
+    expect(difficultyWeights('medium').stoneCount).not.toBe(-1);
+  });
+});
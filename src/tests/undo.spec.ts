@@ -0,0 +1,104 @@
+// FILE: src/tests/undo.spec.ts
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useGameStore } from '../state/gameStore';
+import { initialState7x7 } from '../lib/rules';
+import { soundSystem } from '../lib/soundSystem';
+import { GameSettings } from '../lib/types';
+
+function resetStore(overrides: Partial<GameSettings> = {}) {
+  const { settings } = useGameStore.getState();
+  useGameStore.setState({
+    gameState: initialState7x7(),
+    settings: {
+      ...settings,
+      players: {
+        Light: { type: 'human' },
+        Dark: { type: 'ai', difficulty: 'beginner' }
+      },
+      undoPolicy: 'unlimited',
+      ...overrides
+    },
+    undoStack: [],
+    redoStack: [],
+    undosUsed: 0,
+    aiThinking: false
+  });
+}
+
+describe('Undo/Redo Timeline', () => {
+  beforeEach(() => {
+    // Keep scheduled AI turns from firing during the test
+    vi.useFakeTimers();
+    soundSystem.setEnabled(false);
+    resetStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should undo a single placement', () => {
+    const store = useGameStore.getState();
+    store.placeStone({ r: 0, c: 0 });
+    expect(useGameStore.getState().gameState.board[0][0]).toBe('Light');
+
+    useGameStore.getState().undo();
+    const { gameState, redoStack, undosUsed } = useGameStore.getState();
+    expect(gameState.board[0][0]).toBe(null);
+    expect(gameState.stonesToPlace.Light).toBe(24);
+    expect(redoStack).toHaveLength(1);
+    expect(undosUsed).toBe(1);
+  });
+
+  it('should roll back past AI replies to the human decision point', () => {
+    const { placeStone } = useGameStore.getState();
+    placeStone({ r: 0, c: 0 });
+    placeStone({ r: 0, c: 1 });
+    // AI (Dark) reply
+    placeStone({ r: 6, c: 6 });
+    placeStone({ r: 6, c: 5 });
+    expect(useGameStore.getState().gameState.current).toBe('Light');
+
+    useGameStore.getState().undo();
+    const { gameState } = useGameStore.getState();
+    expect(gameState.current).toBe('Light');
+    expect(gameState.placementCount).toBe(1);
+    expect(gameState.board[0][1]).toBe(null);
+    expect(gameState.board[6][6]).toBe(null);
+
+    useGameStore.getState().redo();
+    const redone = useGameStore.getState().gameState;
+    expect(redone.board[0][1]).toBe('Light');
+    expect(redone.board[6][6]).toBe('Dark');
+    expect(redone.current).toBe('Light');
+  });
+
+  it('should clear the redo stack when a new move is made', () => {
+    const { placeStone } = useGameStore.getState();
+    placeStone({ r: 0, c: 0 });
+    useGameStore.getState().undo();
+    useGameStore.getState().placeStone({ r: 1, c: 1 });
+
+    expect(useGameStore.getState().redoStack).toHaveLength(0);
+  });
+
+  it('should respect the per-game undo limit', () => {
+    resetStore({ undoPolicy: 'limited', undoLimit: 1 });
+    const { placeStone } = useGameStore.getState();
+    placeStone({ r: 0, c: 0 });
+    useGameStore.getState().undo();
+    useGameStore.getState().placeStone({ r: 0, c: 0 });
+
+    expect(useGameStore.getState().canUndo()).toBe(false);
+    useGameStore.getState().undo();
+    expect(useGameStore.getState().gameState.board[0][0]).toBe('Light');
+  });
+
+  it('should not allow undo when disabled for rated games', () => {
+    resetStore({ undoPolicy: 'disabled' });
+    useGameStore.getState().placeStone({ r: 0, c: 0 });
+
+    expect(useGameStore.getState().canUndo()).toBe(false);
+  });
+});
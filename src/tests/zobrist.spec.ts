@@ -0,0 +1,122 @@
+// FILE: src/tests/zobrist.spec.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  initialState,
+  initialState7x7,
+  applyPlacement,
+  applyMove,
+  endChain
+} from '../lib/rules';
+import { hashPosition, xorHash } from '../lib/zobrist';
+import { Cell, GameState } from '../lib/types';
+
+/**
+ * Build a movement-phase position with 15 stones each and a freshly computed hash
+ */
+function shuttlePosition(): GameState {
+  const state = initialState7x7();
+  state.phase = 'movement';
+  state.stonesToPlace = { Light: 0, Dark: 0 };
+  for (let c = 0; c < 7; c++) {
+    state.board[0][c] = 'Light';
+    state.board[1][c] = 'Light';
+    state.board[5][c] = 'Dark';
+    state.board[6][c] = 'Dark';
+  }
+  state.board[2][0] = 'Light';
+  state.board[4][6] = 'Dark';
+  state.hash = hashPosition(state);
+  state.positionHistory = [state.hash];
+  return state;
+}
+
+describe('Zobrist Hashing', () => {
+  it('should hash the initial position consistently', () => {
+    const state = initialState7x7();
+    expect(state.hash).toBe(hashPosition(state));
+    expect(initialState7x7().hash).toBe(state.hash);
+    expect(initialState(5).hash).not.toBe(state.hash);
+  });
+
+  it('should keep XOR self-inverse for 53-bit values', () => {
+    const a = 0x1fffff * 0x100000000 + 0x12345678;
+    const b = 0x0abcde * 0x100000000 + 0xfedcba98;
+    expect(xorHash(xorHash(a, b), b)).toBe(a);
+    expect(xorHash(a, a)).toBe(0);
+  });
+
+  it('should update the hash incrementally through placements and moves', () => {
+    let state = initialState7x7();
+    state = applyPlacement(state, { r: 0, c: 0 }, { r: 0, c: 2 });
+    expect(state.hash).toBe(hashPosition(state));
+
+    state = applyPlacement(state, { r: 0, c: 1 });
+    expect(state.placementCount).toBe(1);
+    expect(state.hash).toBe(hashPosition(state));
+  });
+
+  it('should update the hash through captures and chain endings', () => {
+    const state = initialState7x7();
+    state.phase = 'movement';
+    state.board[2][0] = 'Light';
+    state.board[2][1] = 'Dark';
+    state.board[2][3] = 'Light';
+    state.hash = hashPosition(state);
+
+    const afterCapture = applyMove(state, { r: 2, c: 3 }, { r: 2, c: 2 });
+    expect(afterCapture.phase).toBe('chain');
+    expect(afterCapture.hash).toBe(hashPosition(afterCapture));
+
+    const afterChain = endChain(afterCapture);
+    expect(afterChain.hash).toBe(hashPosition(afterChain));
+  });
+
+  it('should give transposed placements the same hash', () => {
+    const start = initialState7x7();
+    const a = applyPlacement(applyPlacement(start, { r: 0, c: 0 }), { r: 4, c: 4 });
+    const b = applyPlacement(applyPlacement(start, { r: 4, c: 4 }), { r: 0, c: 0 });
+    expect(a.hash).toBe(b.hash);
+  });
+});
+
+describe('Repetition Detection', () => {
+  it('should detect repetition of a position cycling through several moves', () => {
+    const lightCycle: Cell[] = [{ r: 2, c: 0 }, { r: 3, c: 0 }, { r: 3, c: 1 }, { r: 2, c: 1 }];
+    const darkCycle: Cell[] = [{ r: 4, c: 6 }, { r: 3, c: 6 }, { r: 3, c: 5 }, { r: 4, c: 5 }];
+    let state = shuttlePosition();
+
+    for (let ply = 0; ply < 16; ply++) {
+      const cycle = state.current === 'Light' ? lightCycle : darkCycle;
+      const step = Math.floor(ply / 2) % 4;
+      state = applyMove(state, cycle[step], cycle[(step + 1) % 4]);
+
+      if (ply < 15) {
+        expect(state.winner).toBeUndefined();
+      }
+      if (ply === 7) {
+        expect(state.moveRepetition).toBe(1);
+      }
+    }
+
+    expect(state.moveRepetition).toBe(2);
+    expect(state.winner).toBe(null);
+    expect(state.winReason).toEqual({ type: 'stalemate', drawType: 'repetition' });
+  });
+
+  it('should reset position history after a capture', () => {
+    const quiet = applyMove(shuttlePosition(), { r: 2, c: 0 }, { r: 3, c: 0 });
+    expect(quiet.positionHistory).toHaveLength(2);
+
+    const state = shuttlePosition();
+    state.board[2][1] = 'Dark';
+    state.board[3][2] = 'Light';
+    state.hash = hashPosition(state);
+    state.positionHistory = [state.hash];
+
+    const captured = applyMove(state, { r: 3, c: 2 }, { r: 2, c: 2 });
+    expect(captured.capturedLastMove).toContainEqual({ r: 2, c: 1 });
+    expect(captured.positionHistory).toEqual([captured.hash]);
+    expect(captured.moveRepetition).toBe(0);
+  });
+});